@@ -0,0 +1,89 @@
+// Turns an exported directory (the JSON from "Export JSON") into a static site:
+//   dist/index.html, dist/directory/index.html   the directory
+//   dist/artist/:id/index.html                   one page per approved artist
+//   dist/media/*                                 images unpacked from the export
+//   dist/data/directory.json                     the snapshot the pages hydrate from
+//   dist/sitemap.xml, dist/robots.txt
+//   dist/feeds/artists.json, dist/feeds/new-artists.xml   versioned JSON and Atom feeds (src/feeds.ts)
+// Each page carries its own title, description and Open Graph tags. dist/404.html
+// stays an empty shell that renders whatever path it is served for from the same data.
+//
+// Usage: npm run build && npm run prerender -- path/to/loveletter-artists.json
+// SITE_URL (e.g. https://artists.example.org) is needed for canonical and og:image URLs.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+const root = resolve(dirname(new URL(import.meta.url).pathname), "..");
+const DIST = join(root, "dist");
+const SSR_ENTRY = join(root, "dist-ssr", "entry-server.js");
+const DATA_PATH = "/data/directory.json";
+
+const exportFile = process.argv[2];
+const siteUrl = process.env.SITE_URL || "http://localhost:4173";
+if (!exportFile) {
+  console.error("Usage: npm run prerender -- <export.json>");
+  process.exit(1);
+}
+if (!process.env.SITE_URL) console.warn(`SITE_URL not set; links in page metadata will point at ${siteUrl}`);
+
+const server = await import(pathToFileURL(SSR_ENTRY).href);
+const { snapshot, media, skipped } = server.prepareSnapshot(JSON.parse(readFileSync(exportFile, "utf8")));
+if (skipped) console.warn(`${skipped} record(s) could not be read and were left out`);
+
+// The client build's index.html, with its hashed script and stylesheet tags
+const template = readFileSync(join(DIST, "index.html"), "utf8");
+if (!template.includes('<div id="root"></div>')) {
+  console.error("dist/index.html is not a fresh build (already prerendered?); run npm run build first");
+  process.exit(1);
+}
+
+function write(path, content) {
+  const file = join(DIST, path);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
+
+function page({ head, html = "", prerendered }) {
+  const metas = [`<meta name="${server.STATIC_DATA_META}" content="${DATA_PATH}" />`];
+  if (prerendered) metas.push(`<meta name="${server.PRERENDERED_PATH_META}" content="${prerendered}" />`);
+  return template
+    .replace(/<title>.*<\/title>/, (title) => [head ?? title, ...metas].join("\n    "))
+    .replace('<div id="root"></div>', `<div id="root">${html}</div>`);
+}
+
+for (const { path, dataUrl } of media) {
+  const [header, body] = [dataUrl.slice(0, dataUrl.indexOf(",")), dataUrl.slice(dataUrl.indexOf(",") + 1)];
+  write(path, header.endsWith(";base64") ? Buffer.from(body, "base64") : decodeURIComponent(body));
+}
+write(DATA_PATH, JSON.stringify(snapshot));
+
+const directory = server.directoryMeta(snapshot.entries);
+for (const path of ["/", "/directory"]) {
+  const html = server.render(path, snapshot);
+  const head = `${server.headTags({ ...directory, path: "/" }, siteUrl)}\n    ${server.feedLinkTags(siteUrl)}`;
+  write(path === "/" ? "index.html" : "directory/index.html", page({ head, html, prerendered: path }));
+}
+for (const entry of snapshot.entries) {
+  const meta = server.artistMeta(entry);
+  write(
+    `${meta.path}/index.html`,
+    page({ head: server.headTags(meta, siteUrl), html: server.render(meta.path, snapshot), prerendered: meta.path })
+  );
+}
+write("404.html", page({}));
+
+const pages = [
+  { path: "/", lastModified: snapshot.generatedAt },
+  ...snapshot.entries.map((e) => ({ path: server.artistMeta(e).path, lastModified: e.updatedAt || e.createdAt })),
+];
+write("sitemap.xml", server.sitemapXml(pages, siteUrl));
+write("robots.txt", `User-agent: *\nAllow: /\nSitemap: ${new URL("/sitemap.xml", siteUrl)}\n`);
+
+// The embeddable widget (dist/widget/, from npm run build) reads the JSON feed
+const feed = server.artistFeed(snapshot.entries, siteUrl, snapshot.generatedAt);
+write(server.FEED_PATHS.json, JSON.stringify(feed));
+write(server.FEED_PATHS.atom, server.atomFeed(feed));
+
+console.log(`Prerendered ${snapshot.entries.length} artist pages, ${media.length} images and the feeds into dist/`);
@@ -0,0 +1,126 @@
+// Minimal offline stand-in for a hosted backend (Supabase/Firebase later).
+// Serves the REST shape used by src/storage/httpRepository.ts:
+//   GET    /artists          list
+//   PUT    /artists          replace all (bulk import)
+//   POST   /artists          create
+//   GET    /artists/:id      read one
+//   PATCH  /artists/:id      partial update
+//   DELETE /artists/:id      delete
+//   GET    /collections      list curator collections
+//   PUT    /collections      replace all collections
+//   GET    /art-types        list the managed art types
+//   PUT    /art-types        replace all art types
+//   GET    /open-calls       list open calls
+//   PUT    /open-calls       replace all open calls
+// Data is kept in JSON files so it survives restarts.
+//
+// Usage: npm run mock-api
+// (PORT, MOCK_API_DB, MOCK_API_COLLECTIONS_DB, MOCK_API_ART_TYPES_DB and MOCK_API_OPEN_CALLS_DB env vars are optional)
+
+import { createServer } from "node:http";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+const PORT = Number(process.env.PORT || 8787);
+const DB_FILE = process.env.MOCK_API_DB || new URL("./mock-db.json", import.meta.url).pathname;
+
+let artists = existsSync(DB_FILE) ? JSON.parse(readFileSync(DB_FILE, "utf8")) : [];
+
+// Resources that are only ever read and replaced whole, each in a file of its own
+const lists = {
+  collections: process.env.MOCK_API_COLLECTIONS_DB || new URL("./mock-collections.json", import.meta.url).pathname,
+  "art-types": process.env.MOCK_API_ART_TYPES_DB || new URL("./mock-art-types.json", import.meta.url).pathname,
+  "open-calls": process.env.MOCK_API_OPEN_CALLS_DB || new URL("./mock-open-calls.json", import.meta.url).pathname,
+};
+const listData = Object.fromEntries(
+  Object.entries(lists).map(([name, file]) => [name, existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : []])
+);
+
+function save() {
+  writeFileSync(DB_FILE, JSON.stringify(artists, null, 2));
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : null;
+}
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  const [, resource, rawId] = pathname.replace(/\/+$/, "").split("/");
+  const id = rawId && decodeURIComponent(rawId);
+
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (Object.hasOwn(lists, resource) && !id) {
+    if (req.method === "GET") return send(res, 200, listData[resource]);
+    if (req.method === "PUT") {
+      try {
+        const list = await readBody(req);
+        if (!Array.isArray(list)) return send(res, 400, { error: "Expected an array" });
+        listData[resource] = list;
+        writeFileSync(lists[resource], JSON.stringify(list, null, 2));
+        return send(res, 200, list);
+      } catch {
+        return send(res, 400, { error: "Invalid JSON" });
+      }
+    }
+    return send(res, 405, { error: "Method not allowed" });
+  }
+  if (resource !== "artists") return send(res, 404, { error: "Not found" });
+
+  try {
+    if (!id) {
+      if (req.method === "GET") return send(res, 200, artists);
+      if (req.method === "PUT") {
+        const list = await readBody(req);
+        if (!Array.isArray(list)) return send(res, 400, { error: "Expected an array" });
+        artists = list;
+        save();
+        return send(res, 200, artists);
+      }
+      if (req.method === "POST") {
+        const entry = await readBody(req);
+        if (!entry || !entry.id) return send(res, 400, { error: "Entry needs an id" });
+        if (artists.some((a) => a.id === entry.id))
+          return send(res, 409, { error: `Artist ${entry.id} already exists` });
+        artists = [entry, ...artists];
+        save();
+        return send(res, 201, entry);
+      }
+      return send(res, 405, { error: "Method not allowed" });
+    }
+
+    const idx = artists.findIndex((a) => a.id === id);
+    if (idx === -1) return send(res, 404, { error: `Artist ${id} not found` });
+
+    if (req.method === "GET") return send(res, 200, artists[idx]);
+    if (req.method === "PATCH") {
+      const patch = (await readBody(req)) || {};
+      artists[idx] = { ...artists[idx], ...patch, id };
+      save();
+      return send(res, 200, artists[idx]);
+    }
+    if (req.method === "DELETE") {
+      artists.splice(idx, 1);
+      save();
+      return send(res, 204);
+    }
+    return send(res, 405, { error: "Method not allowed" });
+  } catch (e) {
+    return send(res, 400, { error: e instanceof SyntaxError ? "Invalid JSON" : String(e) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API on http://localhost:${PORT} (data: ${DB_FILE})`);
+});
@@ -1,4 +1,114 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { Suspense, useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import type { ArtistEntry, ArtworkImage, CallAnswer, EditableFields, ReviewAction, ReviewStatus } from "./types";
+import { entryArtTypes, imageAlt, normalizeTags, REVIEW_ACTION_STATUS, REVIEW_STATUSES, SAMPLE_ENTRIES } from "./data";
+import { createFailedRepository, createRepository } from "./storage/repository";
+import { createStaticRepository, type StaticSnapshot } from "./storage/staticRepository";
+import {
+  deleteAssets,
+  assetRef,
+  isAssetRef,
+  migrateInlineImages,
+  pruneAssets,
+  storeFile,
+  storeUpload,
+  useImageSrc,
+  type AssetVariant,
+  type StoredAsset,
+} from "./media/assetStore";
+import { restoreAssets, unpackAssets } from "./media/bundle";
+import { createExport, parseExport, type ExportSource } from "./exportFormat";
+import { describeFailures, migrateRecords, type MigrationFailure } from "./schema";
+import CsvImport from "./components/CsvImport";
+import ImportWizard from "./components/ImportWizard";
+import { entriesToCsv } from "./csv";
+import { diffSnapshots, FIELD_LABELS, recordEdit, referencedAssets, snapshot } from "./revisions";
+import { estimateStorage, formatBytes, STORAGE_WARN_RATIO, useStorageStatus } from "./media/storageQuota";
+import {
+  artistPath,
+  callPath,
+  cataloguePath,
+  collectionPath,
+  directoryPath,
+  duplicatesPath,
+  editLinkPath,
+  editPath,
+  Link,
+  navigate,
+  NO_FILTERS,
+  submitPath,
+  useRoute,
+  type DirectoryState,
+  type Route,
+} from "./router";
+import { buildIndex, highlightRuns, search, sortHits, SORT_LABELS, type SearchHit, type SortKey } from "./search";
+import { applyFacets, facetCounts, FACETS, hasFacets, locationFilter, type FacetKey, type FacetValue } from "./facets";
+import { placeLabel, PLACE_SUGGESTIONS, resolveLocation } from "./geo/places";
+import FacetFilters from "./components/FacetFilters";
+import MapView from "./components/MapView";
+import { LIMITS, validateFields, type FieldErrors } from "./validation";
+import { indexHandles, isAutoLabel, platformLabel, recogniseLink, sharedHandles, type HandleUse } from "./links";
+import PlatformIcon from "./components/PlatformIcon";
+import Lightbox from "./components/Lightbox";
+import { clearDraft, draftAssets, loadDraft, saveDraft } from "./drafts";
+import { useNearViewport } from "./media/lazyLoad";
+import { expiredTrash, isTrashed, purgeDate, TRASH_RETENTION_DAYS } from "./trash";
+import Toast from "./components/Toast";
+import { applyBatchEdit, describeBatchEdit, type BatchEdit } from "./batch";
+import BatchActions from "./components/BatchActions";
+import {
+  mergeCollections,
+  moveItem,
+  newCollection,
+  pruneCollections,
+  retargetItems,
+  toggleItem,
+  updateCollection,
+  type Collection,
+} from "./collections";
+import CollectionPicker from "./components/CollectionPicker";
+import Catalogue from "./components/Catalogue";
+import {
+  activeArtTypes,
+  artTypeUsage,
+  DEFAULT_ART_TYPES,
+  groupArtTypes,
+  mergeArtTypeLists,
+  retypeFields,
+  type ArtTypeMapping,
+  type ArtTypeTerm,
+} from "./taxonomy";
+import ArtTypeManager from "./components/ArtTypeManager";
+import { createAuthProvider, type User } from "./auth/provider";
+import { actorName, can, requiredRole, type Permission } from "./auth/permissions";
+import { guardRepository } from "./auth/guardedRepository";
+import AccountMenu from "./components/AccountMenu";
+import {
+  acceptsArtType,
+  answerFiles,
+  CALL_LIMITS,
+  callStatus,
+  cleanAnswers,
+  describeCallDates,
+  formatAnswer,
+  isCallFile,
+  mergeOpenCalls,
+  newOpenCall,
+  retypeOpenCalls,
+  updateOpenCall,
+  validateAnswers,
+  type CallField,
+  type OpenCall,
+} from "./openCalls";
+import OpenCallList from "./components/OpenCallList";
+import OpenCallEditor from "./components/OpenCallEditor";
+import { entryMonth, lacks, MISSING_LABELS, monthLabel, statsToCsv } from "./stats";
+import StatsDashboard from "./components/StatsDashboard";
+import { duplicatesOf, mergeFields, type MergeChoices } from "./duplicates";
+import DuplicateList from "./components/DuplicateList";
+import MergeEntries from "./components/MergeEntries";
+
+// Seeding and benchmarking tools; left out of production builds
+const DevTools = import.meta.env.DEV ? React.lazy(() => import("./components/DevTools")) : null;
 
 /**
  * Love Letter — Submissions & Directory (MVP)
@@ -8,159 +118,1235 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
  *  - Colour: headings in pink; body/UI mostly neutral to lower contrast
  *  - Art type: dropdown (now includes Graffiti + Street Art)
  *  - Location: typeahead via <datalist>
- *  - Seed data: auto-load sample entries if none in localStorage
+ *  - Seed data: auto-load sample entries if the store is empty
+ *  - Storage: pluggable repository (localStorage / IndexedDB / HTTP) chosen via Vite env
+ *  - Editing: entries can be edited in place; each save keeps a revertable revision
+ *  - Images: resized client-side, blobs kept in an IndexedDB asset store (entries hold `asset:` refs)
+ *  - Moderation: new submissions wait in the Review tab until a curator approves them
+ *  - Routing: views, filters and artist pages have shareable URLs (see router.tsx)
+ *  - Publishing: `npm run prerender` writes static pages that hydrate from a read-only `published` snapshot,
+ *    plus feeds that the embeddable widget (src/widget/) reads
+ *  - Roles: visitors browse and submit, artists edit their own entry via an edit link, curators and admins
+ *    run the rest (see auth/); every write records who made it
+ *  - Open calls: dated submission rounds with questions of their own; the answers stay with the entry
  */
 
-export default function App() {
-  const [activeTab, setActiveTab] = useState<"submit" | "directory">("directory");
-  const [entries, setEntries] = useState<ArtistEntry[]>([]);
+// Staff pages and the permission each needs; everything else is open (artist pages check per entry)
+const ROUTE_PERMISSION: Partial<Record<Route["name"], Permission>> = {
+  review: "review",
+  trash: "delete",
+  collections: "collect",
+  collection: "collect",
+  artTypes: "manageArtTypes",
+  calls: "manageCalls",
+  call: "manageCalls",
+  stats: "viewStats",
+  duplicates: "mergeDuplicates",
+};
+
+export default function App({ published, url }: { published?: StaticSnapshot; url?: string } = {}) {
+  const route = useRoute(url);
+  const auth = useMemo(() => createAuthProvider(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [userLoaded, setUserLoaded] = useState(Boolean(published));
+  // The guard asks for the user on every write, so it sees sign-ins without being rebuilt
+  const userRef = useRef(user);
+  userRef.current = user;
+  // `backend` is for housekeeping on load (seeding, migration, trash expiry); what the user does goes through `repo`
+  const backend = useMemo(() => {
+    if (published) return createStaticRepository(published);
+    try {
+      return createRepository();
+    } catch (e) {
+      // A misconfigured backend shows up as a load error rather than a blank page
+      return createFailedRepository(e);
+    }
+  }, [published]);
+  const repo = useMemo(() => guardRepository(backend, () => userRef.current), [backend]);
+  const readOnly = Boolean(repo.readOnly);
+  const actor = actorName(user);
+  // A snapshot is there from the first render, so prerendered markup matches what hydrates onto it
+  const [entries, setEntries] = useState<ArtistEntry[]>(published?.entries ?? []);
+  const [collections, setCollections] = useState<Collection[]>(published?.collections ?? []);
+  const [artTypes, setArtTypes] = useState<ArtTypeTerm[]>(DEFAULT_ART_TYPES);
+  const [openCalls, setOpenCalls] = useState<OpenCall[]>([]);
+  const [loading, setLoading] = useState(!published);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ text: string; fileName: string } | null>(null);
+  const [migrationFailures, setMigrationFailures] = useState<MigrationFailure[]>([]);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [editLink, setEditLink] = useState<{ name: string; path: string } | null>(null);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  useEffect(() => {
+    if (published) return;
+    auth
+      .currentUser()
+      .then(setUser)
+      .catch((e) => console.error("Failed to read the session", e))
+      .finally(() => setUserLoaded(true));
+  }, [auth, published]);
 
-  // Load & persist
+  // Edit links sign the artist in, then open their page
+  const claimToken = route.name === "claim" ? route.token : null;
   useEffect(() => {
-    const raw = localStorage.getItem("ll_submissions");
-    if (raw) {
-      try {
-        const parsed = JSON.parse(raw);
-        if (Array.isArray(parsed) && parsed.length) setEntries(parsed as ArtistEntry[]);
-        else setEntries(SAMPLE_ENTRIES);
-      } catch (e) {
-        console.error("Failed to parse saved entries", e);
-        setEntries(SAMPLE_ENTRIES);
+    if (claimToken === null) return;
+    auth
+      .redeemEditToken(claimToken)
+      .then(({ user: claimed, entryId }) => {
+        setUser(claimed);
+        navigate(artistPath(entryId), { replace: true });
+      })
+      .catch((e) => {
+        setError(errorMessage(e));
+        navigate(directoryPath(), { replace: true });
+      });
+  }, [auth, claimToken]);
+
+  // Load (seeding an empty browser store; one whose records all failed to migrate is not empty)
+  useEffect(() => {
+    if (published) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    backend
+      .list()
+      .then((list) =>
+        list.length || backend.migrationFailures.length || backend.shared ? list : backend.bulkImport(SAMPLE_ENTRIES)
+      )
+      .then(async (list) => {
+        const migrated = await migrateImages(list);
+        // Trash past its retention period goes for good; pruning then drops its images.
+        // A shared store's trash is the server's to expire: purging is for admins, not every visitor.
+        const expired = new Set(backend.shared ? [] : expiredTrash(migrated).map((e) => e.id));
+        for (const id of expired) await backend.delete(id);
+        const kept = migrated.filter((e) => !expired.has(e.id));
+        // Records that failed to migrate may still point at images, so nothing is pruned until they are dealt with
+        if (!backend.migrationFailures.length) await pruneAssets([...kept.flatMap(referencedAssets), ...draftAssets()]);
+        return [
+          kept,
+          await backend.listCollections(),
+          await backend.listArtTypes(),
+          await backend.listOpenCalls(),
+        ] as const;
+      })
+      .then(([list, savedCollections, savedArtTypes, savedCalls]) => {
+        if (cancelled) return;
+        setEntries(list);
+        setCollections(savedCollections);
+        setArtTypes(savedArtTypes.length ? savedArtTypes : DEFAULT_ART_TYPES);
+        setOpenCalls(savedCalls);
+        setMigrationFailures(backend.migrationFailures);
+      })
+      .catch((e) => {
+        console.error("Failed to load entries", e);
+        if (!cancelled) setError(`Could not load entries: ${errorMessage(e)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, published, reloadKey]);
+
+  const storage = useStorageStatus([entries]);
+
+  // Older versions (and old exports) stored uploads inline as base64; move them to the asset store
+  function migrateImages(list: ArtistEntry[]) {
+    return Promise.all(
+      list.map(async (e) => {
+        const images = await migrateInlineImages(e.images);
+        return images ? backend.update(e.id, { images }) : e;
+      })
+    );
+  }
+
+  // Run a repository write; on failure keep local state as-is and show the error
+  async function persist(op: () => Promise<void>): Promise<boolean> {
+    try {
+      await op();
+      setError(null);
+      return true;
+    } catch (e) {
+      console.error("Storage operation failed", e);
+      setError(`Could not save changes: ${errorMessage(e)}`);
+      return false;
+    }
+  }
+
+  function createEntry(entry: ArtistEntry) {
+    // The form checks too, but a call can close while someone is still typing
+    const call = entry.callId ? openCalls.find((c) => c.id === entry.callId) : undefined;
+    if (entry.callId && (!call || callStatus(call) !== "open")) {
+      setError(call ? `"${call.title}" is no longer taking submissions.` : "That open call no longer exists.");
+      return Promise.resolve(false);
+    }
+    return persist(async () => {
+      const saved = await repo.create(entry);
+      setEntries((prev) => [saved, ...prev]);
+      // Staff can edit it already; the submitter gets an edit link (a hosted provider would email it)
+      if (!can(user, "edit", saved.id)) {
+        setEditLink({ name: saved.name, path: editLinkPath(await auth.issueEditToken(saved.id, saved.name)) });
       }
-    } else {
-      setEntries(SAMPLE_ENTRIES);
+    });
+  }
+
+  async function signIn(name: string, role: "curator" | "admin") {
+    try {
+      setUser(await auth.signIn(name, role));
+      setError(null);
+      return true;
+    } catch (e) {
+      console.error("Sign-in failed", e);
+      setError(`Could not sign in: ${errorMessage(e)}`);
+      return false;
     }
-  }, []);
+  }
 
-  useEffect(() => {
-    localStorage.setItem("ll_submissions", JSON.stringify(entries));
-  }, [entries]);
+  function signOut() {
+    auth
+      .signOut()
+      .then(() => setUser(null))
+      .catch((e) => setError(`Could not sign out: ${errorMessage(e)}`));
+  }
+
+  // A fresh link replaces the artist's old one, e.g. when they lost it or it went to the wrong person
+  async function shareEditLink(entry: ArtistEntry) {
+    try {
+      const path = editLinkPath(await auth.issueEditToken(entry.id, entry.name));
+      await navigator.clipboard.writeText(new URL(path, window.location.origin).href);
+      setToast({ id: Date.now(), message: `Edit link for ${entry.name} copied; earlier links no longer work` });
+    } catch (e) {
+      console.error("Edit link failed", e);
+      setError(`Could not create an edit link: ${errorMessage(e)}`);
+    }
+  }
+
+  // Swap saved versions of some entries into state
+  function replaceEntries(saved: ArtistEntry[]) {
+    const byId = new Map(saved.map((e) => [e.id, e]));
+    setEntries((prev) => prev.map((e) => byId.get(e.id) ?? e));
+  }
+
+  // Move entries to the trash (a timestamp) or back out of it (null)
+  function setTrashed(ids: string[], deletedAt: string | null) {
+    return persist(async () => {
+      replaceEntries(await repo.updateMany(ids.map((id) => ({ id, patch: { deletedAt } }))));
+    });
+  }
+
+  // Deleting only trashes; the toast offers to take it straight back
+  async function deleteEntries(ids: string[]) {
+    const chosen = new Set(ids);
+    const targets = entries.filter((e) => chosen.has(e.id));
+    if (targets.length === 0) return false;
+    const ok = await setTrashed(ids, new Date().toISOString());
+    if (ok) {
+      const what = targets.length === 1 ? targets[0].name : `${targets.length} artists`;
+      setToast({ id: Date.now(), message: `${what} moved to the trash`, undo: () => setTrashed(ids, null) });
+    }
+    return ok;
+  }
+
+  // The same edit across many entries, each with its own revision; one Undo puts the whole batch back
+  async function batchEdit(ids: string[], edit: BatchEdit) {
+    const chosen = new Set(ids);
+    const changes = entries
+      .filter((e) => chosen.has(e.id))
+      .flatMap((e) => {
+        const patch = recordEdit(e, applyBatchEdit(snapshot(e), edit), { by: actor });
+        return patch ? [{ before: e, patch }] : [];
+      });
+    if (changes.length === 0) return true;
+    const ok = await persist(async () => {
+      replaceEntries(await repo.updateMany(changes.map(({ before, patch }) => ({ id: before.id, patch }))));
+    });
+    if (ok) {
+      const undo = () =>
+        persist(async () => {
+          replaceEntries(await repo.updateMany(changes.map(({ before }) => ({ id: before.id, patch: before }))));
+        });
+      setToast({ id: Date.now(), message: describeBatchEdit(edit, changes.length), undo });
+    }
+    return ok;
+  }
+
+  // Permanent: removes the entries and their stored images
+  function purgeEntries(ids: string[]) {
+    const purged = entries.filter((e) => ids.includes(e.id));
+    return persist(async () => {
+      for (const e of purged) await repo.delete(e.id);
+      setEntries((prev) => prev.filter((e) => !ids.includes(e.id)));
+      // A merged entry shares its images with the one it was merged into
+      const kept = new Set(entries.filter((e) => !ids.includes(e.id)).flatMap(referencedAssets));
+      await deleteAssets(purged.flatMap(referencedAssets).filter((ref) => !kept.has(ref)));
+    });
+  }
+
+  // The survivor takes the merged fields as an edit (with a revision) and the other entry goes to the trash;
+  // collections listing the other list the survivor instead. One Undo puts all three back.
+  async function mergeEntries(keep: ArtistEntry, other: ArtistEntry, choices: MergeChoices) {
+    const previousCollections = collections;
+    const retargeted = collections.some((c) => c.items.some((i) => i.entryId === other.id));
+    const patch = recordEdit(keep, mergeFields(keep, other, choices).fields, { by: actor });
+    const ok = await persist(async () => {
+      replaceEntries(
+        await repo.updateMany([
+          ...(patch ? [{ id: keep.id, patch }] : []),
+          { id: other.id, patch: { deletedAt: new Date().toISOString() } },
+        ])
+      );
+      if (retargeted) setCollections(await repo.saveCollections(retargetItems(collections, other.id, keep.id, actor)));
+    });
+    if (ok) {
+      const undo = () =>
+        persist(async () => {
+          replaceEntries(
+            await repo.updateMany([
+              { id: keep.id, patch: keep },
+              { id: other.id, patch: { deletedAt: null } },
+            ])
+          );
+          if (retargeted) setCollections(await repo.saveCollections(previousCollections));
+        });
+      setToast({ id: Date.now(), message: `${other.name} merged into ${keep.name} and moved to the trash`, undo });
+      navigate(artistPath(keep.id));
+    }
+    return ok;
+  }
+
+  // Save edited fields in place, keeping the replaced state as a revision
+  function updateFields(id: string, fields: EditableFields) {
+    const current = entries.find((e) => e.id === id);
+    if (!current) return Promise.resolve(false);
+    const patch = recordEdit(current, fields, { by: actor });
+    if (!patch) return Promise.resolve(true);
+    return persist(async () => {
+      const saved = await repo.update(id, patch);
+      setEntries((prev) => prev.map((e) => (e.id === id ? saved : e)));
+    });
+  }
+
+  async function saveEdit(entry: ArtistEntry) {
+    const ok = await updateFields(entry.id, snapshot(entry));
+    if (ok) navigate(artistPath(entry.id));
+    return ok;
+  }
+
+  function revertEntry(id: string, revisionId: string) {
+    const revision = entries.find((e) => e.id === id)?.revisions.find((r) => r.id === revisionId);
+    if (!revision) return;
+    updateFields(id, revision.before);
+  }
+
+  async function importEntries(
+    list: ArtistEntry[],
+    incomingCollections: Collection[] = [],
+    incomingArtTypes: ArtTypeTerm[] = [],
+    incomingOpenCalls: OpenCall[] = [],
+    incomingAssets: StoredAsset[] = []
+  ) {
+    const ok = await persist(async () => {
+      // Images from the file only overwrite local ones no entry kept from here (or the draft) still shows
+      const kept = new Set([...list.filter((e) => entries.includes(e)).flatMap(referencedAssets), ...draftAssets()]);
+      const wanted = new Set(list.flatMap(referencedAssets));
+      await restoreAssets(incomingAssets.filter((a) => wanted.has(assetRef(a.id))), (id) => !kept.has(assetRef(id)));
+      const saved = await migrateImages(await repo.bulkImport(list));
+      setEntries(saved);
+      if (incomingCollections.length) {
+        const ids = new Set(saved.map((e) => e.id));
+        setCollections(
+          await repo.saveCollections(pruneCollections(mergeCollections(collections, incomingCollections), ids))
+        );
+      }
+      const mergedArtTypes = mergeArtTypeLists(artTypes, incomingArtTypes);
+      if (mergedArtTypes.length > artTypes.length) setArtTypes(await repo.saveArtTypes(mergedArtTypes));
+      if (incomingOpenCalls.length)
+        setOpenCalls(await repo.saveOpenCalls(mergeOpenCalls(openCalls, incomingOpenCalls)));
+      await pruneAssets([...saved.flatMap(referencedAssets), ...draftAssets()]);
+    });
+    if (ok) setPendingImport(null);
+    return ok;
+  }
+
+  // Callers choose what goes in: the directory leaves trashed entries out.
+  // Collections come along, minus artists left out, except for partial exports.
+  async function exportEntries(list: ArtistEntry[], name = "artists", withCollections = true) {
+    const ids = new Set(list.map((e) => e.id));
+    try {
+      downloadJSON(
+        await createExport(
+          list,
+          repo.label,
+          withCollections ? pruneCollections(collections, ids) : [],
+          artTypes,
+          openCalls
+        ),
+        `loveletter-${name}-${new Date().toISOString().slice(0, 10)}.json`
+      );
+    } catch (e) {
+      console.error("Export failed", e);
+      setError(`Could not export: ${errorMessage(e)}`);
+    }
+  }
+
+  // Collections are saved whole; items for entries that no longer exist are dropped on the way
+  function saveCollections(next: Collection[]) {
+    const ids = new Set(entries.map((e) => e.id));
+    return persist(async () => {
+      setCollections(await repo.saveCollections(pruneCollections(next, ids)));
+    });
+  }
+
+  const changeCollection = (id: string, change: (c: Collection) => Partial<Collection>) =>
+    saveCollections(updateCollection(collections, id, change, actor));
+
+  // Open calls are saved whole as well. Deleting one leaves its entries and their answers alone.
+  function saveOpenCalls(next: OpenCall[]) {
+    return persist(async () => {
+      setOpenCalls(await repo.saveOpenCalls(next));
+    });
+  }
+
+  // Renames and merges rewrite every entry using an old name (trashed ones too), each with a revision,
+  // and the open calls limited to it. One Undo puts back the list, the entries and the calls.
+  async function saveArtTypes(next: ArtTypeTerm[], mapping?: ArtTypeMapping, message?: string) {
+    const previous = artTypes;
+    const previousCalls = openCalls;
+    const nextCalls = mapping ? retypeOpenCalls(openCalls, mapping, actor) : openCalls;
+    const retypedCalls = nextCalls.filter((c, i) => c !== openCalls[i]).length;
+    const changes = mapping
+      ? entries.flatMap((e) => {
+          const fields = retypeFields(snapshot(e), mapping);
+          const patch = fields && recordEdit(e, fields, { by: actor });
+          return patch ? [{ before: e, patch }] : [];
+        })
+      : [];
+    const ok = await persist(async () => {
+      if (changes.length) {
+        replaceEntries(await repo.updateMany(changes.map(({ before, patch }) => ({ id: before.id, patch }))));
+      }
+      if (retypedCalls) setOpenCalls(await repo.saveOpenCalls(nextCalls));
+      setArtTypes(await repo.saveArtTypes(next));
+    });
+    if (ok && message) {
+      const undo = () =>
+        persist(async () => {
+          if (changes.length) {
+            replaceEntries(await repo.updateMany(changes.map(({ before }) => ({ id: before.id, patch: before }))));
+          }
+          if (retypedCalls) setOpenCalls(await repo.saveOpenCalls(previousCalls));
+          setArtTypes(await repo.saveArtTypes(previous));
+        });
+      const updated = changes.length === 1 ? "1 artist" : `${changes.length} artists`;
+      const calls =
+        retypedCalls === 0 ? "" : retypedCalls === 1 ? " and 1 open call" : ` and ${retypedCalls} open calls`;
+      setToast({ id: Date.now(), message: `${message}; ${updated}${calls} updated`, undo });
+    }
+    return ok;
+  }
+
+  const collect: CollectActions = {
+    collections,
+    onToggle: (collectionId, entryId) => changeCollection(collectionId, (c) => toggleItem(c, entryId)),
+    onCreate: (name, entryId) => {
+      const created = newCollection(name, actor);
+      saveCollections([...collections, { ...created, items: [{ entryId, note: "" }] }]);
+    },
+  };
+
+  // Filters live in the query string so views can be shared and survive a refresh.
+  // A catalogue of the directory carries the same filters.
+  const filters: DirectoryState =
+    route.name === "directory"
+      ? route
+      : route.name === "catalogue"
+        ? route.filters
+        : { ...NO_FILTERS, view: "grid", sort: "relevance", page: 1 };
+  const { q } = filters;
+  // Typing replaces the history entry; picking a filter adds one so Back undoes it.
+  // Either one starts again from the first page.
+  const setQ = (v: string) => navigate(directoryPath({ ...filters, q: v, page: 1 }), { replace: true });
+  const setFilters = (patch: Partial<DirectoryState>) => navigate(directoryPath({ ...filters, page: 1, ...patch }));
+
+  // Trashed entries appear only in the trash; of the rest, only approved ones are public
+  const live = useMemo(() => entries.filter((e) => !isTrashed(e)), [entries]);
+  const trashed = useMemo(() => entries.filter(isTrashed), [entries]);
+  const approved = useMemo(() => live.filter((e) => e.status === "approved"), [live]);
+  const pendingCount = useMemo(() => live.filter((e) => e.status === "pending").length, [live]);
+
+  const locations = useMemo(() => uniq(approved.map((e) => e.location).filter(Boolean)), [approved]);
+  const knownTags = useMemo(() => uniq(live.flatMap((e) => e.tags)), [live]);
+  const handleIndex = useMemo(() => indexHandles(live), [live]);
+  const artTypesInUse = useMemo(() => artTypeUsage(entries), [entries]);
+  const callSubmissions = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const e of live) if (e.callId) counts.set(e.callId, (counts.get(e.callId) ?? 0) + 1);
+    return counts;
+  }, [live]);
+
+  const searchIndex = useMemo(() => buildIndex(approved), [approved]);
+
+  // Ranked by relevance while searching, by name otherwise; facets narrow the search results.
+  // With thousands of entries the search trails the input rather than blocking each keystroke.
+  const deferredQ = useDeferredValue(q);
+  const searched = useMemo(() => search(searchIndex, deferredQ), [searchIndex, deferredQ]);
+  // Keyed on the facet values alone, so paging or re-sorting does not recount
+  const facetKey = JSON.stringify([...FACETS.map((def) => filters[def.key]), filters.artMatch, filters.tagMatch]);
+  const facetFilters = useMemo(() => filters, [facetKey]);
+  // An open call, a month or a missing field (from the stats page) narrows the directory before the
+  // facets, so their counts are for that slice
+  const scoped = useMemo(
+    () =>
+      searched.filter(
+        ({ entry }) =>
+          (!filters.call || entry.callId === filters.call) &&
+          (!filters.added || entryMonth(entry) === filters.added) &&
+          (!filters.missing || lacks(entry, filters.missing))
+      ),
+    [searched, filters.call, filters.added, filters.missing]
+  );
+  const hits = useMemo(() => applyFacets(scoped, (h) => h.entry, facetFilters), [scoped, facetFilters]);
+  const counts = useMemo(() => facetCounts(scoped, (h) => h.entry, facetFilters), [scoped, facetFilters]);
+  const sorted = useMemo(() => sortHits(hits, filters.sort), [hits, filters.sort]);
+  const filtered = useMemo(() => sorted.map((h) => h.entry), [sorted]);
 
-  // Filters
-  const [q, setQ] = useState("");
-  const [filterArt, setFilterArt] = useState("all");
-  const [filterLocation, setFilterLocation] = useState("all");
+  // Submissions not yet approved are seen only by staff and their artist
+  const routeEntry =
+    route.name === "artist" || route.name === "edit"
+      ? live.find((e) => e.id === route.id && (e.status === "approved" || can(user, "edit", e.id)))
+      : undefined;
+  const routeCollectionId =
+    route.name === "collection" ? route.id : route.name === "catalogue" ? route.collection : undefined;
+  const routeCollection = routeCollectionId ? collections.find((c) => c.id === routeCollectionId) : undefined;
+  const routeCall = route.name === "call" ? openCalls.find((c) => c.id === route.id) : undefined;
+  const mergePair = useMemo(() => {
+    if (route.name !== "duplicates" || route.a === route.b) return undefined;
+    const [a, b] = [live.find((e) => e.id === route.a), live.find((e) => e.id === route.b)];
+    return a && b ? ([a, b] as const) : undefined;
+  }, [route, live]);
+  // A collection's catalogue is a staff page; the directory's is public
+  const routePermission =
+    route.name === "catalogue" ? (route.collection ? "collect" : undefined) : ROUTE_PERMISSION[route.name];
+  const noAccess =
+    routePermission && !can(user, routePermission)
+      ? `This page is for ${requiredRole(routePermission) === "admin" ? "admins" : "curators and admins"}.`
+      : route.name === "edit" && routeEntry && !can(user, "edit", routeEntry.id)
+        ? "Only curators and the artist, through their edit link, can edit this entry."
+        : null;
 
-  const artTypesDynamic = useMemo(() => uniq(entries.map((e) => e.artType).filter(Boolean)), [entries]);
-  const locations = useMemo(() => uniq(entries.map((e) => e.location).filter(Boolean)), [entries]);
+  useEffect(() => {
+    const titles: Partial<Record<Route["name"], string>> = {
+      submit: "Submit",
+      review: "Review",
+      trash: "Trash",
+      collections: "Collections",
+      artTypes: "Art types",
+      calls: "Open calls",
+      stats: "Stats",
+      duplicates: "Possible duplicates",
+    };
+    const page =
+      route.name === "artist" || route.name === "edit"
+        ? routeEntry?.name
+        : route.name === "collection"
+          ? routeCollection?.name
+          : route.name === "catalogue"
+            ? `${routeCollection?.name ?? "Directory"} catalogue`
+            : route.name === "call"
+              ? routeCall?.title
+              : titles[route.name];
+    document.title = page ? `${page} — Love Letter` : "Love Letter — Artists";
+  }, [route, routeEntry, routeCollection, routeCall]);
 
-  const filtered = useMemo(() => {
-    return entries
-      .filter((e) => (filterArt === "all" ? true : e.artType === filterArt))
-      .filter((e) => (filterLocation === "all" ? true : e.location === filterLocation))
-      .filter((e) => (q.trim() ? `${e.name} ${e.location} ${e.artType}`.toLowerCase().includes(q.toLowerCase()) : true))
-      .sort((a, b) => a.name.localeCompare(b.name));
-  }, [entries, filterArt, filterLocation, q]);
+  function review(id: string, action: ReviewAction, note: string) {
+    const current = entries.find((e) => e.id === id);
+    if (!current) return;
+    const at = new Date().toISOString();
+    return persist(async () => {
+      const saved = await repo.update(id, {
+        status: REVIEW_ACTION_STATUS[action],
+        reviewNote: note.trim(),
+        reviewedAt: at,
+        reviewLog: [...current.reviewLog, { action, note: note.trim(), at, by: actor }],
+      });
+      setEntries((prev) => prev.map((e) => (e.id === id ? saved : e)));
+    });
+  }
 
   return (
     <div className="min-h-screen bg-neutral-50 text-neutral-800 font-mono">
-      <header className="sticky top-0 z-10 bg-neutral-50/90 backdrop-blur border-b border-neutral-200">
+      <header className="sticky top-0 z-10 bg-neutral-50/90 backdrop-blur border-b border-neutral-200 print:hidden">
         <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
-          <h1 className="tracking-tight text-pink-600 font-bold">Love Letter — Artists</h1>
+          <h1 className="tracking-tight text-pink-600 font-bold">
+            <Link to={directoryPath()}>Love Letter — Artists</Link>
+          </h1>
           <nav className="flex items-center gap-2 text-sm">
-            <button
-              onClick={() => setActiveTab("submit")}
-              className={`px-3 py-1.5 rounded border ${activeTab === "submit" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
-            >
-              Submit
-            </button>
-            <button
-              onClick={() => setActiveTab("directory")}
-              className={`px-3 py-1.5 rounded border ${activeTab === "directory" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+            {!readOnly && (
+              <Link
+                to="/submit"
+                className={`px-3 py-1.5 rounded border ${route.name === "submit" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Submit
+              </Link>
+            )}
+            <Link
+              to={directoryPath()}
+              className={`px-3 py-1.5 rounded border ${route.name === "directory" || route.name === "artist" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
             >
               Directory
-            </button>
+            </Link>
+            {can(user, "review") && (
+              <Link
+                to="/review"
+                className={`px-3 py-1.5 rounded border ${route.name === "review" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Review{pendingCount > 0 ? ` (${pendingCount})` : ""}
+              </Link>
+            )}
+            {can(user, "delete") && (
+              <Link
+                to="/trash"
+                className={`px-3 py-1.5 rounded border ${route.name === "trash" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Trash{trashed.length > 0 ? ` (${trashed.length})` : ""}
+              </Link>
+            )}
+            {can(user, "collect") && (
+              <Link
+                to="/collections"
+                className={`px-3 py-1.5 rounded border ${route.name === "collections" || route.name === "collection" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Collections
+              </Link>
+            )}
+            {can(user, "manageArtTypes") && (
+              <Link
+                to="/art-types"
+                className={`px-3 py-1.5 rounded border ${route.name === "artTypes" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Art types
+              </Link>
+            )}
+            {can(user, "mergeDuplicates") && (
+              <Link
+                to={duplicatesPath()}
+                className={`px-3 py-1.5 rounded border ${route.name === "duplicates" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Duplicates
+              </Link>
+            )}
+            {can(user, "viewStats") && (
+              <Link
+                to="/stats"
+                className={`px-3 py-1.5 rounded border ${route.name === "stats" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Stats
+              </Link>
+            )}
+            {can(user, "manageCalls") && (
+              <Link
+                to="/calls"
+                className={`px-3 py-1.5 rounded border ${route.name === "calls" || route.name === "call" ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+              >
+                Open calls
+              </Link>
+            )}
+            {!readOnly && (
+              <AccountMenu
+                user={user}
+                providerLabel={auth.label}
+                entryName={(id) => live.find((e) => e.id === id)?.name}
+                onSignIn={signIn}
+                onSignOut={signOut}
+              />
+            )}
           </nav>
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-4 py-8">
-        {activeTab === "submit" ? (
+        {editLink && <EditLinkNotice {...editLink} onDismiss={() => setEditLink(null)} />}
+        {error && (
+          <div className="mb-6 flex items-center justify-between gap-3 rounded border border-pink-300 bg-pink-50 px-4 py-3 text-sm text-pink-700">
+            <span>{error}</span>
+            <div className="flex gap-3">
+              <button onClick={() => setReloadKey((k) => k + 1)} className="underline">
+                Retry
+              </button>
+              <button onClick={() => setError(null)} className="underline">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+        {migrationFailures.length > 0 && (
+          <div className="mb-6 rounded border border-pink-300 bg-pink-50 px-4 py-3 text-sm text-pink-700">
+            <div className="flex items-center justify-between gap-3">
+              <span>
+                {migrationFailures.length} saved record(s) could not be upgraded to the current format and are hidden.
+              </span>
+              <button onClick={() => setMigrationFailures([])} className="underline">
+                Dismiss
+              </button>
+            </div>
+            <ul className="mt-2 list-disc list-inside text-xs">
+              {describeFailures(migrationFailures).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+            <button
+              onClick={() =>
+                downloadJSON(
+                  migrationFailures.map((f) => f.record),
+                  "loveletter-unmigrated.json"
+                )
+              }
+              className="mt-2 text-xs underline"
+            >
+              Download the original records
+            </button>
+          </div>
+        )}
+        {!readOnly && storage && storage.ratio >= STORAGE_WARN_RATIO && (
+          <div className="mb-6 rounded border border-neutral-300 bg-neutral-100 px-4 py-3 text-sm text-neutral-700">
+            Storage is {Math.round(storage.ratio * 100)}% full ({formatBytes(storage.usage)} of{" "}
+            {formatBytes(storage.quota)}
+            {storage.source === "localStorage" ? " localStorage" : ""}). Export a backup and remove unused entries
+            before adding more images.
+          </div>
+        )}
+        {loading || !userLoaded || route.name === "claim" ? (
+          <div className="text-center text-neutral-400 py-10">Loading…</div>
+        ) : readOnly && !["directory", "artist", "catalogue"].includes(route.name) ? (
+          <NotFound what="This page" />
+        ) : noAccess ? (
+          <NoAccess message={noAccess} />
+        ) : pendingCsv ? (
+          <CsvImport
+            text={pendingCsv.text}
+            fileName={pendingCsv.fileName}
+            onCancel={() => setPendingCsv(null)}
+            onContinue={(records) => {
+              // Spreadsheet rows carry no version; treat them like the original (version 0) shape
+              const report = migrateRecords(records, 0);
+              setPendingCsv(null);
+              setPendingImport({
+                list: report.entries,
+                fileName: pendingCsv.fileName,
+                fromVersion: 0,
+                failures: report.failures,
+                collections: [],
+                artTypes: [],
+                openCalls: [],
+                assets: [],
+              });
+            }}
+          />
+        ) : pendingImport ? (
+          <ImportWizard
+            local={entries}
+            incoming={pendingImport.list}
+            fileName={pendingImport.fileName}
+            fromVersion={pendingImport.fromVersion}
+            source={pendingImport.source}
+            failures={pendingImport.failures}
+            onCommit={(list) =>
+              importEntries(
+                list,
+                pendingImport.collections,
+                pendingImport.artTypes,
+                pendingImport.openCalls,
+                pendingImport.assets
+              )
+            }
+            onCancel={() => setPendingImport(null)}
+          />
+        ) : route.name === "edit" ? (
+          routeEntry ? (
+            <SubmissionForm
+              key={routeEntry.id}
+              initial={routeEntry}
+              onSubmit={saveEdit}
+              onCancel={() => navigate(artistPath(routeEntry.id))}
+              knownLocations={[...PLACE_SUGGESTIONS, ...locations]}
+              knownTags={knownTags}
+              artTypes={artTypes}
+              handleIndex={handleIndex}
+            />
+          ) : (
+            <NotFound what="This artist" />
+          )
+        ) : route.name === "artist" ? (
+          routeEntry ? (
+            <ArtistPage
+              entry={routeEntry}
+              call={openCalls.find((c) => c.id === routeEntry.callId)}
+              editable={can(user, "edit", routeEntry.id)}
+              collect={can(user, "collect") ? collect : undefined}
+              onDelete={
+                can(user, "delete")
+                  ? async (id) => {
+                      if (await deleteEntries([id])) navigate(directoryPath(), { replace: true });
+                    }
+                  : undefined
+              }
+              onRevert={can(user, "edit", routeEntry.id) ? revertEntry : undefined}
+              onShareEditLink={can(user, "shareEditLink") ? () => shareEditLink(routeEntry) : undefined}
+            />
+          ) : (
+            <NotFound what="This artist" />
+          )
+        ) : route.name === "notFound" ? (
+          <NotFound what="This page" />
+        ) : route.name === "submit" ? (
           <SubmissionForm
-            onSubmit={(entry) => setEntries((prev) => [entry, ...prev])}
-            knownLocations={[
-              "Melbourne, Australia",
-              "Sydney, Australia",
-              "Brisbane, Australia",
-              "Perth, Australia",
-              "Adelaide, Australia",
-              "Auckland, New Zealand",
-              "Wellington, New Zealand",
-              "London, UK",
-              "Berlin, Germany",
-              "Lisbon, Portugal",
-              "Paris, France",
-              "New York, USA",
-              "Los Angeles, USA",
-              ...locations,
-            ]}
+            onSubmit={createEntry}
+            knownLocations={[...PLACE_SUGGESTIONS, ...locations]}
+            knownTags={knownTags}
+            artTypes={artTypes}
+            handleIndex={handleIndex}
+            calls={openCalls}
+            callId={route.call}
+            // Visitors are only told about artists already public
+            existing={can(user, "review") ? live : approved}
+          />
+        ) : route.name === "review" ? (
+          <ReviewQueue entries={live} calls={openCalls} handleIndex={handleIndex} onReview={review} />
+        ) : route.name === "collections" ? (
+          <CollectionsIndex
+            collections={collections}
+            onCreate={(name) => {
+              const created = newCollection(name, actor);
+              saveCollections([...collections, created]).then((ok) => ok && navigate(collectionPath(created.id)));
+            }}
+            onDelete={(id) => saveCollections(collections.filter((c) => c.id !== id))}
+          />
+        ) : route.name === "collection" ? (
+          routeCollection ? (
+            <CollectionView
+              key={routeCollection.id}
+              collection={routeCollection}
+              entries={entries}
+              onChange={(change) => changeCollection(routeCollection.id, change)}
+            />
+          ) : (
+            <NotFound what="This collection" />
+          )
+        ) : route.name === "catalogue" ? (
+          route.collection ? (
+            routeCollection ? (
+              <Catalogue
+                title={routeCollection.name}
+                items={routeCollection.items.flatMap(({ entryId, note }) => {
+                  const entry = live.find((e) => e.id === entryId);
+                  return entry ? [{ entry, note }] : [];
+                })}
+                backTo={collectionPath(routeCollection.id)}
+              />
+            ) : (
+              <NotFound what="This collection" />
+            )
+          ) : (
+            <Catalogue
+              title="Love Letter — Artists"
+              subtitle={describeFilters(filters, openCalls)}
+              items={filtered.map((entry) => ({ entry }))}
+              backTo={directoryPath(filters)}
+            />
+          )
+        ) : route.name === "calls" ? (
+          <OpenCallList
+            calls={openCalls}
+            submissions={callSubmissions}
+            onCreate={(title) => {
+              const created = newOpenCall(title, actor);
+              saveOpenCalls([...openCalls, created]).then((ok) => ok && navigate(callPath(created.id)));
+            }}
+          />
+        ) : route.name === "call" ? (
+          routeCall ? (
+            <OpenCallEditor
+              key={`${routeCall.id}:${routeCall.updatedAt}`}
+              call={routeCall}
+              artTypes={activeArtTypes(artTypes)}
+              submissions={callSubmissions.get(routeCall.id) ?? 0}
+              onSave={(next) => saveOpenCalls(updateOpenCall(openCalls, routeCall.id, next, actor))}
+              onDelete={() =>
+                saveOpenCalls(openCalls.filter((c) => c.id !== routeCall.id)).then(
+                  (ok) => ok && navigate("/calls", { replace: true })
+                )
+              }
+            />
+          ) : (
+            <NotFound what="This open call" />
+          )
+        ) : route.name === "stats" ? (
+          <StatsDashboard
+            entries={approved}
+            onExportCsv={
+              can(user, "export")
+                ? (stats) =>
+                    downloadFile(
+                      statsToCsv(stats),
+                      `loveletter-stats-${new Date().toISOString().slice(0, 10)}.csv`,
+                      "text/csv;charset=utf-8"
+                    )
+                : undefined
+            }
+          />
+        ) : route.name === "duplicates" ? (
+          route.a || route.b ? (
+            mergePair ? (
+              <MergeEntries
+                key={`${mergePair[0].id}:${mergePair[1].id}`}
+                a={mergePair[0]}
+                b={mergePair[1]}
+                onMerge={mergeEntries}
+              />
+            ) : (
+              <NotFound what="This pair of artists" />
+            )
+          ) : (
+            <DuplicateList entries={live} />
+          )
+        ) : route.name === "artTypes" ? (
+          <ArtTypeManager terms={artTypes} usage={artTypesInUse} onSave={saveArtTypes} />
+        ) : route.name === "trash" ? (
+          <Trash
+            entries={trashed}
+            onRestore={(id) => setTrashed([id], null)}
+            onPurge={can(user, "purge") ? purgeEntries : undefined}
+            onExport={() => exportEntries(entries)}
           />
         ) : (
           <Directory
-            entries={filtered}
-            q={q}
+            user={user}
+            readOnly={readOnly}
+            hits={sorted}
+            total={approved.length}
+            calls={openCalls}
+            filters={filters}
+            counts={counts}
             setQ={setQ}
-            artTypes={["all", ...artTypesDynamic]}
-            filterArt={filterArt}
-            setFilterArt={setFilterArt}
-            locations={["all", ...locations]}
-            filterLocation={filterLocation}
-            setFilterLocation={setFilterLocation}
-            onDelete={(id) => setEntries((prev) => prev.filter((e) => e.id !== id))}
-            onImport={(list) => setEntries(list)}
-            onExport={() => downloadJSON(entries, `loveletter-artists-${new Date().toISOString().slice(0, 10)}.json`)}
+            setFilters={setFilters}
+            onDelete={(id) => deleteEntries([id])}
+            onEdit={(id) => {
+              navigate(editPath(id));
+              window.scrollTo({ top: 0, behavior: "smooth" });
+            }}
+            onRevert={revertEntry}
+            onImport={setPendingImport}
+            onImportCsv={(text, fileName) => setPendingCsv({ text, fileName })}
+            onExportCsv={() => exportCsv(filtered, "directory")}
+            onExport={() => exportEntries(live)}
+            knownLocations={[...PLACE_SUGGESTIONS, ...locations]}
+            knownTags={knownTags}
+            artTypes={activeArtTypes(artTypes)}
+            onBatchEdit={batchEdit}
+            onBatchDelete={deleteEntries}
+            collect={collect}
+            onExportSelection={(ids, format) => {
+              const chosen = new Set(ids);
+              const selected = live.filter((e) => chosen.has(e.id));
+              if (format === "csv") exportCsv(selected, "selection");
+              else exportEntries(selected, "selection", false);
+            }}
           />
         )}
       </main>
 
-      <footer className="max-w-6xl mx-auto px-4 py-10 text-sm text-neutral-500">
-        <p>Demo stores data locally. Migrate later to Firebase/Supabase for multi-user submissions.</p>
+      {toast && (
+        <Toast
+          key={toast.id}
+          message={toast.message}
+          actionLabel={toast.undo && "Undo"}
+          onAction={toast.undo}
+          onDismiss={dismissToast}
+        />
+      )}
+
+      <footer className="max-w-6xl mx-auto px-4 py-10 text-sm text-neutral-500 space-y-4 print:hidden">
+        {published ? (
+          <p>Published {published.generatedAt.slice(0, 10)}.</p>
+        ) : (
+          <p>Data is stored in {repo.label}. Set VITE_STORAGE_BACKEND to switch backends.</p>
+        )}
+        {DevTools && can(user, "import") && (
+          <Suspense fallback={null}>
+            <DevTools entries={entries} storageLabel={repo.label} onImport={importEntries} />
+          </Suspense>
+        )}
       </footer>
     </div>
   );
 }
 
 /** Types **/
-export type ArtistEntry = {
-  id: string;
-  name: string;
-  artType: string;
-  location: string;
-  bio: string;
-  images: string[]; // data URLs
-  links: { label: string; url: string }[];
-  createdAt: string; // ISO
+type PendingImport = {
+  list: ArtistEntry[];
+  fileName: string;
+  fromVersion: number;
+  source?: ExportSource;
+  failures: MigrationFailure[]; // records left out of `list`
+  collections: Collection[]; // from the file, merged in on commit
+  artTypes: ArtTypeTerm[]; // likewise
+  openCalls: OpenCall[]; // likewise
+  assets: StoredAsset[]; // likewise, decoded but not stored yet
+};
+
+type CollectActions = {
+  collections: Collection[];
+  onToggle: (collectionId: string, entryId: string) => void;
+  onCreate: (name: string, entryId: string) => void;
 };
 
 type LinkField = { label: string; url: string };
 
+type ToastState = { id: number; message: string; undo?: () => void };
+
 /** Submission Form **/
-function SubmissionForm({ onSubmit, knownLocations }: { onSubmit: (e: ArtistEntry) => void; knownLocations: string[] }) {
-  const [name, setName] = useState("");
-  const [artType, setArtType] = useState("");
-  const [location, setLocation] = useState("");
-  const [bio, setBio] = useState("");
-  const [links, setLinks] = useState<LinkField[]>([{ label: "Instagram", url: "" }]);
-  const [images, setImages] = useState<string[]>([]);
+function SubmissionForm({
+  initial,
+  onSubmit,
+  onCancel,
+  knownLocations,
+  knownTags,
+  artTypes,
+  handleIndex,
+  calls = [],
+  callId = "",
+  existing = [],
+}: {
+  initial?: ArtistEntry; // edit mode when set
+  onSubmit: (e: ArtistEntry) => Promise<boolean>;
+  onCancel?: () => void;
+  knownLocations: string[];
+  knownTags: string[];
+  artTypes: ArtTypeTerm[];
+  handleIndex: Map<string, HandleUse[]>;
+  // New submissions only; an edit keeps the entry's call and answers as they are
+  calls?: OpenCall[];
+  callId?: string; // from the address; "" for a general submission
+  existing?: ArtistEntry[]; // checked for likely duplicates of a new submission
+}) {
+  // New submissions pick up where the last unsent one stopped; edits start from the entry
+  const [draft] = useState(() => (initial ? null : loadDraft()));
+  const call = callId ? calls.find((c) => c.id === callId) : undefined;
+  const closed = Boolean(callId) && (!call || callStatus(call) !== "open");
+  const openCalls = useMemo(() => calls.filter((c) => callStatus(c) === "open"), [calls]);
+  const [answers, setAnswers] = useState<Record<string, CallAnswer>>(draft?.answers ?? {});
+  const [restoredAt, setRestoredAt] = useState(draft?.savedAt);
+  const [name, setName] = useState(initial?.name ?? draft?.name ?? "");
+  const [artType, setArtType] = useState(initial?.artType ?? draft?.artType ?? "");
+  const offeredTypes = useMemo(() => activeArtTypes(artTypes), [artTypes]);
+  // A call for some types only offers those
+  const typeGroups = useMemo(
+    () =>
+      groupArtTypes(artTypes)
+        .map((g) => ({ ...g, names: call ? g.names.filter((n) => acceptsArtType(call, n)) : g.names }))
+        .filter((g) => g.names.length),
+    [artTypes, call]
+  );
+  const [disciplines, setDisciplines] = useState<string[]>(initial?.disciplines ?? draft?.disciplines ?? []);
+  const [tags, setTags] = useState<string[]>(initial?.tags ?? draft?.tags ?? []);
+  const [tagInput, setTagInput] = useState(draft?.tagInput ?? "");
+  const [location, setLocation] = useState(initial?.location ?? draft?.location ?? "");
+  const place = useMemo(() => resolveLocation(location), [location]);
+  const [bio, setBio] = useState(initial?.bio ?? draft?.bio ?? "");
+  const [links, setLinks] = useState<LinkField[]>(
+    initial?.links.length
+      ? initial.links.map((l) => ({ ...l }))
+      : draft?.links.length
+        ? draft.links
+        : [{ label: "Instagram", url: "" }]
+  );
+  const [images, setImages] = useState<ArtworkImage[]>((initial?.images ?? draft?.images ?? []).map((i) => ({ ...i })));
+  // Uploads made in this form; only these can be deleted outright; older images belong to revisions
+  const uploadedRef = useRef(new Set<string>(draft ? [...draft.images.map((i) => i.src), ...answerFiles(draft)] : []));
+  const dragFrom = useRef<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [imageNote, setImageNote] = useState("");
   const [saving, setSaving] = useState(false);
+  // Errors show once a field has been left, or for every field after a submit attempt
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+  const [attempted, setAttempted] = useState(false);
+
+  const pendingTags = normalizeTags([...tags, ...tagInput.split(",")]);
+  const errors: FieldErrors = {
+    ...validateFields({
+      name: name.trim(),
+      artType: artType.trim(),
+      disciplines,
+      tags: pendingTags,
+      location: location.trim(),
+      place,
+      bio: bio.trim(),
+      images,
+      links,
+    }),
+    ...(call && validateAnswers(call, answers)),
+  };
+  if (call && artType.trim() && !errors.artType && !acceptsArtType(call, artType.trim())) {
+    errors.artType = `This call is for ${call.artTypes.join(", ")}.`;
+  }
+  const errorFor = (key: string) => (attempted || touched.has(key) ? errors[key] : undefined);
+  const touch = (key: string) => () => setTouched((prev) => new Set(prev).add(key));
+  // Someone already listed, most often the same artist submitting again
+  const duplicates = useMemo(
+    () => (initial ? [] : duplicatesOf({ name, location, place, links }, existing).slice(0, 3)),
+    [initial, name, location, place, links, existing]
+  );
+
+  // A draft started for a call goes back to it
+  useEffect(() => {
+    if (draft?.callId && !callId) navigate(submitPath(draft.callId), { replace: true });
+  }, []);
+
+  useEffect(() => {
+    if (initial) return;
+    saveDraft({
+      name,
+      artType,
+      disciplines,
+      tags,
+      tagInput,
+      location,
+      bio,
+      links,
+      images,
+      callId,
+      answers,
+      savedAt: new Date().toISOString(),
+    });
+  }, [initial, name, artType, disciplines, tags, tagInput, location, bio, links, images, callId, answers]);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   async function handleFiles(files: FileList | null) {
     if (!files || files.length === 0) return;
-    const arr = Array.from(files);
-    const dataUrls = await Promise.all(arr.map(fileToDataURL));
-    setImages((prev) => [...prev, ...dataUrls]);
+    const room = LIMITS.images - images.length;
+    const arr = Array.from(files).slice(0, Math.max(room, 0));
+    setImageNote(
+      arr.length < files.length
+        ? `Up to ${LIMITS.images} images per artist; ${files.length - arr.length} not added.`
+        : ""
+    );
+    if (arr.length === 0) {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
+    const storage = await estimateStorage().catch(() => null);
+    if (
+      storage &&
+      storage.ratio >= STORAGE_WARN_RATIO &&
+      !confirm(`Storage is ${Math.round(storage.ratio * 100)}% full. Add ${arr.length} image(s) anyway?`)
+    ) {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
+    setUploading(true);
+    try {
+      // One at a time keeps memory flat when several phone photos are decoded
+      for (const file of arr) {
+        const ref = await storeUpload(file);
+        uploadedRef.current.add(ref);
+        setImages((prev) => [...prev, { src: ref, caption: "", alt: "" }]);
+      }
+    } catch (e) {
+      console.error("Image upload failed", e);
+      alert(`Could not add image: ${errorMessage(e)}`);
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
   }
 
   function removeImage(idx: number) {
+    const ref = images[idx].src;
     setImages((prev) => prev.filter((_, i) => i !== idx));
+    setImageNote("");
+    if (!uploadedRef.current.delete(ref)) return;
+    deleteAssets([ref]).catch((e) => console.error("Failed to delete image", e));
+  }
+
+  function setAnswer(fieldId: string, answer: CallAnswer | undefined) {
+    setAnswers((prev) => {
+      const next = { ...prev };
+      if (answer === undefined) delete next[fieldId];
+      else next[fieldId] = answer;
+      return next;
+    });
+  }
+
+  // Attachments are stored as they are, like images but without resizing
+  async function attachFile(fieldId: string, file: File | undefined) {
+    if (!file) return;
+    if (file.size > CALL_LIMITS.fileBytes) {
+      alert(`${file.name} is too large; the limit is ${formatBytes(CALL_LIMITS.fileBytes)}.`);
+      return;
+    }
+    try {
+      const src = await storeFile(file);
+      uploadedRef.current.add(src);
+      detachFile(fieldId);
+      setAnswer(fieldId, { name: file.name, type: file.type, size: file.size, src });
+    } catch (e) {
+      console.error("Attachment failed", e);
+      alert(`Could not attach file: ${errorMessage(e)}`);
+    }
+  }
+
+  function detachFile(fieldId: string) {
+    const previous = answers[fieldId];
+    setAnswer(fieldId, undefined);
+    if (!isCallFile(previous) || !uploadedRef.current.delete(previous.src)) return;
+    deleteAssets([previous.src]).catch((e) => console.error("Failed to delete attachment", e));
+  }
+
+  function updateImage(idx: number, patch: Partial<ArtworkImage>) {
+    setImages((prev) => prev.map((img, i) => (i === idx ? { ...img, ...patch } : img)));
+  }
+
+  // Reorder; moving to 0 makes an image the cover
+  function moveImage(from: number, to: number) {
+    if (from === to || to < 0 || to >= images.length) return;
+    setImages((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }
+
+  function toggleDiscipline(value: string) {
+    setDisciplines((prev) => (prev.includes(value) ? prev.filter((d) => d !== value) : [...prev, value]));
+  }
+
+  // Commas separate tags, so pasting "murals, posters" adds both
+  function addTags(raw: string) {
+    setTags((prev) => normalizeTags([...prev, ...raw.split(",")]));
+    setTagInput("");
   }
 
   function updateLink(idx: number, patch: Partial<LinkField>) {
     setLinks((prev) => prev.map((l, i) => (i === idx ? { ...l, ...patch } : l)));
   }
 
+  // A label the artist has not typed follows the platform of the address
+  function updateLinkUrl(idx: number, url: string) {
+    setLinks((prev) =>
+      prev.map((l, i) => {
+        if (i !== idx) return l;
+        const link = isAutoLabel(l.label) ? recogniseLink(url, l.label) : undefined;
+        return { label: link ? platformLabel(link.platform) : l.label, url };
+      })
+    );
+  }
+
   function addLink() {
     setLinks((prev) => [...prev, { label: "Website", url: "" }]);
   }
@@ -171,74 +1357,213 @@ function SubmissionForm({ onSubmit, knownLocations }: { onSubmit: (e: ArtistEntr
 
   async function submit(e: React.FormEvent) {
     e.preventDefault();
-    if (!name.trim() || !artType.trim() || !location.trim()) {
-      alert("Please fill name, art type and location.");
+    setAttempted(true);
+    const invalid = Object.keys(errors);
+    if (invalid.length) {
+      document.getElementById(`ll-field-${invalid[0]}`)?.focus();
+      return;
+    }
+    if (
+      duplicates.length &&
+      !confirm(`${duplicates[0].entry.name} is already listed and looks like the same artist. Submit anyway?`)
+    ) {
       return;
     }
     setSaving(true);
-    const entry: ArtistEntry = {
-      id: crypto.randomUUID(),
+    const fields: EditableFields = {
       name: name.trim(),
       artType: artType.trim(),
+      disciplines: disciplines.filter((d) => d !== artType),
+      tags: pendingTags,
       location: location.trim(),
+      place,
       bio: bio.trim(),
-      images,
-      links: links.filter((l) => l.url.trim()),
-      createdAt: new Date().toISOString(),
+      images: images.map((img) => ({ src: img.src, caption: img.caption.trim(), alt: img.alt.trim() })),
+      links: links
+        .filter((l) => l.url.trim())
+        .map((l) => ({ label: l.label.trim(), url: recogniseLink(l.url, l.label)?.url ?? l.url.trim() })),
     };
-    onSubmit(entry);
+    const entry: ArtistEntry = initial
+      ? { ...initial, ...fields }
+      : {
+          id: crypto.randomUUID(),
+          ...fields,
+          ...(call && { callId: call.id, answers: cleanAnswers(call, answers) }),
+          createdAt: new Date().toISOString(),
+          revisions: [],
+          status: "pending",
+          reviewNote: "",
+          reviewLog: [],
+        };
+    const ok = await onSubmit(entry);
     setSaving(false);
-    // Reset
+    if (!ok) return;
+    uploadedRef.current.clear();
+    if (initial) return;
+    clearDraft();
+    reset();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  function reset() {
     setName("");
     setArtType("");
+    setDisciplines([]);
+    setTags([]);
+    setTagInput("");
     setLocation("");
     setBio("");
     setLinks([{ label: "Instagram", url: "" }]);
     setImages([]);
+    setImageNote("");
+    setAnswers({});
+    setTouched(new Set());
+    setAttempted(false);
+    setRestoredAt(undefined);
     if (fileInputRef.current) fileInputRef.current.value = "";
-    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  function discardDraft() {
+    if (!confirm("Discard this draft? Everything typed and uploaded here will be removed.")) return;
+    deleteAssets(Array.from(uploadedRef.current)).catch((e) => console.error("Failed to delete images", e));
+    uploadedRef.current.clear();
+    clearDraft();
+    reset();
+  }
+
+  function cancel() {
+    // Drop images uploaded during this edit; they were never saved
+    deleteAssets(Array.from(uploadedRef.current)).catch((e) => console.error("Failed to delete images", e));
+    onCancel?.();
+  }
+
+  if (closed) {
+    return (
+      <section className="max-w-2xl space-y-4">
+        <h2 className="text-lg text-pink-600">{call?.title ?? "Open call"}</h2>
+        <div className="space-y-2 rounded border border-neutral-300 bg-neutral-100 px-4 py-3 text-sm text-neutral-700">
+          <p>
+            {call
+              ? `${describeCallDates(call)}; this call is not taking submissions${callStatus(call) === "upcoming" ? " yet" : ""}.`
+              : "This open call does not exist, or has been removed."}
+          </p>
+          <Link to={submitPath()} className="underline">
+            Submit to the directory instead
+          </Link>
+        </div>
+      </section>
+    );
   }
 
   return (
     <section className="grid md:grid-cols-5 gap-8">
       <div className="md:col-span-3">
-        <h2 className="text-lg mb-2 text-pink-600">Submit your work</h2>
+        <h2 className="text-lg mb-2 text-pink-600">
+          {initial ? `Edit ${initial.name}` : call ? call.title : "Submit your work"}
+        </h2>
+        {!initial && openCalls.length > 0 && (
+          <label className="mb-4 block text-sm">
+            Submitting to{" "}
+            <select
+              value={callId}
+              onChange={(e) => navigate(submitPath(e.target.value), { replace: true })}
+              className="rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+            >
+              <option value="">The directory (no open call)</option>
+              {openCalls.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.title} — {describeCallDates(c)}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {call?.brief && <p className="mb-4 text-sm whitespace-pre-wrap">{call.brief}</p>}
         <p className="text-sm text-neutral-600 mb-6">Required fields: Name, Art type, Location.</p>
-        <form onSubmit={submit} className="space-y-5">
+        {restoredAt && (
+          <div className="mb-6 flex items-center justify-between gap-3 rounded border border-neutral-300 px-4 py-3 text-sm">
+            <span>Restored your unsent draft from {new Date(restoredAt).toLocaleString()}.</span>
+            <button type="button" onClick={discardDraft} className="underline">
+              Discard draft
+            </button>
+          </div>
+        )}
+        <form onSubmit={submit} noValidate className="space-y-5">
           <div>
-            <label className="block text-sm">Name</label>
+            <label htmlFor="ll-field-name" className="block text-sm">
+              Name
+            </label>
             <input
+              id="ll-field-name"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400"
+              onBlur={touch("name")}
+              aria-invalid={!!errorFor("name")}
+              className={`mt-1 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400 ${invalidBorder(errorFor("name"))}`}
               placeholder="Name"
             />
+            <FieldError message={errorFor("name")} />
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm">Type of art</label>
+              <label htmlFor="ll-field-artType" className="block text-sm">
+                Type of art
+              </label>
               <select
+                id="ll-field-artType"
                 value={artType}
                 onChange={(e) => setArtType(e.target.value)}
-                className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50"
+                onBlur={touch("artType")}
+                aria-invalid={!!errorFor("artType")}
+                className={`mt-1 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 ${invalidBorder(errorFor("artType"))}`}
               >
                 <option value="">Select an option</option>
-                {ART_TYPE_OPTIONS.map((opt) => (
-                  <option key={opt} value={opt}>
-                    {opt}
-                  </option>
-                ))}
+                {/* An entry being edited keeps a retired or unlisted type; one the call does not take is flagged */}
+                {artType && !typeGroups.some((g) => g.names.includes(artType)) && (
+                  <option value={artType}>{artType}</option>
+                )}
+                {typeGroups.map(({ category, names }) =>
+                  category ? (
+                    <optgroup key={category} label={category}>
+                      {names.map((opt) => (
+                        <option key={opt} value={opt}>
+                          {opt}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ) : (
+                    names.map((opt) => (
+                      <option key={opt} value={opt}>
+                        {opt}
+                      </option>
+                    ))
+                  )
+                )}
               </select>
+              <FieldError message={errorFor("artType")} />
             </div>
             <div>
-              <label className="block text-sm">Where you're from (City, Country)</label>
+              <label htmlFor="ll-field-location" className="block text-sm">
+                Where you're from (City, Country)
+              </label>
               <input
+                id="ll-field-location"
                 list="ll-locations"
                 value={location}
                 onChange={(e) => setLocation(e.target.value)}
-                className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400"
+                onBlur={touch("location")}
+                aria-invalid={!!errorFor("location")}
+                className={`mt-1 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400 ${invalidBorder(errorFor("location"))}`}
                 placeholder="City, Country"
               />
+              <FieldError message={errorFor("location")} />
+              {location.trim() && !errorFor("location") && (
+                <p className="mt-1 text-xs text-neutral-500">
+                  {place
+                    ? `Recognised as ${placeLabel(place)}${place.city ? "" : " (country only)"}`
+                    : "Not recognised; it will be saved as written but won't appear on the map"}
+                </p>
+              )}
               <datalist id="ll-locations">
                 {uniq(knownLocations).map((loc) => (
                   <option key={loc} value={loc} />
@@ -247,115 +1572,540 @@ function SubmissionForm({ onSubmit, knownLocations }: { onSubmit: (e: ArtistEntr
             </div>
           </div>
           <div>
-            <label className="block text-sm">Artist bio</label>
+            <label className="block text-sm">Also works in (optional)</label>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {uniq([...offeredTypes, ...disciplines])
+                .filter((opt) => opt !== artType)
+                .map((opt) => (
+                  <button
+                    key={opt}
+                    type="button"
+                    onClick={() => toggleDiscipline(opt)}
+                    aria-pressed={disciplines.includes(opt)}
+                    className={`text-xs rounded-full border px-2.5 py-1 ${
+                      disciplines.includes(opt)
+                        ? "border-neutral-500 bg-neutral-200"
+                        : "border-neutral-300 hover:bg-neutral-100"
+                    }`}
+                  >
+                    {opt}
+                  </button>
+                ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm">Tags (optional)</label>
+            {tags.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {tags.map((t) => (
+                  <span
+                    key={t}
+                    className="inline-flex items-center gap-1 text-xs rounded-full border border-neutral-300 px-2.5 py-1"
+                  >
+                    {t}
+                    <button
+                      type="button"
+                      onClick={() => setTags((prev) => prev.filter((x) => x !== t))}
+                      aria-label={`Remove tag ${t}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <input
+              id="ll-field-tags"
+              list="ll-tags"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === ",") {
+                  e.preventDefault();
+                  addTags(tagInput);
+                } else if (e.key === "Backspace" && !tagInput && tags.length) {
+                  setTags((prev) => prev.slice(0, -1));
+                }
+              }}
+              onBlur={() => {
+                if (tagInput.trim()) addTags(tagInput);
+                touch("tags")();
+              }}
+              aria-invalid={!!errorFor("tags")}
+              className={`mt-2 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400 ${invalidBorder(errorFor("tags"))}`}
+              placeholder="risograph, murals, available for commission"
+            />
+            <FieldError message={errorFor("tags")} />
+            <datalist id="ll-tags">
+              {knownTags
+                .filter((t) => !tags.includes(t))
+                .map((t) => (
+                  <option key={t} value={t} />
+                ))}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="ll-field-bio" className="block text-sm">
+              Artist bio
+            </label>
             <textarea
+              id="ll-field-bio"
               value={bio}
               onChange={(e) => setBio(e.target.value)}
+              onBlur={touch("bio")}
+              aria-invalid={!!errorFor("bio")}
               rows={4}
-              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400"
+              className={`mt-1 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 placeholder-neutral-400 ${invalidBorder(errorFor("bio"))}`}
               placeholder="Short bio (optional)"
             />
+            <div className="flex justify-between gap-3">
+              <FieldError message={errorFor("bio")} />
+              <span
+                className={`mt-1 ml-auto text-xs ${bio.trim().length > LIMITS.bio ? "text-pink-700" : "text-neutral-400"}`}
+              >
+                {bio.trim().length}/{LIMITS.bio}
+              </span>
+            </div>
           </div>
           <div>
-            <label className="block text-sm mb-2">Images (JPG/PNG, multiple)</label>
-            <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={(e) => handleFiles(e.target.files)} />
+            <label htmlFor="ll-field-images" className="block text-sm mb-2">
+              Images (JPG/PNG, up to {LIMITS.images})
+            </label>
+            <input
+              id="ll-field-images"
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              disabled={uploading || images.length >= LIMITS.images}
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            {uploading && <p className="mt-2 text-xs text-neutral-500">Resizing images…</p>}
+            <FieldError message={imageNote || errorFor("images")} />
             {images.length > 0 && (
-              <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 mt-3">
-                {images.map((src, i) => (
-                  <div key={i} className="relative group border border-neutral-300 rounded overflow-hidden">
-                    <img src={src} alt="upload preview" className="w-full h-28 object-cover" />
-                    <button
-                      type="button"
-                      onClick={() => removeImage(i)}
-                      className="absolute top-1 right-1 text-xs bg-neutral-50/95 rounded px-1.5 py-0.5 border border-neutral-300 opacity-0 group-hover:opacity-100 transition"
+              <>
+                <p className="mt-3 text-xs text-neutral-500">
+                  Drag to reorder; the first image is the cover. Alt text describes the image for screen readers.
+                </p>
+                <ol className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+                  {images.map((img, i) => (
+                    <li
+                      key={img.src}
+                      draggable
+                      onDragStart={(e) => {
+                        dragFrom.current = i;
+                        e.dataTransfer.effectAllowed = "move";
+                      }}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (dragFrom.current !== null) moveImage(dragFrom.current, i);
+                        dragFrom.current = null;
+                      }}
+                      className={`flex gap-3 rounded border p-2 bg-neutral-50 cursor-move ${
+                        i === 0 ? "border-neutral-500" : "border-neutral-300"
+                      }`}
                     >
-                      Remove
-                    </button>
-                  </div>
-                ))}
-              </div>
+                      <div className="relative shrink-0">
+                        <StoredImage
+                          src={img.src}
+                          alt={imageAlt(img, name || "Upload", i)}
+                          className="w-24 h-24 object-cover rounded"
+                        />
+                        {i === 0 && (
+                          <span className="absolute top-1 left-1 text-[10px] bg-neutral-50/95 rounded px-1 border border-neutral-300">
+                            Cover
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0 space-y-1.5">
+                        <input
+                          id={`ll-field-images.${i}`}
+                          value={img.caption}
+                          onChange={(e) => updateImage(i, { caption: e.target.value })}
+                          onBlur={touch(`images.${i}`)}
+                          aria-label={`Caption for image ${i + 1}`}
+                          className="w-full rounded border border-neutral-300 px-2 py-1 text-sm bg-neutral-50"
+                          placeholder="Caption (title, year, medium)"
+                        />
+                        <input
+                          value={img.alt}
+                          onChange={(e) => updateImage(i, { alt: e.target.value })}
+                          onBlur={touch(`images.${i}`)}
+                          aria-label={`Alt text for image ${i + 1}`}
+                          className="w-full rounded border border-neutral-300 px-2 py-1 text-sm bg-neutral-50"
+                          placeholder="Alt text (what the image shows)"
+                        />
+                        <FieldError message={errorFor(`images.${i}`)} />
+                        <div className="flex flex-wrap gap-x-3 text-xs">
+                          {i > 0 && (
+                            <button type="button" onClick={() => moveImage(i, 0)} className="underline">
+                              Make cover
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => moveImage(i, i - 1)}
+                            disabled={i === 0}
+                            aria-label={`Move image ${i + 1} earlier`}
+                            className="underline disabled:opacity-30"
+                          >
+                            ←
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveImage(i, i + 1)}
+                            disabled={i === images.length - 1}
+                            aria-label={`Move image ${i + 1} later`}
+                            className="underline disabled:opacity-30"
+                          >
+                            →
+                          </button>
+                          <button type="button" onClick={() => removeImage(i)} className="underline ml-auto">
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </>
             )}
           </div>
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <label className="text-sm">Links</label>
-              <button type="button" onClick={addLink} className="text-sm underline">
+              <button
+                type="button"
+                onClick={addLink}
+                disabled={links.length >= LIMITS.links}
+                className="text-sm underline disabled:opacity-50"
+              >
                 + Add link
               </button>
             </div>
             {links.map((l, i) => (
-              <div key={i} className="grid grid-cols-12 gap-2">
-                <input
-                  value={l.label}
-                  onChange={(e) => updateLink(i, { label: e.target.value })}
-                  className="col-span-4 rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
-                  placeholder="Label (Instagram, Website, Portfolio)"
-                />
-                <input
-                  value={l.url}
-                  onChange={(e) => updateLink(i, { url: e.target.value })}
-                  className="col-span-7 rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
-                  placeholder="https://..."
-                />
-                <button type="button" onClick={() => removeLink(i)} className="col-span-1 text-sm underline">
-                  Remove
-                </button>
+              <div key={i}>
+                <div className="grid grid-cols-12 gap-2">
+                  <input
+                    value={l.label}
+                    onChange={(e) => updateLink(i, { label: e.target.value })}
+                    className="col-span-4 rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+                    placeholder="Label (Instagram, Website, Portfolio)"
+                  />
+                  <input
+                    id={`ll-field-links.${i}`}
+                    value={l.url}
+                    onChange={(e) => updateLinkUrl(i, e.target.value)}
+                    onBlur={touch(`links.${i}`)}
+                    aria-invalid={!!errorFor(`links.${i}`)}
+                    className={`col-span-7 rounded border px-3 py-2 bg-neutral-50 ${invalidBorder(errorFor(`links.${i}`))}`}
+                    placeholder="https://..."
+                  />
+                  <button type="button" onClick={() => removeLink(i)} className="col-span-1 text-sm underline">
+                    Remove
+                  </button>
+                </div>
+                <FieldError message={errorFor(`links.${i}`)} />
+                <LinkHint link={l} handleIndex={handleIndex} ownId={initial?.id} />
               </div>
             ))}
+            <FieldError message={errorFor("links")} />
           </div>
-          <div>
+          {call && call.fields.length > 0 && (
+            <fieldset className="space-y-5 border-t border-neutral-200 pt-5">
+              <legend className="sr-only">Questions for {call.title}</legend>
+              {call.fields.map((f) => (
+                <CallQuestion
+                  key={f.id}
+                  field={f}
+                  answer={answers[f.id]}
+                  error={errorFor(`call.${f.id}`)}
+                  onChange={(answer) => setAnswer(f.id, answer)}
+                  onAttach={(file) => attachFile(f.id, file)}
+                  onDetach={() => detachFile(f.id)}
+                  onBlur={touch(`call.${f.id}`)}
+                />
+              ))}
+            </fieldset>
+          )}
+          {duplicates.length > 0 && (
+            <div className="rounded border border-neutral-300 bg-neutral-100 px-4 py-3 text-sm text-neutral-700">
+              <p>This may already be in the directory:</p>
+              <ul className="mt-1 space-y-0.5">
+                {duplicates.map((d) => (
+                  <li key={d.entry.id}>
+                    <Link to={artistPath(d.entry.id)} className="underline">
+                      {d.entry.name}
+                    </Link>
+                    <span className="text-xs text-neutral-500"> — {d.reasons.map((r) => r.detail).join("; ")}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1 text-xs text-neutral-500">
+                To update an existing entry, use its edit link rather than submitting again.
+              </p>
+            </div>
+          )}
+          <div className="flex items-center gap-4">
             <button
               type="submit"
-              disabled={saving}
+              disabled={saving || uploading}
               className="inline-flex items-center gap-2 rounded border border-neutral-400 px-5 py-2.5 hover:bg-neutral-100 disabled:opacity-50"
             >
-              {saving ? "Saving…" : "Submit"}
+              {saving ? "Saving…" : initial ? "Save changes" : "Submit"}
             </button>
+            {attempted && Object.keys(errors).length > 0 && (
+              <span className="text-sm text-pink-700">Fix the highlighted fields first.</span>
+            )}
+            {!initial && !attempted && <span className="text-xs text-neutral-500">Drafts are saved as you type.</span>}
+            {onCancel && (
+              <button type="button" onClick={cancel} className="text-sm underline">
+                Cancel
+              </button>
+            )}
           </div>
         </form>
       </div>
 
-      <aside className="md:col-span-2 bg-neutral-50 rounded border border-neutral-200 p-5 h-fit sticky top-24">
-        <h3 className="mb-2 text-pink-600">What happens next?</h3>
-        <ol className="list-decimal list-inside space-y-1 text-sm text-neutral-600">
-          <li>Your submission is stored locally in this demo.</li>
-          <li>Switch to the Directory tab to see your listing.</li>
-          <li>Export JSON to migrate to a database later.</li>
-        </ol>
-        <div className="mt-4 text-xs text-neutral-500">Tip: Keep art type consistent.</div>
-      </aside>
+      {initial ? (
+        <aside className="md:col-span-2 bg-neutral-50 rounded border border-neutral-200 p-5 h-fit sticky top-24">
+          <h3 className="mb-2 text-pink-600">Editing</h3>
+          <p className="text-sm text-neutral-600">
+            Changes are saved in place. The previous version is kept in the entry's history and can be restored from the
+            directory.
+          </p>
+          <p className="mt-4 text-xs text-neutral-500">Added {new Date(initial.createdAt).toLocaleDateString()}</p>
+        </aside>
+      ) : (
+        <aside className="md:col-span-2 bg-neutral-50 rounded border border-neutral-200 p-5 h-fit sticky top-24">
+          <h3 className="mb-2 text-pink-600">What happens next?</h3>
+          <ol className="list-decimal list-inside space-y-1 text-sm text-neutral-600">
+            <li>Your submission is saved to the configured storage backend.</li>
+            <li>A curator reviews it in the Review tab.</li>
+            <li>Once approved, it appears in the Directory.</li>
+            <li>Export JSON to migrate to a database later.</li>
+          </ol>
+          <div className="mt-4 text-xs text-neutral-500">Tip: Keep art type consistent.</div>
+        </aside>
+      )}
     </section>
   );
 }
 
-/** Directory **/
-function Directory(props: {
-  entries: ArtistEntry[];
-  q: string;
-  setQ: (v: string) => void;
-  artTypes: string[];
-  filterArt: string;
-  setFilterArt: (v: string) => void;
-  locations: string[];
-  filterLocation: string;
-  setFilterLocation: (v: string) => void;
-  onDelete: (id: string) => void;
-  onImport: (list: ArtistEntry[]) => void;
-  onExport: () => void;
+/** One of an open call's questions on the submission form */
+function CallQuestion({
+  field,
+  answer,
+  error,
+  onChange,
+  onAttach,
+  onDetach,
+  onBlur,
+}: {
+  field: CallField;
+  answer: CallAnswer | undefined;
+  error?: string;
+  onChange: (answer: CallAnswer | undefined) => void;
+  onAttach: (file: File | undefined) => void;
+  onDetach: () => void;
+  onBlur: () => void;
 }) {
-  const fileRef = useRef<HTMLInputElement | null>(null);
+  const id = `ll-field-call.${field.id}`;
+  const label = `${field.label}${field.required || field.kind === "checkbox" ? "" : " (optional)"}`;
+  const help = field.help && <p className="mt-1 text-xs text-neutral-500">{field.help}</p>;
 
-  function handleImport(files: FileList | null) {
-    if (!files || files.length === 0) return;
-    const file = files[0];
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const data = JSON.parse(String(reader.result));
-        if (Array.isArray(data)) props.onImport(sanitize(data));
-        else alert("Invalid file");
-      } catch {
-        alert("Could not parse JSON");
+  if (field.kind === "checkbox") {
+    return (
+      <div>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            id={id}
+            type="checkbox"
+            checked={answer === true}
+            onChange={(e) => onChange(e.target.checked || undefined)}
+            onBlur={onBlur}
+            aria-invalid={!!error}
+            className="mt-1"
+          />
+          {label}
+        </label>
+        {help}
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm">
+        {label}
+      </label>
+      {help}
+      {field.kind === "text" ? (
+        <textarea
+          id={id}
+          value={typeof answer === "string" ? answer : ""}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          aria-invalid={!!error}
+          rows={3}
+          className={`mt-1 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 ${invalidBorder(error)}`}
+        />
+      ) : field.kind === "select" ? (
+        <select
+          id={id}
+          value={typeof answer === "string" ? answer : ""}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          onBlur={onBlur}
+          aria-invalid={!!error}
+          className={`mt-1 w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-neutral-400 bg-neutral-50 ${invalidBorder(error)}`}
+        >
+          <option value="">Select an option</option>
+          {field.options.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+      ) : isCallFile(answer) ? (
+        <p className="mt-1 flex items-center gap-3 text-sm">
+          <span className="truncate">
+            {answer.name} <span className="text-neutral-500">({formatBytes(answer.size)})</span>
+          </span>
+          <button type="button" onClick={onDetach} className="underline">
+            Remove
+          </button>
+        </p>
+      ) : (
+        <input
+          id={id}
+          type="file"
+          onChange={(e) => onAttach(e.target.files?.[0])}
+          onBlur={onBlur}
+          aria-invalid={!!error}
+          className="mt-1 block text-sm"
+        />
+      )}
+      <FieldError message={error} />
+    </div>
+  );
+}
+
+/** Directory **/
+// Cards per page; the map always shows every match
+const PAGE_SIZE = 24;
+
+function Directory(props: {
+  user: User | null;
+  readOnly: boolean; // a published snapshot, public anyway, so anyone may export it
+  hits: SearchHit[];
+  total: number; // approved entries before search and facets
+  calls: OpenCall[];
+  filters: DirectoryState;
+  counts: Record<FacetKey, FacetValue[]>;
+  setQ: (v: string) => void;
+  setFilters: (patch: Partial<DirectoryState>) => void;
+  onDelete: (id: string) => void;
+  onEdit: (id: string) => void;
+  onRevert: (id: string, revisionId: string) => void;
+  onImport: (pending: PendingImport) => void;
+  onImportCsv: (text: string, fileName: string) => void;
+  onExportCsv: () => void;
+  onExport: () => void;
+  knownLocations: string[];
+  knownTags: string[];
+  artTypes: string[];
+  onBatchEdit: (ids: string[], edit: BatchEdit) => void;
+  onBatchDelete: (ids: string[]) => void;
+  onExportSelection: (ids: string[], format: "json" | "csv") => void;
+  collect: CollectActions;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const call = props.calls.find((c) => c.id === props.filters.call);
+  // Filters set from elsewhere (an open call, the stats page) that the sidebar has no control for
+  const scope = [
+    props.filters.call && { key: "call", label: "Open call", value: call?.title ?? "Unknown" },
+    props.filters.added && { key: "added", label: "Added", value: monthLabel(props.filters.added) },
+    props.filters.missing && { key: "missing", label: "Missing", value: MISSING_LABELS[props.filters.missing] },
+  ].filter((s) => !!s);
+  const filtering = props.filters.q.trim() !== "" || scope.length > 0 || hasFacets(props.filters);
+  const searching = props.filters.q.trim() !== "";
+  // "Best match" only means something while searching; without a query relevance is name order
+  const sort: SortKey = !searching && props.filters.sort === "relevance" ? "name" : props.filters.sort;
+  const pageCount = Math.max(1, Math.ceil(props.hits.length / PAGE_SIZE));
+  // Out-of-range pages (a shared link after entries were removed) show the last one
+  const page = Math.min(Math.max(1, props.filters.page), pageCount);
+  const pageHits = props.hits.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  // Selection spans pages; only entries still matching the search and filters count
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const anchor = useRef<string | null>(null);
+  const hitIds = useMemo(() => props.hits.map((h) => h.entry.id), [props.hits]);
+  const selectedIds = useMemo(() => hitIds.filter((id) => selected.has(id)), [hitIds, selected]);
+
+  // Shift-click applies the clicked card's new state to every card since the last click
+  function toggleSelected(id: string, range: boolean) {
+    const on = !selected.has(id);
+    const from = range && anchor.current ? hitIds.indexOf(anchor.current) : -1;
+    const to = hitIds.indexOf(id);
+    const ids = from === -1 ? [id] : hitIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      ids.forEach((i) => (on ? next.add(i) : next.delete(i)));
+      return next;
+    });
+    anchor.current = id;
+  }
+
+  function stopSelecting() {
+    setSelecting(false);
+    setSelected(new Set());
+    anchor.current = null;
+  }
+
+  function goToPage(n: number) {
+    props.setFilters({ page: n });
+    window.scrollTo({ top: 0 });
+  }
+
+  function handleImport(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    const file = files[0];
+    const reader = new FileReader();
+    const isCsv = /\.(csv|tsv|txt)$/i.test(file.name) || /csv|tab-separated/.test(file.type);
+    reader.onload = async () => {
+      if (fileRef.current) fileRef.current.value = "";
+      if (isCsv) {
+        props.onImportCsv(String(reader.result), file.name);
+        return;
+      }
+      let data: unknown;
+      try {
+        data = JSON.parse(String(reader.result));
+      } catch {
+        alert("Could not parse JSON");
+        return;
+      }
+      try {
+        const parsed = parseExport(data);
+        const assets = await unpackAssets(parsed.assets);
+        const report = migrateRecords(parsed.records, parsed.schemaVersion);
+        props.onImport({
+          list: report.entries,
+          fileName: file.name,
+          fromVersion: parsed.schemaVersion,
+          source: parsed.source,
+          failures: report.failures,
+          collections: parsed.collections,
+          artTypes: parsed.artTypes,
+          openCalls: parsed.openCalls,
+          assets,
+        });
+      } catch (e) {
+        console.error("Import failed", e);
+        alert(`Could not import: ${errorMessage(e)}`);
       }
     };
     reader.readAsText(file);
@@ -367,135 +2117,1322 @@ function Directory(props: {
         <div className="flex-1">
           <label className="block text-sm">Search</label>
           <input
-            value={props.q}
+            value={props.filters.q}
             onChange={(e) => props.setQ(e.target.value)}
             className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
-            placeholder="Search by name, art type, location"
+            placeholder='Search names, bios, places — try "street art" or type:painting loc:berlin'
           />
         </div>
-        <div>
-          <label className="block text-sm">Art type</label>
-          <select
-            value={props.filterArt}
-            onChange={(e) => props.setFilterArt(e.target.value)}
-            className="mt-1 rounded border border-neutral-300 px-3 py-2 min-w-[200px] bg-neutral-50"
+        <div className="flex items-center gap-2">
+          {(props.readOnly || can(props.user, "export")) && (
+            <>
+              <button onClick={() => props.onExport()} className="mt-6 px-3 py-2 rounded border border-neutral-300">
+                Export JSON
+              </button>
+              <button
+                onClick={() => props.onExportCsv()}
+                title="Exports the entries currently shown"
+                className="mt-6 px-3 py-2 rounded border border-neutral-300"
+              >
+                Export CSV
+              </button>
+            </>
+          )}
+          <Link
+            to={cataloguePath(props.filters)}
+            title="Printable catalogue of the entries currently shown"
+            className="mt-6 px-3 py-2 rounded border border-neutral-300"
           >
-            {props.artTypes.map((t) => (
-              <option key={t} value={t}>
-                {t === "all" ? "All" : t}
-              </option>
-            ))}
-          </select>
+            Catalogue
+          </Link>
+          {can(props.user, "import") && (
+            <div>
+              <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json,text/csv,.csv,.tsv"
+                className="hidden"
+                onChange={(e) => handleImport(e.target.files)}
+              />
+              <button onClick={() => fileRef.current?.click()} className="mt-6 px-3 py-2 rounded border border-neutral-300">
+                Import
+              </button>
+            </div>
+          )}
         </div>
-        <div>
-          <label className="block text-sm">Location</label>
-          <select
-            value={props.filterLocation}
-            onChange={(e) => props.setFilterLocation(e.target.value)}
-            className="mt-1 rounded border border-neutral-300 px-3 py-2 min-w-[200px] bg-neutral-50"
-          >
-            {props.locations.map((t) => (
-              <option key={t} value={t}>
-                {t === "all" ? "All" : t}
-              </option>
+      </div>
+
+      <div className="grid md:grid-cols-[14rem_1fr] gap-8">
+        <aside className="space-y-6">
+          {props.calls.length > 0 && (
+            <label className="block space-y-2">
+              <span className="block text-sm text-pink-600">Open call</span>
+              <select
+                value={props.filters.call}
+                onChange={(e) => props.setFilters({ call: e.target.value })}
+                className="w-full rounded border border-neutral-300 px-2 py-1 text-sm bg-neutral-50"
+              >
+                <option value="">Any</option>
+                {props.calls.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <FacetFilters counts={props.counts} filters={props.filters} onChange={props.setFilters} />
+        </aside>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-neutral-600">
+              {filtering ? `${props.hits.length} of ${props.total} artists` : `${props.total} artists`}
+            </span>
+            {scope.map((s) => (
+              <button
+                key={s.key}
+                onClick={() => props.setFilters({ [s.key]: "" })}
+                title={`Remove ${s.label.toLowerCase()} filter`}
+                className="inline-flex items-center gap-1 rounded-full border border-neutral-300 px-2.5 py-0.5 hover:bg-neutral-100"
+              >
+                <span className="text-neutral-500">{s.label}:</span> {s.value} <span aria-hidden>×</span>
+              </button>
             ))}
-          </select>
-        </div>
-        <div className="flex items-center gap-2">
-          <button onClick={() => props.onExport()} className="mt-6 px-3 py-2 rounded border border-neutral-300">
-            Export JSON
-          </button>
-          <div>
-            <input
-              ref={fileRef}
-              type="file"
-              accept="application/json"
-              className="hidden"
-              onChange={(e) => handleImport(e.target.files)}
+            {FACETS.flatMap((def) =>
+              props.filters[def.key].map((value) => (
+                <button
+                  key={`${def.key}:${value}`}
+                  onClick={() => props.setFilters({ [def.key]: props.filters[def.key].filter((v) => v !== value) })}
+                  title={`Remove ${def.label.toLowerCase()} filter`}
+                  className="inline-flex items-center gap-1 rounded-full border border-neutral-300 px-2.5 py-0.5 hover:bg-neutral-100"
+                >
+                  <span className="text-neutral-500">{def.label}:</span> {value} <span aria-hidden>×</span>
+                </button>
+              ))
+            )}
+            {filtering && (
+              <button onClick={() => props.setFilters(NO_FILTERS)} className="underline">
+                Clear all
+              </button>
+            )}
+            <label className="ml-auto flex items-center gap-1.5">
+              <span className="text-neutral-600">Sort</span>
+              <select
+                value={sort}
+                onChange={(e) => props.setFilters({ sort: e.target.value as SortKey })}
+                className="rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+              >
+                {(Object.keys(SORT_LABELS) as SortKey[])
+                  .filter((key) => searching || key !== "relevance")
+                  .map((key) => (
+                    <option key={key} value={key}>
+                      {SORT_LABELS[key]}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            {can(props.user, "delete") && (
+              <button
+                onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+                aria-pressed={selecting}
+                className={`px-3 py-1 rounded border border-neutral-300 ${selecting ? "bg-neutral-200" : "hover:bg-neutral-100"}`}
+              >
+                Select
+              </button>
+            )}
+            <div className="flex rounded border border-neutral-300 overflow-hidden">
+              {(["grid", "map"] as const).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => props.setFilters({ view: v })}
+                  aria-pressed={props.filters.view === v}
+                  className={`px-3 py-1 ${props.filters.view === v ? "bg-neutral-200" : "hover:bg-neutral-100"}`}
+                >
+                  {v === "grid" ? "Grid" : "Map"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {selecting && (
+            <BatchActions
+              count={selectedIds.length}
+              matching={hitIds.length}
+              artTypes={props.artTypes}
+              knownLocations={props.knownLocations}
+              knownTags={props.knownTags}
+              onEdit={(edit) => props.onBatchEdit(selectedIds, edit)}
+              onDelete={() => props.onBatchDelete(selectedIds)}
+              onExportJson={() => props.onExportSelection(selectedIds, "json")}
+              onExportCsv={() => props.onExportSelection(selectedIds, "csv")}
+              onSelectAll={() => setSelected(new Set(hitIds))}
+              onClear={() => setSelected(new Set())}
             />
-            <button onClick={() => fileRef.current?.click()} className="mt-6 px-3 py-2 rounded border border-neutral-300">
-              Import JSON
+          )}
+          {props.filters.view === "map" ? (
+            <MapView entries={props.hits.map((h) => h.entry)} />
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5">
+                {pageHits.map(({ entry, matches }) => (
+                  <ArtistCard
+                    key={entry.id}
+                    entry={entry}
+                    matches={matches}
+                    selection={
+                      selecting
+                        ? { selected: selected.has(entry.id), onToggle: (range) => toggleSelected(entry.id, range) }
+                        : undefined
+                    }
+                    collect={can(props.user, "collect") ? props.collect : undefined}
+                    onDelete={can(props.user, "delete") ? props.onDelete : undefined}
+                    onEdit={can(props.user, "edit", entry.id) ? props.onEdit : undefined}
+                    onRevert={can(props.user, "edit", entry.id) ? props.onRevert : undefined}
+                  />
+                ))}
+                {props.hits.length === 0 && (
+                  <div className="col-span-full text-center text-neutral-400 py-10">
+                    {filtering ? "No matches. Check the spelling or drop a filter." : "No entries yet."}
+                  </div>
+                )}
+              </div>
+              {pageCount > 1 && <Pager page={page} pageCount={pageCount} onPage={goToPage} />}
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/** Previous / next through the directory pages **/
+function Pager({ page, pageCount, onPage }: { page: number; pageCount: number; onPage: (page: number) => void }) {
+  return (
+    <nav aria-label="Pages" className="flex items-center justify-center gap-3 text-sm">
+      <button
+        onClick={() => onPage(page - 1)}
+        disabled={page <= 1}
+        className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        ← Previous
+      </button>
+      <span className="text-neutral-600">
+        Page {page} of {pageCount}
+      </span>
+      <button
+        onClick={() => onPage(page + 1)}
+        disabled={page >= pageCount}
+        className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        Next →
+      </button>
+    </nav>
+  );
+}
+
+/** Review Queue **/
+function ReviewQueue({
+  entries,
+  calls,
+  handleIndex,
+  onReview,
+}: {
+  entries: ArtistEntry[];
+  calls: OpenCall[];
+  handleIndex: Map<string, HandleUse[]>;
+  onReview: (id: string, action: ReviewAction, note: string) => void;
+}) {
+  const [view, setView] = useState<ReviewStatus>("pending");
+
+  const counts = useMemo(() => {
+    const c: Record<ReviewStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    entries.forEach((e) => c[e.status]++);
+    return c;
+  }, [entries]);
+
+  // Oldest first, so the queue is worked in submission order
+  const list = useMemo(
+    () => entries.filter((e) => e.status === view).sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    [entries, view]
+  );
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg text-pink-600">Review submissions</h2>
+        <div className="flex items-center gap-2 text-sm">
+          {REVIEW_STATUSES.map((s) => (
+            <button
+              key={s}
+              onClick={() => setView(s)}
+              className={`px-3 py-1.5 rounded border ${view === s ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+            >
+              {REVIEW_STATUS_LABELS[s]} ({counts[s]})
             </button>
-          </div>
+          ))}
         </div>
       </div>
 
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5">
-        {props.entries.map((e) => (
-          <ArtistCard key={e.id} entry={e} onDelete={props.onDelete} />
+      <div className="space-y-4">
+        {list.map((e) => (
+          <ReviewItem
+            key={e.id}
+            entry={e}
+            call={calls.find((c) => c.id === e.callId)}
+            handleIndex={handleIndex}
+            onReview={onReview}
+          />
         ))}
-        {props.entries.length === 0 && (
-          <div className="col-span-full text-center text-neutral-400 py-10">No entries yet.</div>
+        {list.length === 0 && (
+          <div className="text-center text-neutral-400 py-10">Nothing {REVIEW_STATUS_LABELS[view].toLowerCase()}.</div>
         )}
       </div>
     </section>
   );
 }
 
-function ArtistCard({ entry, onDelete }: { entry: ArtistEntry; onDelete: (id: string) => void }) {
-  const [open, setOpen] = useState(false);
+function ReviewItem({
+  entry,
+  call,
+  handleIndex,
+  onReview,
+}: {
+  entry: ArtistEntry;
+  call?: OpenCall;
+  handleIndex: Map<string, HandleUse[]>;
+  onReview: (id: string, action: ReviewAction, note: string) => void;
+}) {
+  const [note, setNote] = useState("");
+
+  function act(action: ReviewAction) {
+    if (action === "sent_back" && !note.trim()) {
+      alert("Add a note explaining what needs to change.");
+      return;
+    }
+    onReview(entry.id, action, note);
+    setNote("");
+  }
+
   return (
-    <div className="bg-neutral-50 border border-neutral-200 rounded overflow-hidden">
+    <div className="bg-neutral-50 border border-neutral-200 rounded p-4 grid md:grid-cols-4 gap-4">
       {entry.images?.[0] ? (
-        <img src={entry.images[0]} alt={entry.name} className="w-full h-48 object-cover" />
+        <StoredImage
+          src={entry.images[0].src}
+          alt={imageAlt(entry.images[0], entry.name, 0)}
+          className="w-full h-32 object-cover rounded"
+        />
       ) : (
-        <div className="w-full h-48 bg-neutral-100 flex items-center justify-center text-neutral-400 text-sm">No image</div>
+        <div className="w-full h-32 bg-neutral-100 rounded flex items-center justify-center text-neutral-400 text-sm">
+          No image
+        </div>
       )}
+      <div className="md:col-span-3 space-y-2">
+        <div>
+          <h3 className="leading-tight text-pink-600">{entry.name}</h3>
+          <p className="text-sm text-neutral-600">
+            {entry.artType} • {entry.location}
+          </p>
+          <p className="text-xs text-neutral-500">
+            Submitted {new Date(entry.createdAt).toLocaleDateString()}
+            {entry.createdBy && ` by ${entry.createdBy}`}
+            {entry.reviewedAt && ` • Reviewed ${new Date(entry.reviewedAt).toLocaleDateString()}`}
+          </p>
+        </div>
+        {entry.bio && <p className="text-sm">{entry.bio}</p>}
+        {entry.links.length > 0 && (
+          <p className="text-sm text-neutral-600 break-all">
+            {entry.links
+              .map((l) => `${l.label}: ${l.url}${recogniseLink(l.url, l.label) ? "" : " (not a web link)"}`)
+              .join(" • ")}
+          </p>
+        )}
+        <SharedHandles links={entry.links} handleIndex={handleIndex} ownId={entry.id} />
+        {entry.callId && <CallAnswers entry={entry} call={call} />}
+        {entry.reviewLog.length > 0 && (
+          <ul className="text-xs text-neutral-500 space-y-0.5">
+            {entry.reviewLog.map((r, i) => (
+              <li key={i}>
+                {new Date(r.at).toLocaleString()} — {REVIEW_ACTION_LABELS[r.action]}
+                {r.by && ` by ${r.by}`}
+                {r.note && `: ${r.note}`}
+              </li>
+            ))}
+          </ul>
+        )}
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          className="w-full rounded border border-neutral-300 px-3 py-2 text-sm bg-neutral-50 placeholder-neutral-400"
+          placeholder="Reviewer note (required when sending back)"
+        />
+        <div className="flex flex-wrap gap-2 text-sm">
+          {entry.status !== "approved" && (
+            <button onClick={() => act("approved")} className="px-3 py-1.5 rounded border border-neutral-400 hover:bg-neutral-100">
+              Approve
+            </button>
+          )}
+          {entry.status !== "rejected" && (
+            <button onClick={() => act("rejected")} className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100">
+              Reject
+            </button>
+          )}
+          <button onClick={() => act("sent_back")} className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100">
+            Send back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** An entry's answers to its open call; staff and the artist only */
+function CallAnswers({ entry, call }: { entry: ArtistEntry; call?: OpenCall }) {
+  // Answers to questions removed from the call since are kept but not shown
+  const answered = (call?.fields ?? []).filter((f) => entry.answers?.[f.id] !== undefined);
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="text-xs text-neutral-500">
+        Open call:{" "}
+        {call ? (
+          <Link to={directoryPath({ call: call.id })} className="underline">
+            {call.title}
+          </Link>
+        ) : (
+          "deleted since"
+        )}
+      </p>
+      {answered.length > 0 && (
+        <dl className="space-y-1">
+          {answered.map((f) => {
+            const answer = entry.answers![f.id];
+            return (
+              <div key={f.id}>
+                <dt className="text-xs text-neutral-500">{f.label}</dt>
+                <dd className="whitespace-pre-wrap break-words">
+                  {isCallFile(answer) ? <FileLink src={answer.src} name={answer.name} /> : formatAnswer(answer)}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+// Only stored uploads become links; a source from anywhere else is shown as text
+function FileLink({ src, name }: { src: string; name: string }) {
+  const url = useImageSrc(isAssetRef(src) ? src : undefined, "full");
+  return url ? (
+    <a href={url} download={name} className="underline">
+      {name}
+    </a>
+  ) : (
+    <span>{name}</span>
+  );
+}
+
+function ArtistCard({
+  entry,
+  matches = {},
+  selection,
+  collect,
+  onDelete,
+  onEdit,
+  onRevert,
+}: {
+  entry: ArtistEntry;
+  matches?: SearchHit["matches"];
+  selection?: { selected: boolean; onToggle: (range: boolean) => void }; // present in selection mode
+  // Each action is left out when the user may not take it
+  collect?: CollectActions;
+  onDelete?: (id: string) => void;
+  onEdit?: (id: string) => void;
+  onRevert?: (id: string, revisionId: string) => void; // also hides the history
+}) {
+  const [open, setOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [viewing, setViewing] = useState<number | null>(null);
+  return (
+    <div
+      className={`relative bg-neutral-50 border rounded overflow-hidden ${selection?.selected ? "border-pink-400 ring-2 ring-pink-300" : "border-neutral-200"}`}
+    >
+      {selection && (
+        <label className="absolute top-2 left-2 flex items-center gap-1.5 rounded bg-neutral-50/90 px-2 py-1 text-xs shadow">
+          <input
+            type="checkbox"
+            checked={selection.selected}
+            readOnly
+            onClick={(e) => selection.onToggle(e.shiftKey)}
+          />
+          Select
+        </label>
+      )}
+      <Link to={artistPath(entry.id)}>
+        {entry.images?.[0] ? (
+          <StoredImage
+            src={entry.images[0].src}
+            alt={imageAlt(entry.images[0], entry.name, 0)}
+            className="w-full h-48 object-cover"
+          />
+        ) : (
+          <div className="w-full h-48 bg-neutral-100 flex items-center justify-center text-neutral-400 text-sm">
+            No image
+          </div>
+        )}
+      </Link>
       <div className="p-4 space-y-2">
         <div className="flex items-start justify-between gap-3">
           <div>
-            <h3 className="leading-tight text-pink-600">{entry.name}</h3>
+            <h3 className="leading-tight text-pink-600">
+              <Link to={artistPath(entry.id)} className="hover:underline">
+                <Highlight text={entry.name} words={matches.name} />
+              </Link>
+            </h3>
             <p className="text-sm text-neutral-600">
-              {entry.artType} • {entry.location}
+              <Highlight text={entryArtTypes(entry).join(", ")} words={matches.artType} /> •{" "}
+              <Highlight text={entry.location} words={matches.location} />
             </p>
           </div>
-          <button onClick={() => onDelete(entry.id)} className="text-xs underline">
-            Delete
+          {(collect || onEdit || onDelete) && (
+            <div className="flex gap-2">
+              {collect && <CollectionPicker entryId={entry.id} {...collect} />}
+              {onEdit && (
+                <button onClick={() => onEdit(entry.id)} className="text-xs underline">
+                  Edit
+                </button>
+              )}
+              {onDelete && (
+                <button onClick={() => onDelete(entry.id)} title="Move to the trash" className="text-xs underline">
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        {entry.bio && (
+          <p className="text-sm">
+            <Highlight text={entry.bio} words={matches.bio} />
+          </p>
+        )}
+        {entry.tags.length > 0 && <TagList tags={entry.tags} matches={matches.tags} />}
+        <div className="flex gap-3">
+          <button onClick={() => setOpen(!open)} className="text-sm underline">
+            {open ? "Hide details" : "View details"}
           </button>
+          <Link to={artistPath(entry.id)} className="text-sm underline">
+            Artist page
+          </Link>
         </div>
-        {entry.bio && <p className="text-sm">{entry.bio}</p>}
-        <button onClick={() => setOpen(!open)} className="text-sm underline">
-          {open ? "Hide details" : "View details"}
-        </button>
         {open && (
           <div className="pt-2 space-y-3">
-            {entry.images?.length > 1 && (
+            {entry.images?.length > 0 && (
               <div className="grid grid-cols-3 gap-2">
-                {entry.images.slice(1).map((src, i) => (
-                  <img key={i} src={src} alt="art" className="w-full h-24 object-cover rounded" />
+                {entry.images.map((img, i) => (
+                  <button key={i} onClick={() => setViewing(i)} aria-label={`View image ${i + 1} full screen`}>
+                    <StoredImage
+                      src={img.src}
+                      alt={imageAlt(img, entry.name, i)}
+                      className="w-full h-24 object-cover rounded"
+                    />
+                  </button>
                 ))}
               </div>
             )}
             {entry.links?.length > 0 && (
               <div className="flex flex-wrap gap-2">
                 {entry.links.map((l, i) => (
-                  <a
+                  <ExternalLink
                     key={i}
-                    href={normalizeUrl(l.url)}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-sm px-2 py-1 rounded border border-neutral-300 hover:bg-neutral-100"
+                    link={l}
+                    className="inline-flex items-center gap-1.5 text-sm px-2 py-1 rounded border border-neutral-300 hover:bg-neutral-100"
                   >
-                    {l.label}
-                  </a>
+                    <Highlight text={l.label} words={matches.links} />
+                  </ExternalLink>
                 ))}
               </div>
             )}
-            <p className="text-xs text-neutral-500">Added {new Date(entry.createdAt).toLocaleDateString()}</p>
+            <p className="text-xs text-neutral-500" suppressHydrationWarning>
+              Added {new Date(entry.createdAt).toLocaleDateString()}
+              {entry.updatedAt && ` • Edited ${new Date(entry.updatedAt).toLocaleDateString()}`}
+            </p>
+            {onRevert && entry.revisions.length > 0 && (
+              <button onClick={() => setShowHistory(!showHistory)} className="text-xs underline">
+                {showHistory ? "Hide history" : `History (${entry.revisions.length})`}
+              </button>
+            )}
+            {onRevert && showHistory && <RevisionHistory entry={entry} onRevert={(rid) => onRevert(entry.id, rid)} />}
           </div>
         )}
       </div>
+      {viewing !== null && (
+        <Lightbox images={entry.images} start={viewing} name={entry.name} onClose={() => setViewing(null)} />
+      )}
+    </div>
+  );
+}
+
+/** Collections **/
+function CollectionsIndex({
+  collections,
+  onCreate,
+  onDelete,
+}: {
+  collections: Collection[];
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [name, setName] = useState("");
+  // Most recently worked on first
+  const list = useMemo(() => [...collections].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)), [collections]);
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="text-lg text-pink-600">Collections</h2>
+        <p className="text-sm text-neutral-600">
+          Shortlists for line-ups and features. Add artists with Collect on their card or page.
+        </p>
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!name.trim()) return;
+          onCreate(name);
+          setName("");
+        }}
+        className="flex gap-2 max-w-md"
+      >
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="New collection name"
+          placeholder="New collection, e.g. Spring zine"
+          className="flex-1 rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+        />
+        <button disabled={!name.trim()} className="px-3 py-2 rounded border border-neutral-300 disabled:opacity-40">
+          Create
+        </button>
+      </form>
+      {list.length === 0 && <p className="text-center text-neutral-400 py-10">No collections yet.</p>}
+      <ul className="divide-y divide-neutral-200">
+        {list.map((c) => (
+          <li key={c.id} className="py-3 flex flex-wrap items-center gap-4">
+            <div className="flex-1 min-w-[12rem]">
+              <Link to={collectionPath(c.id)} className="text-pink-600 hover:underline">
+                {c.name}
+              </Link>
+              <p className="text-xs text-neutral-500">
+                {c.items.length === 1 ? "1 artist" : `${c.items.length} artists`} • Updated{" "}
+                {new Date(c.updatedAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex gap-3 text-sm">
+              <Link to={cataloguePath({ collection: c.id })} className="underline">
+                Catalogue
+              </Link>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete the collection "${c.name}"? The artists in it are not affected.`)) onDelete(c.id);
+                }}
+                className="underline text-pink-700"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function CollectionView({
+  collection,
+  entries,
+  onChange,
+}: {
+  collection: Collection;
+  entries: ArtistEntry[]; // including trashed, which are shown but left out of the catalogue
+  onChange: (change: (c: Collection) => Partial<Collection>) => void;
+}) {
+  const [name, setName] = useState(collection.name);
+  const byId = useMemo(() => new Map(entries.map((e) => [e.id, e])), [entries]);
+
+  function saveName() {
+    if (name.trim() && name.trim() !== collection.name) onChange(() => ({ name: name.trim() }));
+    else setName(collection.name);
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex-1 min-w-[16rem]">
+          <Link to="/collections" className="text-sm underline">
+            ← Collections
+          </Link>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={saveName}
+            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+            aria-label="Collection name"
+            className="mt-2 block w-full text-lg text-pink-600 bg-transparent border-b border-transparent hover:border-neutral-300 focus:border-neutral-500 outline-none"
+          />
+          <p className="text-xs text-neutral-500">
+            {collection.items.length === 1 ? "1 artist" : `${collection.items.length} artists`} • Updated{" "}
+            {new Date(collection.updatedAt).toLocaleString()}
+          </p>
+        </div>
+        <Link
+          to={cataloguePath({ collection: collection.id })}
+          className="px-3 py-1.5 rounded border border-neutral-300 text-sm"
+        >
+          Print catalogue
+        </Link>
+      </div>
+      {collection.items.length === 0 && (
+        <p className="text-center text-neutral-400 py-10">Empty. Use Collect on an artist to add them.</p>
+      )}
+      <ol className="space-y-3">
+        {collection.items.map((item, i) => {
+          const entry = byId.get(item.entryId);
+          if (!entry) return null;
+          return (
+            <CollectionRow
+              key={item.entryId}
+              entry={entry}
+              note={item.note}
+              position={i}
+              last={i === collection.items.length - 1}
+              onNote={(note) =>
+                onChange((c) => ({ items: c.items.map((x) => (x.entryId === entry.id ? { ...x, note } : x)) }))
+              }
+              onMove={(to) => onChange((c) => moveItem(c, i, to))}
+              onRemove={() => onChange((c) => toggleItem(c, entry.id))}
+            />
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
+
+function CollectionRow({
+  entry,
+  note,
+  position,
+  last,
+  onNote,
+  onMove,
+  onRemove,
+}: {
+  entry: ArtistEntry;
+  note: string;
+  position: number;
+  last: boolean;
+  onNote: (note: string) => void;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}) {
+  // Saved when the field loses focus rather than on every keystroke
+  const [draft, setDraft] = useState(note);
+  const trashed = isTrashed(entry);
+
+  return (
+    <li className="bg-neutral-50 border border-neutral-200 rounded p-3 grid sm:grid-cols-[auto_6rem_1fr_auto] gap-3 items-start">
+      <span className="text-neutral-400 text-sm w-6 text-right">{position + 1}.</span>
+      {entry.images[0] ? (
+        <StoredImage
+          src={entry.images[0].src}
+          alt={imageAlt(entry.images[0], entry.name, 0)}
+          className="w-24 h-16 object-cover rounded"
+        />
+      ) : (
+        <div className="w-24 h-16 bg-neutral-100 rounded" />
+      )}
+      <div className="space-y-1 min-w-0">
+        <p className={trashed ? "text-neutral-400" : "text-pink-600"}>
+          {trashed ? (
+            <>
+              {entry.name} <span className="text-xs">(in the trash; left out of the catalogue)</span>
+            </>
+          ) : (
+            <Link to={artistPath(entry.id)} className="hover:underline">
+              {entry.name}
+            </Link>
+          )}
+        </p>
+        <p className="text-xs text-neutral-500">
+          {entry.artType} • {entry.location}
+        </p>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => draft !== note && onNote(draft.trim())}
+          rows={2}
+          aria-label={`Curator note for ${entry.name}`}
+          placeholder="Curator note (printed in the catalogue)"
+          className="w-full rounded border border-neutral-300 px-2 py-1 text-sm bg-neutral-50"
+        />
+      </div>
+      <div className="flex sm:flex-col gap-2 text-sm">
+        <button
+          onClick={() => onMove(position - 1)}
+          disabled={position === 0}
+          aria-label={`Move ${entry.name} up`}
+          className="px-2 py-0.5 rounded border border-neutral-300 disabled:opacity-40"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => onMove(position + 1)}
+          disabled={last}
+          aria-label={`Move ${entry.name} down`}
+          className="px-2 py-0.5 rounded border border-neutral-300 disabled:opacity-40"
+        >
+          ↓
+        </button>
+        <button onClick={onRemove} className="underline text-xs">
+          Remove
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/** Trash **/
+function Trash({
+  entries,
+  onRestore,
+  onPurge,
+  onExport,
+}: {
+  entries: ArtistEntry[];
+  onRestore: (id: string) => void;
+  onPurge?: (ids: string[]) => void; // admins only
+  onExport: () => void;
+}) {
+  // Most recently deleted first
+  const list = useMemo(
+    () => [...entries].sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? "")),
+    [entries]
+  );
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg text-pink-600">Trash</h2>
+          <p className="text-sm text-neutral-600">
+            {TRASH_RETENTION_DAYS > 0
+              ? `Deleted artists are removed for good after ${TRASH_RETENTION_DAYS} days.`
+              : "Deleted artists stay here until the trash is emptied."}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button onClick={onExport} className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100">
+            Export all, including trash
+          </button>
+          {onPurge && (
+            <button
+              onClick={() => {
+                if (confirm(`Permanently delete ${list.length} artists and their images? This cannot be undone.`))
+                  onPurge(list.map((e) => e.id));
+              }}
+              disabled={list.length === 0}
+              className="px-3 py-1.5 rounded border border-pink-300 text-pink-700 hover:bg-pink-50 disabled:opacity-40"
+            >
+              Empty trash
+            </button>
+          )}
+        </div>
+      </div>
+
+      {list.length === 0 && <p className="text-center text-neutral-400 py-10">The trash is empty.</p>}
+      <ul className="divide-y divide-neutral-200">
+        {list.map((entry) => {
+          const purgeOn = purgeDate(entry);
+          return (
+            <li key={entry.id} className="py-3 flex flex-wrap items-center gap-4">
+              {entry.images[0] ? (
+                <StoredImage
+                  src={entry.images[0].src}
+                  alt={imageAlt(entry.images[0], entry.name, 0)}
+                  className="w-16 h-12 object-cover rounded"
+                />
+              ) : (
+                <div className="w-16 h-12 bg-neutral-100 rounded" />
+              )}
+              <div className="flex-1 min-w-[12rem]">
+                <p className="text-pink-600">{entry.name}</p>
+                <p className="text-xs text-neutral-500">
+                  {entry.artType} • Deleted {new Date(entry.deletedAt ?? "").toLocaleString()}
+                  {entry.updatedBy && ` by ${entry.updatedBy}`}
+                  {purgeOn && ` • Removed for good on ${purgeOn.toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm">
+                <button onClick={() => onRestore(entry.id)} className="underline">
+                  Restore
+                </button>
+                {onPurge && (
+                  <button
+                    onClick={() => {
+                      if (confirm(`Permanently delete ${entry.name} and their images? This cannot be undone.`))
+                        onPurge([entry.id]);
+                    }}
+                    className="underline text-pink-700"
+                  >
+                    Delete forever
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+/** Artist page (/artist/:id) **/
+function ArtistPage({
+  entry,
+  call,
+  editable,
+  collect,
+  onDelete,
+  onRevert,
+  onShareEditLink,
+}: {
+  entry: ArtistEntry;
+  call?: OpenCall; // the one it was submitted to
+  editable: boolean;
+  // Each action is left out when the user may not take it
+  collect?: CollectActions;
+  onDelete?: (id: string) => void;
+  onRevert?: (id: string, revisionId: string) => void; // also hides the history
+  onShareEditLink?: () => void;
+}) {
+  const [showHistory, setShowHistory] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [viewing, setViewing] = useState<number | null>(null);
+
+  function copyLink() {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch((e) => console.error("Copy failed", e));
+  }
+
+  return (
+    <article className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <button onClick={() => window.history.back()} className="underline">
+          ← Back
+        </button>
+        <div className="flex gap-3">
+          <button onClick={copyLink} className="underline">
+            {copied ? "Link copied" : "Copy link"}
+          </button>
+          {collect && <CollectionPicker entryId={entry.id} {...collect} />}
+          {editable && (
+            <Link to={editPath(entry.id)} className="underline">
+              Edit
+            </Link>
+          )}
+          {onShareEditLink && (
+            <button onClick={onShareEditLink} title="Copy a new edit link to send to the artist" className="underline">
+              Edit link
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={() => onDelete(entry.id)} title="Move to the trash" className="underline">
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {entry.status !== "approved" && (
+        <p className="rounded border border-neutral-300 bg-neutral-100 px-4 py-3 text-sm text-neutral-700">
+          Not public: this submission is {REVIEW_STATUS_LABELS[entry.status].toLowerCase()}.
+        </p>
+      )}
+
+      <header className="space-y-2">
+        <h2 className="text-2xl text-pink-600">{entry.name}</h2>
+        <p className="text-sm text-neutral-600">
+          {entryArtTypes(entry).map((t, i) => (
+            <React.Fragment key={t}>
+              {i > 0 && ", "}
+              <Link to={directoryPath({ art: [t] })} className="hover:underline">
+                {t}
+              </Link>
+            </React.Fragment>
+          ))}
+          {" • "}
+          <Link
+            to={directoryPath(locationFilter(entry))}
+            title={entry.place ? placeLabel(entry.place) : "Location not recognised"}
+            className="hover:underline"
+          >
+            {entry.location}
+          </Link>
+          {entry.place?.city && (
+            <>
+              {" · "}
+              <Link to={directoryPath({ country: [entry.place.country] })} className="hover:underline">
+                All in {entry.place.country}
+              </Link>
+            </>
+          )}
+        </p>
+        {entry.tags.length > 0 && <TagList tags={entry.tags} />}
+      </header>
+
+      {entry.images.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {entry.images.map((img, i) => (
+            <figure key={i} className={i === 0 ? "sm:col-span-2" : ""}>
+              <button
+                onClick={() => setViewing(i)}
+                aria-label={`View image ${i + 1} full screen`}
+                className="block w-full cursor-zoom-in"
+              >
+                <StoredImage
+                  src={img.src}
+                  variant="full"
+                  alt={imageAlt(img, entry.name, i)}
+                  className={`w-full object-cover rounded border border-neutral-200 ${i === 0 ? "max-h-[32rem]" : "h-64"}`}
+                />
+              </button>
+              {img.caption && <figcaption className="mt-1 text-xs text-neutral-500">{img.caption}</figcaption>}
+            </figure>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-8">
+        <div className="md:col-span-2 space-y-3">
+          <h3 className="text-pink-600">About</h3>
+          <p className="whitespace-pre-wrap">{entry.bio || <span className="text-neutral-400">No bio yet.</span>}</p>
+        </div>
+        <aside className="space-y-4 text-sm">
+          {editable && entry.callId && <CallAnswers entry={entry} call={call} />}
+          {entry.links.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-pink-600">Links</h3>
+              <ul className="space-y-1">
+                {entry.links.map((l, i) => (
+                  <li key={i}>
+                    <ExternalLink link={l} className="inline-flex items-center gap-1.5 break-all">
+                      <span className="underline">{l.label}</span>
+                      {recogniseLink(l.url, l.label)?.handle && (
+                        <span className="text-neutral-500">@{recogniseLink(l.url, l.label)!.handle}</span>
+                      )}
+                    </ExternalLink>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {/* The prerendering machine's locale may not be the reader's */}
+          <p className="text-xs text-neutral-500" suppressHydrationWarning>
+            Added {new Date(entry.createdAt).toLocaleDateString()}
+            {entry.updatedAt && ` • Edited ${new Date(entry.updatedAt).toLocaleDateString()}`}
+          </p>
+          {onRevert && entry.revisions.length > 0 && (
+            <button onClick={() => setShowHistory(!showHistory)} className="text-xs underline">
+              {showHistory ? "Hide history" : `History (${entry.revisions.length})`}
+            </button>
+          )}
+        </aside>
+      </div>
+
+      {onRevert && showHistory && <RevisionHistory entry={entry} onRevert={(rid) => onRevert(entry.id, rid)} />}
+      {viewing !== null && (
+        <Lightbox images={entry.images} start={viewing} name={entry.name} onClose={() => setViewing(null)} />
+      )}
+    </article>
+  );
+}
+
+function NoAccess({ message }: { message: string }) {
+  return (
+    <div className="text-center text-neutral-500 py-16 space-y-3">
+      <p>{message} Sign in from the menu above.</p>
+      <Link to={directoryPath()} className="text-sm underline">
+        Go to the directory
+      </Link>
+    </div>
+  );
+}
+
+/** Shown after a submission: the link an artist keeps to edit their entry **/
+function EditLinkNotice({ name, path, onDismiss }: { name: string; path: string; onDismiss: () => void }) {
+  const [copied, setCopied] = useState(false);
+  const url = new URL(path, window.location.origin).href;
+
+  function copy() {
+    navigator.clipboard
+      .writeText(url)
+      .then(() => setCopied(true))
+      .catch((e) => console.error("Copy failed", e));
+  }
+
+  return (
+    <div className="mb-6 rounded border border-neutral-300 bg-neutral-100 px-4 py-3 text-sm text-neutral-700 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <p>
+          Thanks! {name} is waiting for review. Keep this link: it lets you edit your entry later. A hosted sign-in
+          would email it to you instead.
+        </p>
+        <button onClick={onDismiss} className="underline">
+          Dismiss
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <code className="break-all text-xs">{url}</code>
+        <button onClick={copy} className="underline">
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <Link to={path} className="underline">
+          Open
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+function NotFound({ what }: { what: string }) {
+  return (
+    <div className="text-center text-neutral-500 py-16 space-y-3">
+      <p>{what} could not be found.</p>
+      <Link to={directoryPath()} className="text-sm underline">
+        Go to the directory
+      </Link>
     </div>
   );
 }
 
+/** Newest first; each revision shows what the following save changed */
+function RevisionHistory({ entry, onRevert }: { entry: ArtistEntry; onRevert: (revisionId: string) => void }) {
+  const rows = entry.revisions
+    .map((r, i) => ({
+      revision: r,
+      changes: diffSnapshots(r.before, entry.revisions[i + 1]?.before ?? snapshot(entry)),
+    }))
+    .reverse();
+
+  return (
+    <ol className="space-y-3 border-t border-neutral-200 pt-3">
+      {rows.map(({ revision, changes }) => (
+        <li key={revision.id} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs text-neutral-500">
+            <span>
+              Changed {new Date(revision.savedAt).toLocaleString()}
+              {revision.savedBy && ` by ${revision.savedBy}`}
+            </span>
+            <button
+              onClick={() => {
+                if (confirm("Revert to the version before this change?")) onRevert(revision.id);
+              }}
+              className="underline"
+            >
+              Revert
+            </button>
+          </div>
+          {changes.map((c) => (
+            <div key={c.field} className="text-xs">
+              <span className="text-neutral-600">{FIELD_LABELS[c.field]}</span>
+              <p className="whitespace-pre-wrap text-neutral-400 line-through">{c.before || "—"}</p>
+              <p className="whitespace-pre-wrap">{c.after || "—"}</p>
+            </div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/** Shows an `asset:` ref (or a plain URL) from the asset store **/
+function StoredImage({
+  src,
+  variant = "thumb",
+  ...rest
+}: { src: string; variant?: AssetVariant } & Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src">) {
+  // Nothing is read from the asset store until the image is about to scroll into view.
+  // Plain URLs go straight to a lazy <img>, so prerendered pages hydrate with the same markup.
+  const [ref, near] = useNearViewport<HTMLDivElement>();
+  const url = useImageSrc(near || !isAssetRef(src) ? src : undefined, variant);
+  if (!url) return <div ref={ref} className={`${rest.className ?? ""} bg-neutral-100`} />;
+  return <img src={url} loading="lazy" decoding="async" {...rest} />;
+}
+
+/** Tags linking to the directory filtered by each **/
+function TagList({ tags, matches }: { tags: string[]; matches?: string[] }) {
+  return (
+    <ul className="flex flex-wrap gap-1.5">
+      {tags.map((t) => (
+        <li key={t}>
+          <Link
+            to={directoryPath({ tag: [t] })}
+            className="text-xs rounded-full border border-neutral-300 px-2 py-0.5 text-neutral-600 hover:bg-neutral-100"
+          >
+            #<Highlight text={t} words={matches} />
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Inline message under a form field **/
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-pink-700">{message}</p>;
+}
+
+/** An outside link with its platform icon; anything that is not http(s) is shown as plain text instead */
+function ExternalLink({
+  link,
+  className,
+  children,
+}: {
+  link: { label: string; url: string };
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const recognised = recogniseLink(link.url, link.label);
+  if (!recognised) {
+    return (
+      <span className={`${className ?? ""} text-neutral-400 cursor-not-allowed`} title="Not a web address">
+        {children}
+      </span>
+    );
+  }
+  return (
+    <a href={recognised.url} target="_blank" rel="noreferrer" className={className}>
+      <PlatformIcon platform={recognised.platform} />
+      {children}
+    </a>
+  );
+}
+
+/** What the form made of a link, and whether another artist already lists that handle */
+function LinkHint({
+  link,
+  handleIndex,
+  ownId,
+}: {
+  link: LinkField;
+  handleIndex: Map<string, HandleUse[]>;
+  ownId?: string;
+}) {
+  const recognised = link.url.trim() ? recogniseLink(link.url, link.label) : undefined;
+  if (!recognised) return null;
+  return (
+    <div className="mt-1 text-xs text-neutral-500">
+      <span className="inline-flex items-center gap-1.5">
+        <PlatformIcon platform={recognised.platform} className="w-3.5 h-3.5" />
+        {platformLabel(recognised.platform)}
+        {recognised.handle ? ` @${recognised.handle}` : ""} — {recognised.url}
+      </span>
+      <SharedHandles links={[link]} handleIndex={handleIndex} ownId={ownId} />
+    </div>
+  );
+}
+
+function SharedHandles({
+  links,
+  handleIndex,
+  ownId,
+}: {
+  links: LinkField[];
+  handleIndex: Map<string, HandleUse[]>;
+  ownId?: string;
+}) {
+  const shared = sharedHandles(links, handleIndex, ownId);
+  if (shared.length === 0) return null;
+  return (
+    <ul className="mt-1 text-xs text-pink-700 space-y-0.5">
+      {shared.map((s) => (
+        <li key={`${s.platform}:${s.handle}`}>
+          {platformLabel(s.platform)} @{s.handle} is also listed on{" "}
+          {s.others.map((o, i) => (
+            <span key={o.id}>
+              {i > 0 && ", "}
+              <Link to={artistPath(o.id)} className="underline">
+                {o.name}
+              </Link>
+              {o.status !== "approved" && ` (${REVIEW_STATUS_LABELS[o.status].toLowerCase()})`}
+            </span>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Marks the words a search matched **/
+function Highlight({ text, words }: { text: string; words?: string[] }) {
+  if (!words?.length) return <>{text}</>;
+  return (
+    <>
+      {highlightRuns(text, words).map((run, i) =>
+        run.hit ? (
+          <mark key={i} className="bg-pink-100 text-inherit rounded-sm">
+            {run.text}
+          </mark>
+        ) : (
+          run.text
+        )
+      )}
+    </>
+  );
+}
+
 /** Helpers **/
+// "Search: …", the open call, month, missing field and each active facet, for the heading of a printed directory view
+function describeFilters(filters: DirectoryState, calls: OpenCall[]) {
+  const call = calls.find((c) => c.id === filters.call);
+  const parts = [
+    filters.q.trim() && `Search: ${filters.q.trim()}`,
+    call && `Open call: ${call.title}`,
+    filters.added && `Added: ${monthLabel(filters.added)}`,
+    filters.missing && `Missing: ${MISSING_LABELS[filters.missing]}`,
+    ...FACETS.filter((def) => filters[def.key].length).map((def) => `${def.label}: ${filters[def.key].join(", ")}`),
+  ];
+  return parts.filter(Boolean).join(" • ") || undefined;
+}
+
+function exportCsv(list: ArtistEntry[], name: string) {
+  downloadFile(
+    entriesToCsv(list),
+    `loveletter-${name}-${new Date().toISOString().slice(0, 10)}.csv`,
+    "text/csv;charset=utf-8"
+  );
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
 function uniq(arr: (string | undefined)[]) {
   return Array.from(new Set(arr.filter(Boolean) as string[])).sort((a, b) => a.localeCompare(b));
 }
 
 function downloadJSON(data: unknown, filename: string) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  downloadFile(JSON.stringify(data, null, 2), filename, "application/json");
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -506,136 +3443,18 @@ function downloadJSON(data: unknown, filename: string) {
   URL.revokeObjectURL(url);
 }
 
-async function fileToDataURL(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(String(reader.result));
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-}
-
-function sanitize(list: any[]): ArtistEntry[] {
-  return list
-    .map((e) => ({
-      id: String(e.id ?? crypto.randomUUID()),
-      name: String(e.name ?? ""),
-      artType: String(e.artType ?? ""),
-      location: String(e.location ?? ""),
-      bio: String(e.bio ?? ""),
-      images: Array.isArray(e.images) ? e.images.filter(Boolean).map(String) : [],
-      links: Array.isArray(e.links)
-        ? e.links
-            .filter((l: any) => l && (l.url || l.label))
-            .map((l: any) => ({ label: String(l.label ?? "Link"), url: String(l.url ?? "") }))
-        : [],
-      createdAt: String(e.createdAt ?? new Date().toISOString()),
-    }))
-    .sort((a, b) => a.name.localeCompare(b.name));
-}
-
-function normalizeUrl(url: string) {
-  if (!url) return "#";
-  if (/^https?:\/\//i.test(url)) return url;
-  return `https://${url}`;
-}
-
-// Well-rounded art type list (includes Graffiti + Street Art)
-const ART_TYPE_OPTIONS = [
-  "Painting",
-  "Illustration",
-  "Photography",
-  "Film/Video",
-  "Animation",
-  "Graphic Design",
-  "Typography",
-  "Web/Interactive",
-  "3D/CGI",
-  "Sculpture",
-  "Installation",
-  "Performance",
-  "Sound/Music",
-  "DJ/Producer",
-  "Fashion/Textiles",
-  "Accessories/Jewellery",
-  "Product/Industrial",
-  "Architecture",
-  "Interior",
-  "Motion Design",
-  "Game Art",
-  "Mixed Media",
-  "Collage",
-  "Graffiti",
-  "Street Art",
-  "Zine/Publishing",
-  "Curatorial",
-  "Creative Direction",
-];
-
-// Sample seed entries
-const SAMPLE_ENTRIES: ArtistEntry[] = [
-  {
-    id: "seed-1",
-    name: "Ari Kim",
-    artType: "Photography",
-    location: "Melbourne, Australia",
-    bio: "Documentary photographer exploring youth subcultures and night streets.",
-    images: [
-      "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='600' height='360'><rect width='100%' height='100%' fill='%23ddd'/><text x='50%' y='50%' dominant-baseline='middle' text-anchor='middle' font-family='monospace' font-size='24' fill='%23777'>Photo — placeholder</text></svg>"
-    ],
-    links: [{ label: "Instagram", url: "instagram.com/arixphoto" }],
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: "seed-2",
-    name: "Maya Lopes",
-    artType: "Illustration",
-    location: "Lisbon, Portugal",
-    bio: "Bold linework, quiet characters, risograph textures.",
-    images: [],
-    links: [{ label: "Portfolio", url: "mayalopes.art" }],
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: "seed-3",
-    name: "Zed K",
-    artType: "Graffiti",
-    location: "Berlin, Germany",
-    bio: "Letterforms, chrome, rooftops — city as canvas.",
-    images: [
-      "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='600' height='360'><rect width='100%' height='100%' fill='%23eee'/><text x='50%' y='50%' dominant-baseline='middle' text-anchor='middle' font-family='monospace' font-size='24' fill='%23999'>Graffiti — placeholder</text></svg>"
-    ],
-    links: [{ label: "Instagram", url: "instagram.com/zedk" }],
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: "seed-4",
-    name: "Noa Singh",
-    artType: "Creative Direction",
-    location: "London, UK",
-    bio: "Campaign concepts for indie labels and art-led brands.",
-    images: [],
-    links: [{ label: "Website", url: "noasingh.studio" }],
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: "seed-5",
-    name: "Kōji Tanaka",
-    artType: "Sound/Music",
-    location: "Tokyo, Japan",
-    bio: "Ambient field recordings and modular synth diaries.",
-    images: [],
-    links: [{ label: "Bandcamp", url: "koji.bandcamp.com" }],
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: "seed-6",
-    name: "Saffron Blue",
-    artType: "Street Art",
-    location: "Sydney, Australia",
-    bio: "Paste-ups, wheatpaste posters, ephemeral typography.",
-    images: [],
-    links: [{ label: "Instagram", url: "instagram.com/saffronblue" }],
-    createdAt: new Date().toISOString(),
-  },
-];
+function invalidBorder(error: string | undefined) {
+  return error ? "border-pink-400" : "border-neutral-300";
+}
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  approved: "Approved",
+  rejected: "Rejected",
+  sent_back: "Sent back",
+};
@@ -0,0 +1,80 @@
+import { EDITABLE_FIELDS } from "../revisions";
+import type { ArtistRepository, EntryPatch } from "../storage/repository";
+import type { ArtistEntry } from "../types";
+import { actorName, can, ForbiddenError, type Permission } from "./permissions";
+import type { User } from "./provider";
+
+// What an artist's edit of their own entry may touch; review state and the trash stay with curators
+const ARTIST_FIELDS = new Set<string>([...EDITABLE_FIELDS, "place", "revisions", "updatedAt"]);
+
+/**
+ * Wraps a repository so every write checks the current user's role and
+ * records who made it (`createdBy`, `updatedBy`). Reads pass straight through.
+ */
+export function guardRepository(repo: ArtistRepository, getUser: () => User | null): ArtistRepository {
+  function require(permission: Permission, action: string, entryId?: string) {
+    if (!can(getUser(), permission, entryId)) throw new ForbiddenError(action);
+  }
+
+  function checkPatch({ id, patch }: EntryPatch) {
+    if ("status" in patch || "reviewLog" in patch) require("review", "reviewing");
+    if ("deletedAt" in patch) require("delete", "deleting");
+    require("edit", "editing this artist", id);
+    if (getUser()?.role === "artist" && Object.keys(patch).some((k) => !ARTIST_FIELDS.has(k))) {
+      throw new ForbiddenError("changing review or trash state");
+    }
+  }
+
+  const stamp = (patch: Partial<ArtistEntry>) => ({ ...patch, updatedBy: actorName(getUser()) });
+
+  return {
+    get label() {
+      return repo.label;
+    },
+    readOnly: repo.readOnly,
+    get migrationFailures() {
+      return repo.migrationFailures;
+    },
+    list: () => repo.list(),
+    get: (id) => repo.get(id),
+    create(entry) {
+      require("submit", "submitting");
+      // Whatever the caller sent, a submission from someone who cannot review waits in the queue
+      const review = can(getUser(), "review")
+        ? {}
+        : { status: "pending" as const, reviewNote: "", reviewLog: [], reviewedAt: undefined };
+      return repo.create({ ...entry, ...review, createdBy: actorName(getUser()) });
+    },
+    update(id, patch) {
+      checkPatch({ id, patch });
+      return repo.update(id, stamp(patch));
+    },
+    updateMany(patches) {
+      patches.forEach(checkPatch);
+      return repo.updateMany(patches.map(({ id, patch }) => ({ id, patch: stamp(patch) })));
+    },
+    delete(id) {
+      require("purge", "deleting for good");
+      return repo.delete(id);
+    },
+    bulkImport(list) {
+      require("import", "importing");
+      return repo.bulkImport(list);
+    },
+    listCollections: () => repo.listCollections(),
+    saveCollections(list) {
+      require("collect", "changing collections");
+      return repo.saveCollections(list);
+    },
+    listArtTypes: () => repo.listArtTypes(),
+    saveArtTypes(list) {
+      require("manageArtTypes", "changing art types");
+      return repo.saveArtTypes(list);
+    },
+    listOpenCalls: () => repo.listOpenCalls(),
+    saveOpenCalls(list) {
+      require("manageCalls", "changing open calls");
+      return repo.saveOpenCalls(list);
+    },
+  };
+}
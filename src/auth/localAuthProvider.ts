@@ -0,0 +1,79 @@
+import type { AuthProvider, User } from "./provider";
+
+const SESSION_KEY = "ll_auth_session";
+const TOKENS_KEY = "ll_auth_tokens";
+
+type EditGrant = { entryId: string; name: string; issuedAt: string };
+
+/**
+ * Development stand-in: anyone can sign in as any staff role, and edit tokens
+ * live in this browser's localStorage, so an edit link only works where it was
+ * issued. The session is kept under `ll_auth_session`. Not for production.
+ */
+export function createLocalAuthProvider(): AuthProvider {
+  function readSession(): User | null {
+    try {
+      const u = JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null");
+      if (!u || !["artist", "curator", "admin"].includes(u.role)) return null;
+      return {
+        id: String(u.id),
+        name: String(u.name ?? ""),
+        role: u.role,
+        entryIds: Array.isArray(u.entryIds) ? u.entryIds.map(String) : [],
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  function writeSession(user: User) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(user));
+    return user;
+  }
+
+  function readTokens(): Record<string, EditGrant> {
+    try {
+      return JSON.parse(localStorage.getItem(TOKENS_KEY) ?? "{}") ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  return {
+    label: "local sign-in (development)",
+    async currentUser() {
+      return readSession();
+    },
+    async signIn(name, role) {
+      const trimmed = name.trim() || "Staff";
+      return writeSession({ id: `local:${trimmed.toLowerCase()}`, name: trimmed, role, entryIds: [] });
+    },
+    async signOut() {
+      localStorage.removeItem(SESSION_KEY);
+    },
+    async issueEditToken(entryId, name) {
+      const tokens = Object.fromEntries(Object.entries(readTokens()).filter(([, g]) => g.entryId !== entryId));
+      const token = Array.from(crypto.getRandomValues(new Uint8Array(18)), (b) => b.toString(16).padStart(2, "0")).join(
+        ""
+      );
+      tokens[token] = { entryId, name, issuedAt: new Date().toISOString() };
+      localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+      return token;
+    },
+    async redeemEditToken(token) {
+      const grant = readTokens()[token];
+      if (!grant) throw new Error("This edit link is not valid. It may have been replaced by a newer one.");
+      const current = readSession();
+      if (current && current.role !== "artist") return { user: current, entryId: grant.entryId };
+      // One browser can hold links for several entries (an artist with two profiles)
+      const entryIds = [...new Set([...(current?.entryIds ?? []), grant.entryId])];
+      const user = writeSession({
+        id: current?.id ?? `artist:${grant.entryId}`,
+        name: current?.name || grant.name,
+        role: "artist",
+        entryIds,
+      });
+      return { user, entryId: grant.entryId };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { ROLE_LABELS, ROLES, type Role, type User } from "./provider";
+
+/**
+ * What each role may do. Roles are ranked, so each one can do everything the
+ * ones before it can. The one exception: artists may edit the entries their
+ * edit links gave them. The UI hides what is not allowed; `guardRepository`
+ * refuses it as well, the way a hosted backend would.
+ */
+export type Permission =
+  | "submit"
+  | "edit" // any entry; artists only their own
+  | "review"
+  | "delete" // move to and restore from the trash, selection and batch edits
+  | "collect"
+  | "export"
+  | "shareEditLink"
+  | "manageCalls"
+  | "viewStats"
+  | "import"
+  | "purge"
+  | "manageArtTypes"
+  | "mergeDuplicates";
+
+const MIN_ROLE: Record<Permission, Role> = {
+  submit: "visitor",
+  edit: "curator",
+  review: "curator",
+  delete: "curator",
+  collect: "curator",
+  export: "curator",
+  shareEditLink: "curator",
+  manageCalls: "curator",
+  viewStats: "curator",
+  import: "admin",
+  purge: "admin",
+  manageArtTypes: "admin",
+  mergeDuplicates: "admin",
+};
+
+export function roleOf(user: User | null): Role {
+  return user?.role ?? "visitor";
+}
+
+export function can(user: User | null, permission: Permission, entryId?: string) {
+  if (permission === "edit" && user?.role === "artist" && entryId) return user.entryIds.includes(entryId);
+  return ROLES.indexOf(roleOf(user)) >= ROLES.indexOf(MIN_ROLE[permission]);
+}
+
+/** The least role that has a permission, for "sign in as …" hints */
+export function requiredRole(permission: Permission) {
+  return MIN_ROLE[permission];
+}
+
+/** How a user is recorded on what they change: "Sam (curator)", or "visitor" */
+export function actorName(user: User | null) {
+  return user ? `${user.name} (${ROLE_LABELS[user.role].toLowerCase()})` : "visitor";
+}
+
+export class ForbiddenError extends Error {
+  constructor(action: string) {
+    super(`Not allowed: ${action} needs a different role. Sign in and try again.`);
+    this.name = "ForbiddenError";
+  }
+}
@@ -0,0 +1,58 @@
+import { createLocalAuthProvider } from "./localAuthProvider";
+
+/**
+ * Who is using the app. Visitors are not signed in; artists hold edit links
+ * for their own entries; curators run the directory; admins also import,
+ * purge and manage the art type list. See `permissions.ts` for the rules.
+ */
+export type Role = "visitor" | "artist" | "curator" | "admin";
+
+export const ROLES: Role[] = ["visitor", "artist", "curator", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  visitor: "Visitor",
+  artist: "Artist",
+  curator: "Curator",
+  admin: "Admin",
+};
+
+export type User = {
+  id: string;
+  name: string;
+  role: Exclude<Role, "visitor">;
+  entryIds: string[]; // entries an artist may edit, claimed through edit links
+};
+
+/**
+ * Sign-in backend. Every method is async so a hosted identity service can
+ * stand behind it; `createLocalAuthProvider` is the stand-in for development.
+ */
+export interface AuthProvider {
+  /** Shown next to the sign-in controls */
+  readonly label: string;
+  /** The signed-in user, or null for a visitor */
+  currentUser(): Promise<User | null>;
+  /** Staff sign-in. A hosted provider would send the user to its login page instead */
+  signIn(name: string, role: "curator" | "admin"): Promise<User>;
+  signOut(): Promise<void>;
+  /**
+   * A secret for the edit link of one entry (a hosted provider emails the link).
+   * Issuing a new one invalidates the previous link for that entry.
+   */
+  issueEditToken(entryId: string, name: string): Promise<string>;
+  /** Sign in with a token from an edit link: as the artist, unless staff are already signed in */
+  redeemEditToken(token: string): Promise<{ user: User; entryId: string }>;
+}
+
+export type AuthBackend = "local";
+
+/** Pick the provider from Vite env (`VITE_AUTH_PROVIDER`) */
+export function createAuthProvider(env: ImportMetaEnv = import.meta.env): AuthProvider {
+  const backend = (env.VITE_AUTH_PROVIDER || "local") as AuthBackend;
+  switch (backend) {
+    case "local":
+      return createLocalAuthProvider();
+    default:
+      throw new Error(`Unknown auth provider "${backend}"`);
+  }
+}
@@ -0,0 +1,44 @@
+import { normalizeTags } from "./data";
+import { resolveLocation } from "./geo/places";
+import type { EditableFields } from "./types";
+
+/**
+ * Edits applied to every selected entry at once from the directory. Each one
+ * goes through `recordEdit`, so every entry gets its own revision as usual.
+ */
+export type BatchEdit =
+  | { kind: "artType"; artType: string }
+  | { kind: "location"; location: string }
+  | { kind: "addTags"; tags: string[] }
+  | { kind: "removeTags"; tags: string[] };
+
+export function applyBatchEdit(fields: EditableFields, edit: BatchEdit): EditableFields {
+  switch (edit.kind) {
+    case "artType":
+      // The new primary discipline is no longer listed as a further one
+      return { ...fields, artType: edit.artType, disciplines: fields.disciplines.filter((d) => d !== edit.artType) };
+    case "location":
+      return { ...fields, location: edit.location, place: resolveLocation(edit.location) };
+    case "addTags":
+      return { ...fields, tags: normalizeTags([...fields.tags, ...edit.tags]) };
+    case "removeTags": {
+      const remove = new Set(normalizeTags(edit.tags));
+      return { ...fields, tags: fields.tags.filter((t) => !remove.has(t)) };
+    }
+  }
+}
+
+/** Toast text once `count` entries have been changed */
+export function describeBatchEdit(edit: BatchEdit, count: number) {
+  const artists = count === 1 ? "1 artist" : `${count} artists`;
+  switch (edit.kind) {
+    case "artType":
+      return `Art type set to ${edit.artType} for ${artists}`;
+    case "location":
+      return `Location set to ${edit.location} for ${artists}`;
+    case "addTags":
+      return `Tagged ${artists} with ${edit.tags.map((t) => `#${t}`).join(" ")}`;
+    case "removeTags":
+      return `Removed ${edit.tags.map((t) => `#${t}`).join(" ")} from ${artists}`;
+  }
+}
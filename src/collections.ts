@@ -0,0 +1,103 @@
+/**
+ * Curator collections: named, ordered shortlists of artists (line-ups, zine
+ * features), each artist with a note. Items point at entries by id; ones whose
+ * entry is gone are skipped when shown and dropped on the next save.
+ */
+
+export type CollectionItem = { entryId: string; note: string };
+
+export type Collection = {
+  id: string;
+  name: string;
+  items: CollectionItem[]; // in running order
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  updatedBy?: string; // see auth/permissions.ts
+};
+
+export function newCollection(name: string, by?: string): Collection {
+  const at = new Date().toISOString();
+  return { id: crypto.randomUUID(), name: name.trim(), items: [], createdAt: at, updatedAt: at, updatedBy: by };
+}
+
+/** Coerce stored or imported data; items repeat an artist at most once */
+export function sanitizeCollections(list: unknown): Collection[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((c) => c && typeof c === "object" && c.id)
+    .map((c: any) => {
+      const items: CollectionItem[] = [];
+      for (const i of Array.isArray(c.items) ? c.items : []) {
+        const entryId = String(i?.entryId ?? "");
+        if (!entryId || items.some((x) => x.entryId === entryId)) continue;
+        items.push({ entryId, note: String(i.note ?? "") });
+      }
+      const createdAt = String(c.createdAt ?? new Date().toISOString());
+      return {
+        id: String(c.id),
+        name: String(c.name ?? "").trim() || "Untitled",
+        items,
+        createdAt,
+        updatedAt: String(c.updatedAt ?? createdAt),
+        updatedBy: c.updatedBy ? String(c.updatedBy) : undefined,
+      };
+    });
+}
+
+/** Apply a change to one collection, stamping `updatedAt` and `updatedBy` */
+export function updateCollection(
+  list: Collection[],
+  id: string,
+  change: (c: Collection) => Partial<Collection>,
+  by?: string
+): Collection[] {
+  const at = new Date().toISOString();
+  return list.map((c) => (c.id === id ? { ...c, ...change(c), id, updatedAt: at, updatedBy: by } : c));
+}
+
+export function toggleItem(collection: Collection, entryId: string): Partial<Collection> {
+  const has = collection.items.some((i) => i.entryId === entryId);
+  return {
+    items: has ? collection.items.filter((i) => i.entryId !== entryId) : [...collection.items, { entryId, note: "" }],
+  };
+}
+
+export function moveItem(collection: Collection, from: number, to: number): Partial<Collection> {
+  if (to < 0 || to >= collection.items.length) return {};
+  const items = [...collection.items];
+  items.splice(to, 0, ...items.splice(from, 1));
+  return { items };
+}
+
+/** Import: collections in the file replace local ones with the same id, the rest are kept */
+export function mergeCollections(local: Collection[], incoming: Collection[]) {
+  const ids = new Set(incoming.map((c) => c.id));
+  return [...local.filter((c) => !ids.has(c.id)), ...incoming];
+}
+
+/** Drop items whose entry no longer exists (purged or replaced by an import) */
+export function pruneCollections(list: Collection[], entryIds: Set<string>) {
+  return list.map((c) =>
+    c.items.every((i) => entryIds.has(i.entryId)) ? c : { ...c, items: c.items.filter((i) => entryIds.has(i.entryId)) }
+  );
+}
+
+/**
+ * After a merge: items for `fromId` point at `toId` instead. A collection that
+ * already holds both keeps the first in running order, with both notes.
+ */
+export function retargetItems(list: Collection[], fromId: string, toId: string, by?: string): Collection[] {
+  const at = new Date().toISOString();
+  return list.map((c) => {
+    if (!c.items.some((i) => i.entryId === fromId)) return c;
+    const notes = c.items.filter((i) => i.entryId === fromId || i.entryId === toId).map((i) => i.note.trim());
+    const note = [...new Set(notes.filter(Boolean))].join("\n");
+    const items: CollectionItem[] = [];
+    for (const i of c.items) {
+      const entryId = i.entryId === fromId ? toId : i.entryId;
+      if (entryId === toId && items.some((x) => x.entryId === toId)) continue;
+      items.push(entryId === toId ? { entryId, note } : i);
+    }
+    return { ...c, items, updatedAt: at, updatedBy: by };
+  });
+}
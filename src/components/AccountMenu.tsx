@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import { ROLE_LABELS, type User } from "../auth/provider";
+import { artistPath, Link } from "../router";
+
+/**
+ * Sign-in menu in the header. Staff pick a name and role; artists arrive
+ * through edit links instead, and see the entries those links gave them.
+ */
+export default function AccountMenu({
+  user,
+  providerLabel,
+  entryName,
+  onSignIn,
+  onSignOut,
+}: {
+  user: User | null;
+  providerLabel: string;
+  entryName: (id: string) => string | undefined; // undefined once an entry is gone
+  onSignIn: (name: string, role: "curator" | "admin") => Promise<boolean>;
+  onSignOut: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<"curator" | "admin">("curator");
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  // Close on a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const own = user?.role === "artist" ? user.entryIds.filter((id) => entryName(id) !== undefined) : [];
+
+  return (
+    <div ref={rootRef} className="relative" onKeyDown={(e) => e.key === "Escape" && setOpen(false)}>
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100"
+      >
+        {user ? `${user.name} · ${ROLE_LABELS[user.role]}` : "Sign in"}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-72 rounded border border-neutral-300 bg-neutral-50 p-3 shadow space-y-3 text-sm">
+          {user ? (
+            <>
+              <p className="text-neutral-600">
+                Signed in as {user.name}, {ROLE_LABELS[user.role].toLowerCase()}.
+              </p>
+              {own.length > 0 && (
+                <ul className="space-y-1">
+                  {own.map((id) => (
+                    <li key={id}>
+                      <Link to={artistPath(id)} onClick={() => setOpen(false)} className="underline">
+                        {entryName(id)}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button
+                onClick={() => {
+                  onSignOut();
+                  setOpen(false);
+                }}
+                className="underline"
+              >
+                Sign out
+              </button>
+            </>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                onSignIn(name, role).then((ok) => ok && setOpen(false));
+              }}
+              className="space-y-2"
+            >
+              <p className="text-neutral-600">Staff sign-in. Artists use the edit link they got when submitting.</p>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                aria-label="Your name"
+                placeholder="Your name"
+                className="w-full rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+              />
+              <div className="flex items-center gap-2">
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as "curator" | "admin")}
+                  aria-label="Role"
+                  className="flex-1 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+                >
+                  <option value="curator">{ROLE_LABELS.curator}</option>
+                  <option value="admin">{ROLE_LABELS.admin}</option>
+                </select>
+                <button disabled={!name.trim()} className="underline disabled:opacity-40">
+                  Sign in
+                </button>
+              </div>
+            </form>
+          )}
+          <p className="text-xs text-neutral-500">Using {providerLabel}.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useMemo, useState } from "react";
+import { directoryPath, Link } from "../router";
+import {
+  addArtType,
+  categories,
+  mergeArtTypes,
+  moveArtType,
+  renameArtType,
+  unknownArtTypes,
+  updateArtType,
+  type ArtTypeMapping,
+  type ArtTypeTerm,
+} from "../taxonomy";
+
+type SaveArtTypes = (next: ArtTypeTerm[], mapping?: ArtTypeMapping, message?: string) => Promise<boolean>;
+
+/**
+ * Admin screen for the art type list: add, rename, merge, reorder, group and
+ * retire terms, and clean up spellings in use that are not on the list.
+ * Renames and merges rewrite the affected entries (`saveArtTypes` in App).
+ */
+export default function ArtTypeManager({
+  terms,
+  usage,
+  onSave,
+}: {
+  terms: ArtTypeTerm[];
+  usage: Map<string, number>; // entries per art type spelling
+  onSave: SaveArtTypes;
+}) {
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("");
+  const unknown = useMemo(() => unknownArtTypes(usage, terms), [usage, terms]);
+  const names = terms.map((t) => t.name);
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="text-lg text-pink-600">Art types</h2>
+        <p className="text-sm text-neutral-600">
+          The choices on the submission form, in this order and grouped by category. Renaming or merging a type updates
+          every artist using it; retired types stay on those artists but are no longer offered.
+        </p>
+      </div>
+
+      {unknown.length > 0 && (
+        <div className="rounded border border-pink-300 bg-pink-50 px-4 py-3 text-sm space-y-2">
+          <p className="text-pink-700">
+            {unknown.length === 1 ? "1 art type in use is" : `${unknown.length} art types in use are`} not on the list.
+            Merge each into a listed type, or add it.
+          </p>
+          <ul className="divide-y divide-pink-200">
+            {unknown.map((u) => (
+              <UnknownRow
+                key={u.name}
+                name={u.name}
+                count={u.count}
+                suggestion={u.suggestion}
+                names={names}
+                onMerge={(into) => {
+                  const merged = mergeArtTypes(terms, [u.name], into);
+                  if (merged) onSave(merged.terms, merged.mapping, `Merged "${u.name}" into ${into}`);
+                }}
+                onAdd={() => onSave(addArtType(terms, u.name), undefined, `Added ${u.name}`)}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!name.trim() || names.some((n) => n.toLowerCase() === name.trim().toLowerCase())) return;
+          onSave(addArtType(terms, name, category)).then((ok) => ok && setName(""));
+        }}
+        className="flex flex-wrap gap-2 max-w-2xl"
+      >
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="New art type"
+          placeholder="New art type, e.g. Ceramics"
+          className="flex-1 min-w-[12rem] rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+        />
+        <input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          list="ll-art-categories"
+          aria-label="Category"
+          placeholder="Category (optional)"
+          className="w-56 rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+        />
+        <button disabled={!name.trim()} className="px-3 py-2 rounded border border-neutral-300 disabled:opacity-40">
+          Add
+        </button>
+        <datalist id="ll-art-categories">
+          {categories(terms).map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+      </form>
+      {name.trim() && names.some((n) => n.toLowerCase() === name.trim().toLowerCase()) && (
+        <p className="-mt-4 text-xs text-pink-700">Already on the list.</p>
+      )}
+
+      <ol className="divide-y divide-neutral-200">
+        {terms.map((t, i) => (
+          <TermRow
+            key={t.name}
+            term={t}
+            count={usage.get(t.name) ?? 0}
+            names={names}
+            position={i}
+            last={i === terms.length - 1}
+            onRename={(to) => {
+              const renamed = renameArtType(terms, t.name, to);
+              if (!renamed) return false;
+              onSave(renamed.terms, renamed.mapping, `Renamed ${t.name} to ${to.trim()}`);
+              return true;
+            }}
+            onMerge={(into) => {
+              const merged = mergeArtTypes(terms, [t.name], into);
+              if (merged) onSave(merged.terms, merged.mapping, `Merged ${t.name} into ${into}`);
+            }}
+            onChange={(patch) => onSave(updateArtType(terms, t.name, patch))}
+            onMove={(to) => onSave(moveArtType(terms, i, to))}
+          />
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+function TermRow({
+  term,
+  count,
+  names,
+  position,
+  last,
+  onRename,
+  onMerge,
+  onChange,
+  onMove,
+}: {
+  term: ArtTypeTerm;
+  count: number;
+  names: string[];
+  position: number;
+  last: boolean;
+  onRename: (to: string) => boolean; // false when the name is taken
+  onMerge: (into: string) => void;
+  onChange: (patch: Partial<Omit<ArtTypeTerm, "name">>) => void;
+  onMove: (to: number) => void;
+}) {
+  const [name, setName] = useState(term.name);
+  const [category, setCategory] = useState(term.category);
+  const [taken, setTaken] = useState(false);
+
+  function saveName() {
+    if (!name.trim() || name.trim() === term.name) return setName(term.name);
+    const ok = onRename(name);
+    setTaken(!ok);
+    if (!ok) setName(term.name);
+  }
+
+  return (
+    <li className={`py-2 flex flex-wrap items-center gap-3 text-sm ${term.retired ? "text-neutral-400" : ""}`}>
+      <div className="flex gap-1">
+        <button
+          onClick={() => onMove(position - 1)}
+          disabled={position === 0}
+          aria-label="Move up"
+          className="px-1 disabled:opacity-30"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => onMove(position + 1)}
+          disabled={last}
+          aria-label="Move down"
+          className="px-1 disabled:opacity-30"
+        >
+          ↓
+        </button>
+      </div>
+      <div className="flex-1 min-w-[10rem]">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveName}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          aria-label={`Rename ${term.name}`}
+          className="w-full bg-transparent border-b border-transparent hover:border-neutral-300 focus:border-neutral-500 outline-none"
+        />
+        {taken && <p className="text-xs text-pink-700">That name is taken; merge into it instead.</p>}
+      </div>
+      <input
+        value={category}
+        onChange={(e) => setCategory(e.target.value)}
+        onBlur={() => category.trim() !== term.category && onChange({ category: category.trim() })}
+        list="ll-art-categories"
+        aria-label={`Category of ${term.name}`}
+        placeholder="No category"
+        className="w-44 bg-transparent border-b border-transparent hover:border-neutral-300 focus:border-neutral-500 outline-none"
+      />
+      <Link to={directoryPath({ art: [term.name] })} className="w-20 text-xs text-neutral-500 hover:underline">
+        {count === 1 ? "1 artist" : `${count} artists`}
+      </Link>
+      <MergeInto names={names.filter((n) => n !== term.name)} onMerge={onMerge} />
+      <button onClick={() => onChange({ retired: !term.retired })} className="underline">
+        {term.retired ? "Restore" : "Retire"}
+      </button>
+    </li>
+  );
+}
+
+function UnknownRow({
+  name,
+  count,
+  suggestion,
+  names,
+  onMerge,
+  onAdd,
+}: {
+  name: string;
+  count: number;
+  suggestion?: string;
+  names: string[];
+  onMerge: (into: string) => void;
+  onAdd: () => void;
+}) {
+  return (
+    <li className="py-2 flex flex-wrap items-center gap-3">
+      <span className="flex-1 min-w-[10rem]">"{name}"</span>
+      <Link to={directoryPath({ art: [name] })} className="w-20 text-xs text-neutral-500 hover:underline">
+        {count === 1 ? "1 artist" : `${count} artists`}
+      </Link>
+      <MergeInto names={names} initial={suggestion} onMerge={onMerge} />
+      <button onClick={onAdd} className="underline">
+        Add to list
+      </button>
+    </li>
+  );
+}
+
+function MergeInto({
+  names,
+  initial = "",
+  onMerge,
+}: {
+  names: string[];
+  initial?: string;
+  onMerge: (into: string) => void;
+}) {
+  const [into, setInto] = useState(initial);
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (into) onMerge(into);
+      }}
+      className="flex items-center gap-2"
+    >
+      <select
+        value={into}
+        onChange={(e) => setInto(e.target.value)}
+        aria-label="Merge into"
+        className="rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+      >
+        <option value="">Merge into…</option>
+        {names.map((n) => (
+          <option key={n}>{n}</option>
+        ))}
+      </select>
+      <button disabled={!into} className="underline disabled:opacity-40">
+        Merge
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import type { BatchEdit } from "../batch";
+
+/** Toolbar for the directory's selection: batch edits, delete and export */
+export default function BatchActions({
+  count,
+  matching,
+  artTypes,
+  knownLocations,
+  knownTags,
+  onEdit,
+  onDelete,
+  onExportJson,
+  onExportCsv,
+  onSelectAll,
+  onClear,
+}: {
+  count: number;
+  matching: number; // entries matching the current search and filters
+  artTypes: string[]; // offered on the art type select
+  knownLocations: string[];
+  knownTags: string[];
+  onEdit: (edit: BatchEdit) => void;
+  onDelete: () => void;
+  onExportJson: () => void;
+  onExportCsv: () => void;
+  onSelectAll: () => void;
+  onClear: () => void;
+}) {
+  const [artType, setArtType] = useState("");
+  const [location, setLocation] = useState("");
+  const [tagInput, setTagInput] = useState("");
+  const tags = tagInput.split(",").filter((t) => t.trim());
+  const disabled = count === 0;
+
+  return (
+    <div className="sticky top-16 z-[5] rounded border border-neutral-300 bg-neutral-50 p-3 space-y-3 text-sm shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-bold">{count === 1 ? "1 artist selected" : `${count} artists selected`}</span>
+        <button onClick={onSelectAll} disabled={count === matching} className="underline disabled:opacity-40">
+          Select all {matching} matching
+        </button>
+        <button onClick={onClear} disabled={disabled} className="underline disabled:opacity-40">
+          Clear selection
+        </button>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={onExportJson}
+            disabled={disabled}
+            className="px-3 py-1 rounded border border-neutral-300 disabled:opacity-40"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={onExportCsv}
+            disabled={disabled}
+            className="px-3 py-1 rounded border border-neutral-300 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={onDelete}
+            disabled={disabled}
+            title="Move the selected artists to the trash"
+            className="px-3 py-1 rounded border border-pink-300 text-pink-700 hover:bg-pink-50 disabled:opacity-40"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-end gap-x-6 gap-y-3">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (artType) onEdit({ kind: "artType", artType });
+          }}
+          className="flex items-center gap-2"
+        >
+          <select
+            value={artType}
+            onChange={(e) => setArtType(e.target.value)}
+            aria-label="Art type"
+            className="rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+          >
+            <option value="">Art type…</option>
+            {artTypes.map((opt) => (
+              <option key={opt}>{opt}</option>
+            ))}
+          </select>
+          <button disabled={disabled || !artType} className="underline disabled:opacity-40">
+            Set
+          </button>
+        </form>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (location.trim()) onEdit({ kind: "location", location: location.trim() });
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            list="ll-batch-locations"
+            aria-label="Location"
+            placeholder="Location…"
+            className="w-44 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+          />
+          <datalist id="ll-batch-locations">
+            {knownLocations.map((l) => (
+              <option key={l} value={l} />
+            ))}
+          </datalist>
+          <button disabled={disabled || !location.trim()} className="underline disabled:opacity-40">
+            Set
+          </button>
+        </form>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (tags.length) onEdit({ kind: "addTags", tags });
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            list="ll-batch-tags"
+            aria-label="Tags, comma separated"
+            placeholder="Tags, comma separated…"
+            className="w-52 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+          />
+          <datalist id="ll-batch-tags">
+            {knownTags.map((t) => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+          <button disabled={disabled || !tags.length} className="underline disabled:opacity-40">
+            Add
+          </button>
+          <button
+            type="button"
+            onClick={() => onEdit({ kind: "removeTags", tags })}
+            disabled={disabled || !tags.length}
+            className="underline disabled:opacity-40"
+          >
+            Remove
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
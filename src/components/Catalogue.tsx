@@ -0,0 +1,96 @@
+import { entryArtTypes, imageAlt } from "../data";
+import { recogniseLink } from "../links";
+import { useImageSrc } from "../media/assetStore";
+import { Link } from "../router";
+import type { ArtistEntry } from "../types";
+
+export type CatalogueItem = { entry: ArtistEntry; note?: string };
+
+/**
+ * Print-ready catalogue: one section per artist with cover image, bio, curator
+ * note and links written out in full, since paper cannot be clicked. The app's
+ * header and footer are hidden in print; the browser's Print saves a PDF too.
+ */
+export default function Catalogue({
+  title,
+  subtitle,
+  items,
+  backTo,
+}: {
+  title: string;
+  subtitle?: string;
+  items: CatalogueItem[];
+  backTo: string;
+}) {
+  return (
+    <article className="space-y-8 print:text-black">
+      <div className="flex items-center justify-between gap-3 text-sm print:hidden">
+        <Link to={backTo} className="underline">
+          ← Back
+        </Link>
+        <button onClick={() => window.print()} className="px-3 py-1.5 rounded border border-neutral-300">
+          Print
+        </button>
+      </div>
+      <header className="space-y-1">
+        <h2 className="text-2xl text-pink-600 print:text-black">{title}</h2>
+        {subtitle && <p className="text-sm text-neutral-600">{subtitle}</p>}
+        <p className="text-xs text-neutral-500">
+          {items.length === 1 ? "1 artist" : `${items.length} artists`} • {new Date().toLocaleDateString()}
+        </p>
+      </header>
+      {items.length === 0 && <p className="text-neutral-400">Nothing to print.</p>}
+      {items.map((item, i) => (
+        <CatalogueSection key={item.entry.id} item={item} number={i + 1} />
+      ))}
+    </article>
+  );
+}
+
+function CatalogueSection({ item: { entry, note }, number }: { item: CatalogueItem; number: number }) {
+  // Full size and loaded straight away: print does not wait for lazy images
+  const cover = useImageSrc(entry.images[0]?.src, "full");
+  return (
+    <section className="grid sm:grid-cols-[16rem_1fr] print:grid-cols-[16rem_1fr] gap-6 border-t border-neutral-300 pt-6 break-inside-avoid">
+      {cover ? (
+        <img
+          src={cover}
+          alt={imageAlt(entry.images[0], entry.name, 0)}
+          className="w-full max-h-72 object-contain object-top"
+        />
+      ) : (
+        <div />
+      )}
+      <div className="space-y-2">
+        <h3 className="text-lg leading-tight">
+          <span className="text-neutral-400 mr-2">{number}.</span>
+          {entry.name}
+        </h3>
+        <p className="text-sm text-neutral-600">
+          {entryArtTypes(entry).join(", ")}
+          {entry.location && ` • ${entry.location}`}
+        </p>
+        {note && <p className="text-sm italic border-l-2 border-pink-300 pl-3">{note}</p>}
+        {entry.bio && <p className="text-sm whitespace-pre-line">{entry.bio}</p>}
+        {entry.images[0]?.caption && <p className="text-xs text-neutral-500">Pictured: {entry.images[0].caption}</p>}
+        {entry.links.length > 0 && (
+          <ul className="text-xs space-y-0.5">
+            {entry.links.map((link, i) => {
+              const url = recogniseLink(link.url, link.label)?.url;
+              return (
+                url && (
+                  <li key={i}>
+                    {link.label || "Link"}: <span className="break-all">{url.replace(/^https?:\/\//, "")}</span>
+                  </li>
+                )
+              );
+            })}
+          </ul>
+        )}
+        {entry.tags.length > 0 && (
+          <p className="text-xs text-neutral-500">{entry.tags.map((t) => `#${t}`).join(" ")}</p>
+        )}
+      </div>
+    </section>
+  );
+}
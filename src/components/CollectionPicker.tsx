@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react";
+import type { Collection } from "../collections";
+
+/** "Collect" menu on an artist: tick the collections they belong to, or start a new one */
+export default function CollectionPicker({
+  entryId,
+  collections,
+  onToggle,
+  onCreate,
+}: {
+  entryId: string;
+  collections: Collection[];
+  onToggle: (collectionId: string, entryId: string) => void;
+  onCreate: (name: string, entryId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const memberOf = collections.filter((c) => c.items.some((i) => i.entryId === entryId)).length;
+
+  // Close on a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  return (
+    <div ref={rootRef} className="relative" onKeyDown={(e) => e.key === "Escape" && setOpen(false)}>
+      <button onClick={() => setOpen(!open)} aria-expanded={open} className="text-xs underline">
+        {memberOf ? `Collected (${memberOf})` : "Collect"}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-64 rounded border border-neutral-300 bg-neutral-50 p-3 shadow space-y-3 text-sm">
+          {collections.length === 0 && <p className="text-neutral-500">No collections yet.</p>}
+          <ul className="space-y-1 max-h-48 overflow-auto">
+            {collections.map((c) => (
+              <li key={c.id}>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={c.items.some((i) => i.entryId === entryId)}
+                    onChange={() => onToggle(c.id, entryId)}
+                  />
+                  <span className="truncate">{c.name}</span>
+                  <span className="ml-auto text-xs text-neutral-500">{c.items.length}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!name.trim()) return;
+              onCreate(name, entryId);
+              setName("");
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-label="New collection name"
+              placeholder="New collection…"
+              className="min-w-0 flex-1 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+            />
+            <button disabled={!name.trim()} className="underline disabled:opacity-40">
+              Add
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react";
+import { CSV_TARGET_LABELS, detectTarget, mapCsvRows, parseCsv, type CsvTarget } from "../csv";
+
+/**
+ * Column-mapping step for spreadsheet imports. Headers are matched to entry
+ * fields automatically, every row is validated, and only valid rows continue
+ * to the regular import preview.
+ */
+export default function CsvImport({
+  text,
+  fileName,
+  onContinue,
+  onCancel,
+}: {
+  text: string;
+  fileName: string;
+  onContinue: (records: Record<string, unknown>[]) => void;
+  onCancel: () => void;
+}) {
+  const [headers, rows] = useMemo(() => {
+    const all = parseCsv(text);
+    return [all[0] ?? [], all.slice(1)] as const;
+  }, [text]);
+  const [mapping, setMapping] = useState<CsvTarget[]>(() => headers.map(detectTarget));
+  const [showValid, setShowValid] = useState(false);
+
+  const results = useMemo(() => mapCsvRows(headers, rows, mapping), [headers, rows, mapping]);
+  const valid = results.filter((r) => r.record);
+  const invalid = results.filter((r) => !r.record);
+  const missing = (["name", "artType", "location"] as CsvTarget[]).filter((t) => !mapping.includes(t));
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg text-pink-600">Map spreadsheet columns</h2>
+          <p className="text-sm text-neutral-600">
+            {fileName}: {rows.length} rows, {headers.length} columns.
+          </p>
+        </div>
+        <button onClick={onCancel} className="text-sm underline">
+          Cancel
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-neutral-500">
+              <th className="py-1 pr-4 font-normal">Column</th>
+              <th className="py-1 pr-4 font-normal">Sample</th>
+              <th className="py-1 font-normal">Maps to</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((h, col) => (
+              <tr key={col} className="border-t border-neutral-200">
+                <td className="py-2 pr-4">{h || <span className="text-neutral-400">(blank)</span>}</td>
+                <td className="py-2 pr-4 text-neutral-500 max-w-xs truncate">
+                  {rows.find((r) => r[col]?.trim())?.[col] ?? ""}
+                </td>
+                <td className="py-2">
+                  <select
+                    value={mapping[col]}
+                    onChange={(e) =>
+                      setMapping((prev) => prev.map((t, i) => (i === col ? (e.target.value as CsvTarget) : t)))
+                    }
+                    className="rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+                  >
+                    {(Object.keys(CSV_TARGET_LABELS) as CsvTarget[]).map((t) => (
+                      <option key={t} value={t}>
+                        {CSV_TARGET_LABELS[t]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-pink-700">
+          No column is mapped to: {missing.map((t) => CSV_TARGET_LABELS[t]).join(", ")}.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm">
+          {valid.length} valid row(s), {invalid.length} with errors.
+          {valid.length > 0 && (
+            <button onClick={() => setShowValid(!showValid)} className="ml-2 underline">
+              {showValid ? "Hide valid rows" : "Show valid rows"}
+            </button>
+          )}
+        </p>
+        {invalid.length > 0 && (
+          <ul className="rounded border border-pink-300 bg-pink-50 px-4 py-3 text-xs text-pink-700 space-y-0.5 max-h-64 overflow-y-auto">
+            {invalid.map((r) => (
+              <li key={r.row}>
+                Row {r.row}: {r.errors.join("; ")}
+              </li>
+            ))}
+          </ul>
+        )}
+        {showValid && (
+          <ul className="rounded border border-neutral-200 px-4 py-3 text-xs text-neutral-600 space-y-0.5 max-h-64 overflow-y-auto">
+            {valid.map((r) => (
+              <li key={r.row}>
+                Row {r.row}: {String(r.record!.name)} • {String(r.record!.artType)} • {String(r.record!.location)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4 border-t border-neutral-200 pt-4">
+        <button
+          onClick={() => onContinue(valid.map((r) => r.record!))}
+          disabled={valid.length === 0}
+          className="rounded border border-neutral-400 px-5 py-2.5 hover:bg-neutral-100 disabled:opacity-50"
+        >
+          Continue with {valid.length} row(s)
+        </button>
+        {invalid.length > 0 && <span className="text-sm text-neutral-500">Rows with errors are skipped.</span>}
+      </div>
+    </section>
+  );
+}
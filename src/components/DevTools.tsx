@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { generateEntries } from "../dev/generateEntries";
+import { facetCounts, NO_FACETS } from "../facets";
+import { buildIndex, search, sortHits, SORT_LABELS, type SortKey } from "../search";
+import type { ArtistEntry } from "../types";
+
+// Queries timed by the benchmark: a plain word, a typo, a field filter
+const BENCH_QUERIES = ["paint", "photgraphy", "loc:berlin"];
+
+/**
+ * Development-only panel (never bundled in production): fills the store with
+ * generated artists and times the directory's search, facets and sorting.
+ */
+export default function DevTools({
+  entries,
+  storageLabel,
+  onImport,
+}: {
+  entries: ArtistEntry[];
+  storageLabel: string;
+  onImport: (list: ArtistEntry[]) => Promise<boolean>;
+}) {
+  const [count, setCount] = useState(2000);
+  const [seed, setSeed] = useState(1);
+  const [busy, setBusy] = useState(false);
+  const [timings, setTimings] = useState<[string, number][]>([]);
+
+  async function generate(replace: boolean) {
+    if (replace && !confirm(`Replace all ${entries.length} entries with ${count} generated ones?`)) return;
+    setBusy(true);
+    // A new seed each run keeps ids unique when adding repeatedly
+    const list = generateEntries(count, seed);
+    const ok = await onImport(replace ? list : [...entries, ...list]);
+    setBusy(false);
+    if (ok) setSeed((s) => s + 1);
+  }
+
+  function benchmark() {
+    const time = <T,>(label: string, fn: () => T): T => {
+      const start = performance.now();
+      const result = fn();
+      results.push([label, performance.now() - start]);
+      return result;
+    };
+    const results: [string, number][] = [];
+    const approved = entries.filter((e) => e.status === "approved");
+    const index = time("Build index", () => buildIndex(approved));
+    const all = time("List (no query)", () => search(index, ""));
+    BENCH_QUERIES.forEach((q) => time(`Search "${q}"`, () => search(index, q)));
+    time("Facet counts", () => facetCounts(all, (h) => h.entry, NO_FACETS));
+    (Object.keys(SORT_LABELS) as SortKey[])
+      .filter((key) => key !== "relevance")
+      .forEach((key) => time(`Sort by ${SORT_LABELS[key].toLowerCase()}`, () => sortHits(all, key)));
+    setTimings(results);
+  }
+
+  return (
+    <details className="rounded border border-dashed border-neutral-300 p-3">
+      <summary className="cursor-pointer">Dev tools</summary>
+      <div className="mt-3 space-y-3">
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="block">
+            <span className="block text-xs">Artists</span>
+            <input
+              type="number"
+              min={1}
+              max={50000}
+              value={count}
+              onChange={(e) => setCount(Math.max(1, Number(e.target.value) || 1))}
+              className="mt-1 w-28 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs">Seed</span>
+            <input
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(Number(e.target.value) || 0)}
+              className="mt-1 w-20 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+            />
+          </label>
+          <button
+            onClick={() => generate(false)}
+            disabled={busy}
+            className="px-3 py-1.5 rounded border border-neutral-300 disabled:opacity-50"
+          >
+            Add generated
+          </button>
+          <button
+            onClick={() => generate(true)}
+            disabled={busy}
+            className="px-3 py-1.5 rounded border border-neutral-300 disabled:opacity-50"
+          >
+            Replace all
+          </button>
+          <button onClick={benchmark} disabled={busy} className="px-3 py-1.5 rounded border border-neutral-300">
+            Benchmark
+          </button>
+        </div>
+        {storageLabel === "localStorage" && (
+          <p className="text-xs">
+            localStorage holds about 5 MB, roughly a few thousand artists. Run with VITE_STORAGE_BACKEND=indexeddb to
+            try larger sets.
+          </p>
+        )}
+        {timings.length > 0 && (
+          <table className="text-xs">
+            <tbody>
+              {timings.map(([label, ms]) => (
+                <tr key={label}>
+                  <td className="pr-4">{label}</td>
+                  <td className="text-right tabular-nums">{ms.toFixed(1)} ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMemo, useState } from "react";
+import { findDuplicates, loadDismissed, pairKey, saveDismissed } from "../duplicates";
+import { artistPath, duplicatesPath, Link } from "../router";
+import type { ArtistEntry } from "../types";
+
+/**
+ * Possible duplicates among the live entries, pending ones included, best
+ * match first. Each pair opens the merge screen or is set aside as "Not
+ * duplicates", which this browser remembers.
+ */
+export default function DuplicateList({ entries }: { entries: ArtistEntry[] }) {
+  const [dismissed, setDismissed] = useState(loadDismissed);
+  const pairs = useMemo(() => findDuplicates(entries, dismissed), [entries, dismissed]);
+
+  function update(next: Set<string>) {
+    saveDismissed(next);
+    setDismissed(next);
+  }
+
+  return (
+    <section className="space-y-4 max-w-3xl">
+      <div>
+        <h2 className="text-lg text-pink-600">Possible duplicates</h2>
+        <p className="text-sm text-neutral-600">
+          Artists with the same or a similar name, or a link in common. Merging keeps the older entry unless you choose
+          otherwise; the other goes to the trash.
+        </p>
+      </div>
+
+      {pairs.length === 0 ? (
+        <p className="text-center text-neutral-400 py-10">No likely duplicates.</p>
+      ) : (
+        <ul className="divide-y divide-neutral-200 border-y border-neutral-200">
+          {pairs.map((p) => (
+            <li key={pairKey(p.a.id, p.b.id)} className="py-3 flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1">
+                <p>
+                  <EntryLink entry={p.a} /> <span className="text-neutral-400">and</span> <EntryLink entry={p.b} />
+                </p>
+                <p className="text-xs text-neutral-500">
+                  {p.score}% — {p.reasons.map((r) => r.detail).join("; ")}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm">
+                <Link to={duplicatesPath(p.a.id, p.b.id)} className="underline">
+                  Compare and merge
+                </Link>
+                <button onClick={() => update(new Set(dismissed).add(pairKey(p.a.id, p.b.id)))} className="underline">
+                  Not duplicates
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {dismissed.size > 0 && (
+        <button onClick={() => update(new Set())} className="text-xs underline text-neutral-500">
+          Show the {dismissed.size === 1 ? "pair" : `${dismissed.size} pairs`} marked as not duplicates again
+        </button>
+      )}
+    </section>
+  );
+}
+
+function EntryLink({ entry }: { entry: ArtistEntry }) {
+  return (
+    <span>
+      <Link to={artistPath(entry.id)} className="underline">
+        {entry.name}
+      </Link>
+      <span className="text-xs text-neutral-500">
+        {" "}
+        ({entry.artType}
+        {entry.location && `, ${entry.location}`}
+        {entry.status !== "approved" && `, ${entry.status}`})
+      </span>
+    </span>
+  );
+}
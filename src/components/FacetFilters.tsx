@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { FACETS, toggleValue, type FacetDef, type FacetFilters, type FacetKey, type FacetValue } from "../facets";
+
+// Long facets (locations, tags) show this many values until expanded
+const COLLAPSED_VALUES = 8;
+
+/** Directory sidebar: one checkbox list per facet, each value with its live count */
+export default function FacetFilters({
+  counts,
+  filters,
+  onChange,
+}: {
+  counts: Record<FacetKey, FacetValue[]>;
+  filters: FacetFilters;
+  onChange: (patch: Partial<FacetFilters>) => void;
+}) {
+  return (
+    <div className="space-y-6">
+      {FACETS.map((def) => (
+        <FacetGroup key={def.key} def={def} values={counts[def.key]} filters={filters} onChange={onChange} />
+      ))}
+    </div>
+  );
+}
+
+function FacetGroup({
+  def,
+  values,
+  filters,
+  onChange,
+}: {
+  def: FacetDef;
+  values: FacetValue[];
+  filters: FacetFilters;
+  onChange: (patch: Partial<FacetFilters>) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? values : values.slice(0, COLLAPSED_VALUES);
+  const mode = def.matchKey ? filters[def.matchKey] : "any";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm text-pink-600">{def.label}</h3>
+        {def.matchKey && (
+          <div
+            className="flex text-xs border border-neutral-300 rounded overflow-hidden"
+            title="How ticked values combine"
+          >
+            {(["any", "all"] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => onChange({ [def.matchKey!]: m })}
+                aria-pressed={mode === m}
+                className={`px-2 py-0.5 ${mode === m ? "bg-neutral-200" : "hover:bg-neutral-100"}`}
+              >
+                {m === "any" ? "Any" : "All"}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {values.length === 0 && <p className="text-xs text-neutral-400">None in these results.</p>}
+      <ul className="space-y-1 text-sm">
+        {shown.map((v) => (
+          <li key={v.value}>
+            <label className={`flex items-center gap-2 ${v.count === 0 && !v.selected ? "text-neutral-400" : ""}`}>
+              <input
+                type="checkbox"
+                checked={v.selected}
+                onChange={() => onChange(toggleValue(filters, def.key, v.value))}
+              />
+              <span className="flex-1 truncate">{v.value}</span>
+              <span className="text-xs text-neutral-500 tabular-nums">{v.count}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {values.length > COLLAPSED_VALUES && (
+        <button type="button" onClick={() => setExpanded(!expanded)} className="text-xs underline">
+          {expanded ? "Show fewer" : `Show all (${values.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
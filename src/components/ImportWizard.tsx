@@ -0,0 +1,253 @@
+import { useMemo, useState } from "react";
+import {
+  applyImport,
+  defaultChoice,
+  planImport,
+  type ImportChange,
+  type ImportChoices,
+  type ImportItem,
+  type ImportKind,
+  type ImportStrategy,
+} from "../importMerge";
+import type { ExportSource } from "../exportFormat";
+import { FIELD_LABELS } from "../revisions";
+import { CURRENT_SCHEMA_VERSION, describeFailures, type MigrationFailure } from "../schema";
+import type { ArtistEntry } from "../types";
+
+/**
+ * Import preview: shows how an incoming file lines up with the current entries
+ * and lets the curator choose how to combine them before anything is saved.
+ */
+export default function ImportWizard({
+  local,
+  incoming,
+  fileName,
+  fromVersion,
+  source,
+  failures = [],
+  onCommit,
+  onCancel,
+}: {
+  local: ArtistEntry[];
+  incoming: ArtistEntry[];
+  fileName?: string;
+  fromVersion: number;
+  source?: ExportSource;
+  failures?: MigrationFailure[];
+  onCommit: (list: ArtistEntry[]) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const plan = useMemo(() => planImport(local, incoming), [local, incoming]);
+  const [strategy, setStrategy] = useState<ImportStrategy>("keep-local");
+  const [choices, setChoices] = useState<ImportChoices>({});
+  const [show, setShow] = useState<ImportKind>(
+    plan.counts.conflict ? "conflict" : plan.counts.changed ? "changed" : "added"
+  );
+  const [saving, setSaving] = useState(false);
+
+  const result = useMemo(() => applyImport(local, plan, strategy, choices), [local, plan, strategy, choices]);
+  const removed =
+    strategy === "replace" ? local.filter((l) => !plan.items.some((i) => i.local?.id === l.id)).length : 0;
+
+  async function commit() {
+    if (
+      strategy === "replace" &&
+      removed > 0 &&
+      !confirm(`Replace all entries? ${removed} local entries will be removed.`)
+    )
+      return;
+    setSaving(true);
+    await onCommit(result);
+    setSaving(false);
+  }
+
+  const visible = plan.items.filter((i) => i.kind === show);
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg text-pink-600">Import preview</h2>
+          <p className="text-sm text-neutral-600">
+            {fileName ? `${fileName}: ` : ""}
+            {incoming.length} incoming, {local.length} current. Nothing is saved until you confirm.
+          </p>
+          <p className="text-xs text-neutral-500">
+            {fromVersion === 0 ? "Legacy export (no version)" : `Schema version ${fromVersion}`}
+            {fromVersion < CURRENT_SCHEMA_VERSION && `, upgraded to ${CURRENT_SCHEMA_VERSION}`}
+            {source && ` • exported from ${source.origin} (${source.backend}, app ${source.appVersion})`}
+          </p>
+        </div>
+        <button onClick={onCancel} className="text-sm underline">
+          Cancel
+        </button>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="rounded border border-pink-300 bg-pink-50 px-4 py-3 text-sm text-pink-700">
+          {failures.length} record(s) in the file could not be migrated and will be skipped:
+          <ul className="mt-1 list-disc list-inside text-xs">
+            {describeFailures(failures).map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        {IMPORT_KINDS.map((k) => (
+          <button
+            key={k}
+            onClick={() => setShow(k)}
+            className={`px-3 py-1.5 rounded border ${show === k ? "border-neutral-500" : "border-neutral-300 hover:bg-neutral-100"}`}
+          >
+            {KIND_LABELS[k]} ({plan.counts[k]})
+          </button>
+        ))}
+      </div>
+
+      <fieldset className="space-y-1 text-sm">
+        <legend className="mb-1">How to combine</legend>
+        {STRATEGIES.map((s) => (
+          <label key={s.value} className="flex items-start gap-2">
+            <input
+              type="radio"
+              name="ll-import-strategy"
+              checked={strategy === s.value}
+              onChange={() => setStrategy(s.value)}
+              className="mt-1"
+            />
+            <span>
+              {s.label} <span className="text-neutral-500">— {s.hint}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="space-y-3">
+        {visible.map((item, i) => (
+          <ImportRow
+            key={`${item.incoming.id}-${i}`}
+            item={item}
+            pick={item.local ? (choices[item.incoming.id] ?? defaultChoice(item, strategy)) : undefined}
+            editable={strategy === "manual" && (item.kind === "changed" || item.kind === "conflict")}
+            onPick={(pick) => setChoices((prev) => ({ ...prev, [item.incoming.id]: pick }))}
+          />
+        ))}
+        {visible.length === 0 && (
+          <div className="text-center text-neutral-400 py-6">Nothing {KIND_LABELS[show].toLowerCase()}.</div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4 border-t border-neutral-200 pt-4">
+        <button
+          onClick={commit}
+          disabled={saving}
+          className="rounded border border-neutral-400 px-5 py-2.5 hover:bg-neutral-100 disabled:opacity-50"
+        >
+          {saving ? "Importing…" : `Import (${result.length} entries after import)`}
+        </button>
+        {removed > 0 && <span className="text-sm text-pink-700">{removed} local entries will be removed.</span>}
+      </div>
+    </section>
+  );
+}
+
+function ImportRow({
+  item,
+  pick,
+  editable,
+  onPick,
+}: {
+  item: ImportItem;
+  pick?: "local" | "incoming";
+  editable: boolean;
+  onPick: (pick: "local" | "incoming") => void;
+}) {
+  const [open, setOpen] = useState(item.kind === "conflict");
+  const { incoming, local } = item;
+
+  return (
+    <div className="border border-neutral-200 rounded p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <span className="text-pink-600">{incoming.name || "(no name)"}</span>
+          <span className="text-sm text-neutral-600">
+            {" "}
+            • {incoming.artType} • {incoming.location}
+          </span>
+          {item.matchedBy === "name+links" && (
+            <span className="ml-2 text-xs text-neutral-500">matched by name and links (different id)</span>
+          )}
+          {item.kind === "changed" && item.newer && (
+            <span className="ml-2 text-xs text-neutral-500">
+              {item.newer === "incoming" ? "file" : "local"} is newer
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          {local && item.changes.length > 0 && (
+            <>
+              {editable ? (
+                <>
+                  <label className="flex items-center gap-1">
+                    <input type="radio" checked={pick === "local"} onChange={() => onPick("local")} /> Keep local
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input type="radio" checked={pick === "incoming"} onChange={() => onPick("incoming")} /> Use file
+                  </label>
+                </>
+              ) : (
+                <span className="text-xs text-neutral-500">{pick === "incoming" ? "Using file" : "Keeping local"}</span>
+              )}
+              <button onClick={() => setOpen(!open)} className="underline">
+                {open ? "Hide diff" : `Diff (${item.changes.length})`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {open && item.changes.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+          <div className="text-neutral-500">Local</div>
+          <div className="text-neutral-500">File</div>
+          {item.changes.map((c) => (
+            <FieldDiff key={c.field} change={c} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FieldDiff({ change }: { change: ImportChange }) {
+  const label = change.field === "status" ? "Status" : FIELD_LABELS[change.field];
+  return (
+    <>
+      <div className="rounded bg-neutral-100 p-2">
+        <div className="text-neutral-600">{label}</div>
+        <p className="whitespace-pre-wrap">{change.before || "—"}</p>
+      </div>
+      <div className="rounded bg-neutral-100 p-2">
+        <div className="text-neutral-600">{label}</div>
+        <p className="whitespace-pre-wrap">{change.after || "—"}</p>
+      </div>
+    </>
+  );
+}
+
+const IMPORT_KINDS: ImportKind[] = ["conflict", "changed", "added", "unchanged"];
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  added: "New",
+  changed: "Changed",
+  unchanged: "Unchanged",
+  conflict: "Conflicts",
+};
+
+const STRATEGIES: { value: ImportStrategy; label: string; hint: string }[] = [
+  { value: "keep-local", label: "Merge, keep local", hint: "add new records; conflicts keep the local version" },
+  { value: "keep-incoming", label: "Merge, keep file", hint: "add new records; conflicts take the file's version" },
+  { value: "manual", label: "Merge, choose each", hint: "pick local or file for every changed record" },
+  { value: "replace", label: "Replace all", hint: "the file becomes the whole directory" },
+];
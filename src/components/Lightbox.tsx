@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from "react";
+import { imageAlt } from "../data";
+import { useImageSrc } from "../media/assetStore";
+import type { ArtworkImage } from "../types";
+
+// Horizontal travel, px, that counts as a swipe rather than a tap
+const SWIPE_DISTANCE = 50;
+
+/**
+ * Full-screen viewer for an artist's images. Arrow keys, Home/End and swipes
+ * move between images; Escape, the close button or a tap outside the image closes.
+ */
+export default function Lightbox({
+  images,
+  start,
+  name,
+  onClose,
+}: {
+  images: ArtworkImage[];
+  start: number;
+  name: string; // artist, for default alt text
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState(start);
+  const image = images[index];
+  const url = useImageSrc(image?.src, "full");
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const swipe = useRef<{ x: number; y: number } | null>(null);
+  const many = images.length > 1;
+
+  // Take focus and stop the page scrolling behind; give both back on close
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    const overflow = document.body.style.overflow;
+    dialogRef.current?.focus();
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+      previous?.focus();
+    };
+  }, []);
+
+  if (!image) return null;
+
+  function go(delta: number) {
+    setIndex((i) => (i + delta + images.length) % images.length);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    const keys: Record<string, () => void> = {
+      Escape: onClose,
+      ArrowLeft: () => go(-1),
+      ArrowRight: () => go(1),
+      Home: () => setIndex(0),
+      End: () => setIndex(images.length - 1),
+    };
+    if (e.key === "Tab") {
+      // Keep focus inside the dialog
+      const focusable = Array.from(dialogRef.current?.querySelectorAll<HTMLElement>("button") ?? []);
+      const at = focusable.indexOf(document.activeElement as HTMLElement);
+      const next = e.shiftKey ? (at <= 0 ? focusable.length - 1 : at - 1) : (at + 1) % focusable.length;
+      e.preventDefault();
+      focusable[next]?.focus();
+      return;
+    }
+    if (!keys[e.key]) return;
+    e.preventDefault();
+    keys[e.key]();
+  }
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${name}: image ${index + 1} of ${images.length}`}
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      className="fixed inset-0 z-50 bg-neutral-900/95 text-neutral-100 flex flex-col outline-none"
+    >
+      <div className="flex items-center justify-between px-4 py-3 text-sm">
+        <span>
+          {name}
+          {many && (
+            <span className="text-neutral-400">
+              {" "}
+              — {index + 1} / {images.length}
+            </span>
+          )}
+        </span>
+        <button onClick={onClose} aria-label="Close" className="px-2 py-1 rounded hover:bg-neutral-800">
+          ✕
+        </button>
+      </div>
+      <div
+        className="relative flex-1 min-h-0 flex items-center justify-center px-4 touch-pan-y select-none"
+        onClick={(e) => e.target === e.currentTarget && onClose()}
+        onPointerDown={(e) => (swipe.current = { x: e.clientX, y: e.clientY })}
+        onPointerUp={(e) => {
+          const s = swipe.current;
+          swipe.current = null;
+          if (!s || !many) return;
+          const dx = e.clientX - s.x;
+          if (Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(e.clientY - s.y)) go(dx < 0 ? 1 : -1);
+        }}
+        onPointerCancel={() => (swipe.current = null)}
+      >
+        {url ? (
+          <img
+            src={url}
+            alt={imageAlt(image, name, index)}
+            draggable={false}
+            className="max-w-full max-h-full object-contain"
+          />
+        ) : (
+          <span className="text-neutral-500 text-sm">Loading…</span>
+        )}
+        {many && (
+          <>
+            <button
+              onClick={() => go(-1)}
+              aria-label="Previous image"
+              className="absolute left-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-neutral-800/80 hover:bg-neutral-700"
+            >
+              ‹
+            </button>
+            <button
+              onClick={() => go(1)}
+              aria-label="Next image"
+              className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-neutral-800/80 hover:bg-neutral-700"
+            >
+              ›
+            </button>
+          </>
+        )}
+      </div>
+      <p className="px-4 py-3 min-h-[3rem] text-sm text-center text-neutral-300">{image.caption}</p>
+    </div>
+  );
+}
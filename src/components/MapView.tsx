@@ -0,0 +1,212 @@
+import { useMemo, useRef, useState } from "react";
+import { placeLabel } from "../geo/places";
+import { lakes, land, MAP_HEIGHT, MAP_WIDTH, project, ringPath } from "../geo/worldOutline";
+import { artistPath, directoryPath, Link } from "../router";
+import type { ArtistEntry } from "../types";
+
+type Cluster = { key: string; label: string; x: number; y: number; entries: ArtistEntry[]; city: boolean };
+
+const MAX_ZOOM = 8;
+
+// Static, so build the outline once
+const LAND_PATH = land.map(ringPath).join("");
+const LAKES_PATH = lakes.map(ringPath).join("");
+
+/**
+ * Directory map: one pin per city (or per country when only the country is
+ * known), sized by how many artists are there. Click a pin to list them.
+ */
+export default function MapView({ entries }: { entries: ArtistEntry[] }) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [view, setView] = useState({ zoom: 1, cx: MAP_WIDTH / 2, cy: MAP_HEIGHT / 2 });
+  const drag = useRef<{ x: number; y: number; cx: number; cy: number; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const { clusters, unplaced } = useMemo(() => {
+    const byKey = new Map<string, Cluster>();
+    const unplaced: ArtistEntry[] = [];
+    for (const e of entries) {
+      if (!e.place) {
+        unplaced.push(e);
+        continue;
+      }
+      const label = placeLabel(e.place);
+      const cluster = byKey.get(label);
+      if (cluster) cluster.entries.push(e);
+      else {
+        const [x, y] = project(e.place.lon, e.place.lat);
+        byKey.set(label, { key: label, label, x, y, entries: [e], city: !!e.place.city });
+      }
+    }
+    // Big clusters last, so they draw on top
+    const clusters = Array.from(byKey.values()).sort((a, b) => a.entries.length - b.entries.length);
+    return { clusters, unplaced };
+  }, [entries]);
+
+  const active = clusters.find((c) => c.key === selected);
+
+  const w = MAP_WIDTH / view.zoom;
+  const h = MAP_HEIGHT / view.zoom;
+  const clamp = (v: number, size: number, max: number) => Math.min(Math.max(v, size / 2), max - size / 2);
+  const cx = clamp(view.cx, w, MAP_WIDTH);
+  const cy = clamp(view.cy, h, MAP_HEIGHT);
+
+  function zoomBy(factor: number, at?: { x: number; y: number }) {
+    setView((v) => {
+      const zoom = Math.min(Math.max(v.zoom * factor, 1), MAX_ZOOM);
+      return at ? { zoom, cx: at.x, cy: at.y } : { ...v, zoom };
+    });
+  }
+
+  // Screen pixels → map units at the current zoom
+  function toMap(dx: number, dy: number) {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: (dx / rect.width) * w, y: (dy / rect.height) * h };
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative rounded border border-neutral-200 bg-neutral-50 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`${cx - w / 2} ${cy - h / 2} ${w} ${h}`}
+          className="w-full h-auto touch-none select-none cursor-grab active:cursor-grabbing"
+          role="img"
+          aria-label={`Map of ${entries.length - unplaced.length} artists in ${clusters.length} places`}
+          onPointerDown={(e) => {
+            drag.current = { x: e.clientX, y: e.clientY, cx, cy, moved: false };
+            e.currentTarget.setPointerCapture(e.pointerId);
+          }}
+          onPointerMove={(e) => {
+            const d = drag.current;
+            if (!d) return;
+            const { x, y } = toMap(e.clientX - d.x, e.clientY - d.y);
+            if (Math.abs(e.clientX - d.x) + Math.abs(e.clientY - d.y) > 3) d.moved = true;
+            setView((v) => ({ ...v, cx: d.cx - x, cy: d.cy - y }));
+          }}
+          onPointerUp={() => {
+            // A click (no drag) on the background clears the selection
+            if (drag.current && !drag.current.moved) setSelected(null);
+            drag.current = null;
+          }}
+        >
+          <rect x={0} y={0} width={MAP_WIDTH} height={MAP_HEIGHT} className="fill-neutral-50" />
+          <path d={LAND_PATH} className="fill-neutral-200" />
+          <path d={LAKES_PATH} className="fill-neutral-50" />
+          {clusters.map((c) => {
+            const r = (4 + Math.sqrt(c.entries.length) * 3) / Math.sqrt(view.zoom);
+            const isActive = c.key === selected;
+            return (
+              <g
+                key={c.key}
+                transform={`translate(${c.x} ${c.y})`}
+                className="cursor-pointer"
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => setSelected(isActive ? null : c.key)}
+                role="button"
+                tabIndex={0}
+                aria-label={`${c.label}: ${c.entries.length} artist(s)`}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === " ") {
+                    e.preventDefault();
+                    setSelected(isActive ? null : c.key);
+                  }
+                }}
+              >
+                <title>{`${c.label} — ${c.entries.length}`}</title>
+                <circle
+                  r={r}
+                  className={`${isActive ? "fill-pink-600" : c.city ? "fill-pink-400" : "fill-neutral-400"} stroke-white`}
+                  strokeWidth={1 / Math.sqrt(view.zoom)}
+                  fillOpacity={0.85}
+                />
+                {c.entries.length > 1 && (
+                  <text
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fontSize={r * 1.1}
+                    className="fill-white pointer-events-none"
+                  >
+                    {c.entries.length}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+        <div className="absolute top-2 right-2 flex flex-col gap-1 text-sm">
+          <button
+            onClick={() => zoomBy(2)}
+            aria-label="Zoom in"
+            className="w-8 h-8 rounded border border-neutral-300 bg-neutral-50"
+          >
+            +
+          </button>
+          <button
+            onClick={() => zoomBy(0.5)}
+            aria-label="Zoom out"
+            className="w-8 h-8 rounded border border-neutral-300 bg-neutral-50"
+          >
+            −
+          </button>
+          <button
+            onClick={() => setView({ zoom: 1, cx: MAP_WIDTH / 2, cy: MAP_HEIGHT / 2 })}
+            aria-label="Reset map"
+            className="w-8 h-8 rounded border border-neutral-300 bg-neutral-50 text-xs"
+          >
+            ⟲
+          </button>
+        </div>
+      </div>
+
+      {active && (
+        <div className="rounded border border-neutral-200 p-4 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <h3 className="text-pink-600">
+              {active.label} <span className="text-sm text-neutral-500">({active.entries.length})</span>
+            </h3>
+            <div className="flex gap-3 text-sm">
+              <button
+                onClick={() => zoomBy(MAX_ZOOM / view.zoom / 2, { x: active.x, y: active.y })}
+                className="underline"
+              >
+                Zoom here
+              </button>
+              <Link
+                to={directoryPath(active.city ? { city: [active.label] } : { country: [active.label] })}
+                className="underline"
+              >
+                Show in directory
+              </Link>
+            </div>
+          </div>
+          <ul className="grid sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            {active.entries.map((e) => (
+              <li key={e.id}>
+                <Link to={artistPath(e.id)} className="hover:underline">
+                  {e.name}
+                </Link>{" "}
+                <span className="text-neutral-500">— {e.artType}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {unplaced.length > 0 && (
+        <p className="text-xs text-neutral-500">
+          Not on the map ({unplaced.length}), location not recognised:{" "}
+          {unplaced.map((e, i) => (
+            <span key={e.id}>
+              {i > 0 && ", "}
+              <Link to={artistPath(e.id)} className="underline">
+                {e.name}
+              </Link>{" "}
+              ({e.location || "none"})
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo, useState } from "react";
+import { MERGE_CHOICE_FIELDS, mergeFields, type MergeChoiceField, type MergeChoices } from "../duplicates";
+import { useImageSrc } from "../media/assetStore";
+import { FIELD_LABELS } from "../revisions";
+import { artistPath, duplicatesPath, Link } from "../router";
+import type { ArtistEntry, ArtworkImage } from "../types";
+
+type Side = "a" | "b";
+
+/**
+ * Two entries side by side. Name, art type, location and bio are taken from
+ * one or the other; disciplines, tags, images and links are combined. The
+ * surviving entry keeps its id, so its address, edit link, review history and
+ * collection places carry on; the other goes to the trash.
+ */
+export default function MergeEntries({
+  a,
+  b,
+  onMerge,
+}: {
+  a: ArtistEntry;
+  b: ArtistEntry;
+  onMerge: (keep: ArtistEntry, other: ArtistEntry, choices: MergeChoices) => Promise<boolean>;
+}) {
+  const entries = { a, b };
+  const [survivor, setSurvivor] = useState<Side>("a");
+  // Each field from the first entry unless only the second has it
+  const [picked, setPicked] = useState<Record<MergeChoiceField, Side>>(() => {
+    const initial = {} as Record<MergeChoiceField, Side>;
+    for (const f of MERGE_CHOICE_FIELDS) initial[f] = !a[f].trim() && b[f].trim() ? "b" : "a";
+    return initial;
+  });
+  const [saving, setSaving] = useState(false);
+
+  const keep = entries[survivor];
+  const other = entries[survivor === "a" ? "b" : "a"];
+  const choices = useMemo(() => {
+    const c = {} as MergeChoices;
+    for (const f of MERGE_CHOICE_FIELDS) c[f] = picked[f] === survivor ? "keep" : "other";
+    return c;
+  }, [picked, survivor]);
+  const { fields, dropped } = useMemo(() => mergeFields(keep, other, choices), [keep, other, choices]);
+
+  async function merge() {
+    setSaving(true);
+    const ok = await onMerge(keep, other, choices);
+    if (!ok) setSaving(false);
+  }
+
+  return (
+    <section className="space-y-6 max-w-4xl">
+      <div>
+        <Link to={duplicatesPath()} className="text-sm underline">
+          ← Possible duplicates
+        </Link>
+        <h2 className="mt-2 text-lg text-pink-600">Merge artists</h2>
+      </div>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-left align-bottom">
+            <th className="w-32" />
+            {(["a", "b"] as Side[]).map((side) => (
+              <th key={side} className="p-2 font-normal">
+                <Link to={artistPath(entries[side].id)} className="underline">
+                  {entries[side].name}
+                </Link>
+                <div className="text-xs text-neutral-500">
+                  Added {new Date(entries[side].createdAt).toLocaleDateString()}
+                  {entries[side].createdBy && ` by ${entries[side].createdBy}`} • {entries[side].status}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="align-top">
+          <tr className="border-t border-neutral-200">
+            <th className="p-2 text-left font-normal text-neutral-500">Keep</th>
+            {(["a", "b"] as Side[]).map((side) => (
+              <td key={side} className="p-2">
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" name="survivor" checked={survivor === side} onChange={() => setSurvivor(side)} />
+                  This entry, with its address and history
+                </label>
+              </td>
+            ))}
+          </tr>
+          {MERGE_CHOICE_FIELDS.map((f) => (
+            <tr key={f} className="border-t border-neutral-200">
+              <th className="p-2 text-left font-normal text-neutral-500">{FIELD_LABELS[f]}</th>
+              {(["a", "b"] as Side[]).map((side) => (
+                <td key={side} className="p-2">
+                  <label className="flex items-start gap-1.5">
+                    <input
+                      type="radio"
+                      name={f}
+                      checked={picked[f] === side}
+                      onChange={() => setPicked({ ...picked, [f]: side })}
+                      className="mt-1"
+                    />
+                    <span className={f === "bio" ? "whitespace-pre-line line-clamp-6" : ""}>
+                      {entries[side][f].trim() || <span className="text-neutral-400">Empty</span>}
+                    </span>
+                  </label>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-3 text-sm">
+        <h3 className="text-pink-600">Combined from both</h3>
+        <p>
+          <span className="text-neutral-500">{FIELD_LABELS.disciplines}:</span>{" "}
+          {fields.disciplines.join(", ") || "None"}
+        </p>
+        <p>
+          <span className="text-neutral-500">{FIELD_LABELS.tags}:</span> {fields.tags.join(", ") || "None"}
+        </p>
+        <div>
+          <p className="text-neutral-500">{FIELD_LABELS.images}</p>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {fields.images.map((img) => (
+              <Thumb key={img.src} image={img} />
+            ))}
+            {fields.images.length === 0 && "None"}
+          </div>
+        </div>
+        <div>
+          <p className="text-neutral-500">{FIELD_LABELS.links}</p>
+          <ul className="mt-1">
+            {fields.links.map((l) => (
+              <li key={l.url} className="break-all">
+                {l.label}: {l.url}
+              </li>
+            ))}
+            {fields.links.length === 0 && <li>None</li>}
+          </ul>
+        </div>
+        {(dropped.images > 0 || dropped.links > 0) && (
+          <p className="text-pink-700">
+            Over the limit and left out:{" "}
+            {[dropped.images && `${dropped.images} image(s)`, dropped.links && `${dropped.links} link(s)`]
+              .filter(Boolean)
+              .join(" and ")}
+            . They stay on the trashed entry.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <button
+          onClick={merge}
+          disabled={saving}
+          className="px-3 py-1.5 rounded border border-neutral-400 hover:bg-neutral-100 disabled:opacity-40"
+        >
+          {saving ? "Merging…" : `Merge into ${fields.name}`}
+        </button>
+        <Link to={duplicatesPath()} className="underline">
+          Cancel
+        </Link>
+        <span className="text-xs text-neutral-500">{other.name} goes to the trash; the change can be undone.</span>
+      </div>
+    </section>
+  );
+}
+
+function Thumb({ image }: { image: ArtworkImage }) {
+  const src = useImageSrc(image.src);
+  return src ? (
+    <img src={src} alt={image.alt} className="w-16 h-16 object-cover rounded border border-neutral-200" />
+  ) : (
+    <div className="w-16 h-16 rounded border border-neutral-200 bg-neutral-100" />
+  );
+}
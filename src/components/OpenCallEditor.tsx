@@ -0,0 +1,307 @@
+import { useState } from "react";
+import {
+  callStatus,
+  CALL_FIELD_KINDS,
+  describeCallDates,
+  newCallField,
+  validateOpenCall,
+  type CallField,
+  type CallFieldKind,
+  type OpenCall,
+} from "../openCalls";
+import { directoryPath, Link, submitPath } from "../router";
+
+/**
+ * One open call: brief, dates, allowed art types and the form builder for its
+ * questions. Changes collect in a draft until saved, so a half-built question
+ * never reaches the live form. App keys it on `updatedAt`, so a save starts a fresh draft.
+ */
+export default function OpenCallEditor({
+  call,
+  artTypes,
+  submissions,
+  onSave,
+  onDelete,
+}: {
+  call: OpenCall;
+  artTypes: string[]; // active types, to restrict the call to
+  submissions: number;
+  onSave: (next: OpenCall) => Promise<boolean>;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState(call);
+  const [kind, setKind] = useState<CallFieldKind>("text");
+  // Bumped by Discard so the question rows drop their own typing state too
+  const [resets, setResets] = useState(0);
+  const problems = validateOpenCall(draft);
+  const changed = JSON.stringify(draft) !== JSON.stringify(call);
+  const status = callStatus(call);
+
+  const set = (patch: Partial<OpenCall>) => setDraft((d) => ({ ...d, ...patch }));
+  const setField = (id: string, patch: Partial<CallField>) =>
+    set({ fields: draft.fields.map((f) => (f.id === id ? { ...f, ...patch } : f)) });
+  function moveField(from: number, to: number) {
+    if (to < 0 || to >= draft.fields.length) return;
+    const fields = [...draft.fields];
+    fields.splice(to, 0, ...fields.splice(from, 1));
+    set({ fields });
+  }
+  // Retired types the call already allows stay listed so they can be taken off
+  const typeChoices = [...artTypes, ...draft.artTypes.filter((t) => !artTypes.includes(t))];
+
+  return (
+    <section className="space-y-6 max-w-3xl">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <Link to="/calls" className="text-sm underline">
+            ← Open calls
+          </Link>
+          <h2 className="mt-2 text-lg text-pink-600">{call.title}</h2>
+          <p className="text-xs text-neutral-500">
+            {describeCallDates(call)} • {submissions === 1 ? "1 submission" : `${submissions} submissions`} • Updated{" "}
+            {new Date(call.updatedAt).toLocaleString()}
+            {call.updatedBy && ` by ${call.updatedBy}`}
+          </p>
+        </div>
+        <div className="flex gap-3 text-sm">
+          <Link to={directoryPath({ call: call.id })} className="underline">
+            In the directory
+          </Link>
+          {status === "open" && (
+            <Link to={submitPath(call.id)} className="underline">
+              Open the form
+            </Link>
+          )}
+          <button
+            onClick={() => {
+              const note = submissions ? ` Its ${submissions} submission(s) stay, without the call.` : "";
+              if (confirm(`Delete the call "${call.title}"?${note}`)) onDelete();
+            }}
+            className="underline text-pink-700"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <label className="block text-sm">
+          Title
+          <input
+            value={draft.title}
+            onChange={(e) => set({ title: e.target.value })}
+            className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+          />
+        </label>
+        <label className="block text-sm">
+          Brief
+          <textarea
+            value={draft.brief}
+            onChange={(e) => set({ brief: e.target.value })}
+            rows={4}
+            placeholder="What the call is for and what you are looking for"
+            className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 bg-neutral-50 placeholder-neutral-400"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block text-sm">
+            Opens
+            <input
+              type="date"
+              value={draft.opensAt}
+              onChange={(e) => set({ opensAt: e.target.value })}
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+            />
+            <span className="text-xs text-neutral-500">Empty: open now</span>
+          </label>
+          <label className="block text-sm">
+            Last day for submissions
+            <input
+              type="date"
+              value={draft.closesAt}
+              onChange={(e) => set({ closesAt: e.target.value })}
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+            />
+            <span className="text-xs text-neutral-500">Empty: no deadline</span>
+          </label>
+        </div>
+        <fieldset className="text-sm">
+          <legend>Art types</legend>
+          <p className="text-xs text-neutral-500">Tick none to accept any type.</p>
+          <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+            {typeChoices.map((t) => (
+              <label key={t} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={draft.artTypes.includes(t)}
+                  onChange={() =>
+                    set({
+                      artTypes: draft.artTypes.includes(t)
+                        ? draft.artTypes.filter((x) => x !== t)
+                        : [...draft.artTypes, t],
+                    })
+                  }
+                />
+                {t}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-pink-600">Questions</h3>
+        <p className="text-xs text-neutral-500">
+          Asked after the usual fields. Removing a question leaves earlier answers on the entries, unshown.
+        </p>
+        <ol className="space-y-3">
+          {draft.fields.map((f, i) => (
+            <FieldRow
+              key={`${f.id}:${resets}`}
+              field={f}
+              position={i}
+              last={i === draft.fields.length - 1}
+              onChange={(patch) => setField(f.id, patch)}
+              onMove={(to) => moveField(i, to)}
+              onRemove={() => set({ fields: draft.fields.filter((x) => x.id !== f.id) })}
+            />
+          ))}
+        </ol>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as CallFieldKind)}
+            aria-label="Question type"
+            className="rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+          >
+            {(Object.keys(CALL_FIELD_KINDS) as CallFieldKind[]).map((k) => (
+              <option key={k} value={k}>
+                {CALL_FIELD_KINDS[k]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => set({ fields: [...draft.fields, newCallField(kind)] })}
+            className="px-3 py-1 rounded border border-neutral-300"
+          >
+            Add question
+          </button>
+        </div>
+      </div>
+
+      {changed && problems.length > 0 && (
+        <ul className="text-sm text-pink-700 list-disc list-inside">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-3 text-sm">
+        <button
+          onClick={() => onSave({ ...draft, title: draft.title.trim() })}
+          disabled={!changed || problems.length > 0}
+          className="px-3 py-1.5 rounded border border-neutral-400 hover:bg-neutral-100 disabled:opacity-40"
+        >
+          Save call
+        </button>
+        {changed && (
+          <button
+            onClick={() => {
+              setDraft(call);
+              setResets((n) => n + 1);
+            }}
+            className="underline"
+          >
+            Discard changes
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function FieldRow({
+  field,
+  position,
+  last,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  field: CallField;
+  position: number;
+  last: boolean;
+  onChange: (patch: Partial<CallField>) => void;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}) {
+  // Typed as text so blank lines can be added while editing; saved as a list
+  const [options, setOptions] = useState(field.options.join("\n"));
+
+  return (
+    <li className="rounded border border-neutral-200 p-3 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-neutral-500 w-20">{CALL_FIELD_KINDS[field.kind]}</span>
+        <input
+          value={field.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          aria-label="Question"
+          placeholder={field.kind === "checkbox" ? "e.g. I can deliver printed work by post" : "Question"}
+          className="flex-1 rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+        />
+        <button
+          onClick={() => onMove(position - 1)}
+          disabled={position === 0}
+          aria-label="Move up"
+          className="px-1 disabled:opacity-30"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => onMove(position + 1)}
+          disabled={last}
+          aria-label="Move down"
+          className="px-1 disabled:opacity-30"
+        >
+          ↓
+        </button>
+        <button onClick={onRemove} className="underline text-pink-700">
+          Remove
+        </button>
+      </div>
+      <input
+        value={field.help}
+        onChange={(e) => onChange({ help: e.target.value })}
+        aria-label="Help text"
+        placeholder="Help text (optional)"
+        className="w-full rounded border border-neutral-300 px-2 py-1 bg-neutral-50"
+      />
+      {field.kind === "select" && (
+        <textarea
+          value={options}
+          onChange={(e) => {
+            setOptions(e.target.value);
+            onChange({
+              options: [
+                ...new Set(
+                  e.target.value
+                    .split("\n")
+                    .map((o) => o.trim())
+                    .filter(Boolean)
+                ),
+              ],
+            });
+          }}
+          rows={3}
+          aria-label="Choices"
+          placeholder="One choice per line"
+          className="w-full rounded border border-neutral-300 px-2 py-1 bg-neutral-50 placeholder-neutral-400"
+        />
+      )}
+      <label className="flex items-center gap-1.5">
+        <input type="checkbox" checked={field.required} onChange={(e) => onChange({ required: e.target.checked })} />
+        {field.kind === "checkbox" ? "Must be ticked" : "Required"}
+      </label>
+    </li>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo, useState } from "react";
+import { callStatus, describeCallDates, type OpenCall } from "../openCalls";
+import { callPath, directoryPath, Link, submitPath } from "../router";
+
+/** The open calls page: every call with its dates and submissions, and a form to start one */
+export default function OpenCallList({
+  calls,
+  submissions,
+  onCreate,
+}: {
+  calls: OpenCall[];
+  submissions: Map<string, number>; // entries per call id, any review status, trash left out
+  onCreate: (title: string) => void;
+}) {
+  const [title, setTitle] = useState("");
+  // Open calls first, then upcoming, then closed; soonest deadline first within each
+  const list = useMemo(() => {
+    const rank = { open: 0, upcoming: 1, closed: 2 };
+    return [...calls].sort(
+      (a, b) =>
+        rank[callStatus(a)] - rank[callStatus(b)] ||
+        (a.closesAt || "9999").localeCompare(b.closesAt || "9999") ||
+        a.title.localeCompare(b.title)
+    );
+  }, [calls]);
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="text-lg text-pink-600">Open calls</h2>
+        <p className="text-sm text-neutral-600">
+          Themed submission rounds with a deadline and questions of their own. While a call is open, the submission form
+          offers it.
+        </p>
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!title.trim()) return;
+          onCreate(title);
+          setTitle("");
+        }}
+        className="flex gap-2 max-w-md"
+      >
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          aria-label="New call title"
+          placeholder="New call, e.g. Zine issue 4"
+          className="flex-1 rounded border border-neutral-300 px-3 py-2 bg-neutral-50"
+        />
+        <button disabled={!title.trim()} className="px-3 py-2 rounded border border-neutral-300 disabled:opacity-40">
+          Create
+        </button>
+      </form>
+      {list.length === 0 && <p className="text-center text-neutral-400 py-10">No open calls yet.</p>}
+      <ul className="divide-y divide-neutral-200">
+        {list.map((c) => {
+          const status = callStatus(c);
+          const count = submissions.get(c.id) ?? 0;
+          return (
+            <li key={c.id} className="py-3 flex flex-wrap items-center gap-4">
+              <div className="flex-1 min-w-[12rem]">
+                <Link to={callPath(c.id)} className="text-pink-600 hover:underline">
+                  {c.title}
+                </Link>
+                <p className="text-xs text-neutral-500">
+                  {describeCallDates(c)} • {count === 1 ? "1 submission" : `${count} submissions`}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm">
+                {/* Approved ones; the rest are in the review queue */}
+                <Link to={directoryPath({ call: c.id })} className="underline">
+                  In the directory
+                </Link>
+                {status === "open" && (
+                  <Link to={submitPath(c.id)} className="underline">
+                    Form
+                  </Link>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
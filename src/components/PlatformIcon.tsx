@@ -0,0 +1,74 @@
+import type { PlatformId } from "../links";
+
+// Simplified marks drawn on a 16×16 grid in the current text colour; no icon font or network fetch
+const ICONS: Record<PlatformId, JSX.Element> = {
+  instagram: (
+    <>
+      <rect x="1.5" y="1.5" width="13" height="13" rx="3.5" fill="none" stroke="currentColor" strokeWidth="1.5" />
+      <circle cx="8" cy="8" r="3" fill="none" stroke="currentColor" strokeWidth="1.5" />
+      <circle cx="12" cy="4" r="0.9" fill="currentColor" />
+    </>
+  ),
+  bandcamp: <path d="M4.5 4h11l-4 8H.5z" fill="currentColor" />,
+  soundcloud: (
+    <path
+      d="M6 12V6.5M4 12V8M2 12v-2.5M8 12V5.2a4 4 0 0 1 6.2 3.1A2 2 0 0 1 13.5 12z"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.3"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  ),
+  behance: (
+    <text x="8" y="12" textAnchor="middle" fontSize="10" fontWeight="bold" fontFamily="sans-serif" fill="currentColor">
+      Bē
+    </text>
+  ),
+  youtube: (
+    <>
+      <rect x="0.5" y="3" width="15" height="10" rx="3" fill="currentColor" />
+      <path d="M6.5 5.5v5l4-2.5z" className="fill-neutral-50" />
+    </>
+  ),
+  vimeo: (
+    <path
+      d="M1.5 5.5l1 1c1-.8 1.6-1 2-.2.6 1.3 1.2 6.2 2.7 6.2 1.6 0 5.3-4.6 5.8-7 .4-2-1-3-3.4-1.4"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  ),
+  tiktok: (
+    <path
+      d="M9 1.5v9a2.8 2.8 0 1 1-2.8-2.8M9 1.5c.3 2 1.6 3.3 3.8 3.5"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.6"
+      strokeLinecap="round"
+    />
+  ),
+  website: (
+    <g fill="none" stroke="currentColor" strokeWidth="1.2">
+      <circle cx="8" cy="8" r="6.5" />
+      <ellipse cx="8" cy="8" rx="2.8" ry="6.5" />
+      <path d="M1.5 8h13" />
+    </g>
+  ),
+};
+
+export default function PlatformIcon({
+  platform,
+  className = "w-4 h-4",
+}: {
+  platform: PlatformId;
+  className?: string;
+}) {
+  return (
+    <svg viewBox="0 0 16 16" className={`inline-block shrink-0 ${className}`} aria-hidden="true">
+      {ICONS[platform]}
+    </svg>
+  );
+}
@@ -0,0 +1,258 @@
+import { useMemo, useState } from "react";
+import { directoryPath, Link } from "../router";
+import { computeStats, MISSING_LABELS, monthLabel, type Count, type DirectoryStats, type MissingKey } from "../stats";
+import type { ArtistEntry } from "../types";
+
+const MISSING_KEYS = Object.keys(MISSING_LABELS) as MissingKey[];
+
+// Long lists (countries, art types) show this many bars until expanded
+const COLLAPSED_BARS = 12;
+
+// Growth lines, told apart by colour and dash as well, for printouts
+const SERIES_STYLES = [
+  { stroke: "#db2777", dash: "" },
+  { stroke: "#404040", dash: "" },
+  { stroke: "#f472b6", dash: "6 3" },
+  { stroke: "#a3a3a3", dash: "6 3" },
+  { stroke: "#9d174d", dash: "2 3" },
+  { stroke: "#737373", dash: "2 3" },
+];
+
+/**
+ * The stats page: charts of the directory's approved artists, drawn in the page
+ * itself. Every bar and legend entry opens the directory with the matching filter.
+ */
+export default function StatsDashboard({
+  entries,
+  onExportCsv,
+}: {
+  entries: ArtistEntry[];
+  onExportCsv?: (stats: DirectoryStats) => void;
+}) {
+  const stats = useMemo(() => computeStats(entries), [entries]);
+  const share = (n: number) => (stats.total ? Math.round((n / stats.total) * 100) : 0);
+
+  return (
+    <section className="space-y-10">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg text-pink-600">Stats</h2>
+          <p className="text-sm text-neutral-600">
+            {stats.total === 1 ? "1 artist" : `${stats.total} artists`} in the directory; pending and trashed
+            submissions are not counted. Click a bar to see its artists.
+          </p>
+        </div>
+        {onExportCsv && (
+          <button
+            onClick={() => onExportCsv(stats)}
+            disabled={stats.total === 0}
+            className="px-3 py-2 rounded border border-neutral-300 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+        )}
+      </div>
+
+      {stats.total === 0 ? (
+        <p className="text-center text-neutral-400 py-10">No approved artists yet.</p>
+      ) : (
+        <>
+          <Chart title="Submissions per month">
+            <MonthColumns months={stats.months} />
+          </Chart>
+
+          <div className="grid md:grid-cols-2 gap-10">
+            <Chart
+              title="Art types"
+              note="Artists working in several types count under each, as in the directory's filter."
+            >
+              <BarList bars={stats.artTypes} total={stats.total} to={(label) => directoryPath({ art: [label] })} />
+            </Chart>
+            <Chart title="Countries">
+              <BarList bars={stats.countries} total={stats.total} to={(label) => directoryPath({ country: [label] })} />
+              {stats.unplaced > 0 && (
+                <p className="mt-2 text-xs text-neutral-500">
+                  Location not recognised: {stats.unplaced} ({share(stats.unplaced)}%)
+                </p>
+              )}
+            </Chart>
+          </div>
+
+          <Chart title="Missing from the profile">
+            <BarList
+              bars={MISSING_KEYS.map((k) => ({ label: MISSING_LABELS[k], count: stats.missing[k] }))}
+              total={stats.total}
+              to={(_, i) => directoryPath({ missing: MISSING_KEYS[i] })}
+              percent
+            />
+          </Chart>
+
+          <Chart title="Art type growth" note="Artists in each of the most common types, month by month.">
+            <GrowthLines stats={stats} />
+          </Chart>
+        </>
+      )}
+    </section>
+  );
+}
+
+function Chart({ title, note, children }: { title: string; note?: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-pink-600">{title}</h3>
+        {note && <p className="text-xs text-neutral-500">{note}</p>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function MonthColumns({ months }: { months: Count[] }) {
+  const max = Math.max(1, ...months.map((m) => m.count));
+  // Label the ends and each January, so long ranges stay legible
+  const labelled = (i: number) => i === 0 || i === months.length - 1 || months[i].label.endsWith("-01");
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40 border-b border-neutral-300">
+        {months.map((m) => {
+          const style = { height: `${(m.count / max) * 100}%` };
+          const title = `${monthLabel(m.label)}: ${m.count}`;
+          return m.count ? (
+            <Link
+              key={m.label}
+              to={directoryPath({ added: m.label })}
+              title={title}
+              aria-label={title}
+              style={style}
+              className="flex-1 min-w-[2px] bg-pink-300 hover:bg-pink-500"
+            />
+          ) : (
+            <span key={m.label} title={title} className="flex-1 min-w-[2px]" />
+          );
+        })}
+      </div>
+      <div className="flex gap-px text-[10px] text-neutral-500">
+        {months.map((m, i) => (
+          <span key={m.label} className="flex-1 min-w-[2px] overflow-visible whitespace-nowrap">
+            {labelled(i) ? monthLabel(m.label) : ""}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BarList({
+  bars,
+  total,
+  to,
+  percent = false,
+}: {
+  bars: Count[];
+  total: number;
+  to: (label: string, index: number) => string;
+  percent?: boolean; // show each bar as a share of all artists, not of the longest bar
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? bars : bars.slice(0, COLLAPSED_BARS);
+  const max = percent ? total : Math.max(1, ...bars.map((b) => b.count));
+
+  return (
+    <div className="space-y-1">
+      {bars.length === 0 && <p className="text-xs text-neutral-400">None.</p>}
+      <ul className="space-y-1 text-sm">
+        {shown.map((b, i) => (
+          <li key={b.label}>
+            <Link to={to(b.label, i)} className="group grid grid-cols-[8rem_1fr_3.5rem] items-center gap-2">
+              <span className="truncate group-hover:underline">{b.label}</span>
+              <span className="h-3 rounded-sm bg-neutral-100">
+                <span
+                  className="block h-full rounded-sm bg-pink-300 group-hover:bg-pink-500"
+                  style={{ width: `${(b.count / max) * 100}%` }}
+                />
+              </span>
+              <span className="text-right text-xs text-neutral-500 tabular-nums">
+                {percent ? `${Math.round((b.count / Math.max(total, 1)) * 100)}%` : b.count}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+      {bars.length > COLLAPSED_BARS && (
+        <button onClick={() => setExpanded(!expanded)} className="text-xs underline">
+          {expanded ? "Show fewer" : `Show all ${bars.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function GrowthLines({ stats }: { stats: DirectoryStats }) {
+  const [width, height] = [600, 200];
+  const months = stats.months;
+  const max = Math.max(1, ...stats.growth.flatMap((g) => g.totals));
+  const x = (i: number) => (months.length > 1 ? (i / (months.length - 1)) * width : width / 2);
+  const y = (n: number) => height - (n / max) * height;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <span className="absolute -top-1 left-0 text-[10px] text-neutral-500">{max}</span>
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label="Running total of artists per art type"
+          className="w-full h-48 border-b border-l border-neutral-300 overflow-visible"
+        >
+          {stats.growth.map((g, s) => {
+            const { stroke, dash } = SERIES_STYLES[s % SERIES_STYLES.length];
+            const points = g.totals.map((n, i) => `${x(i)},${y(n)}`).join(" ");
+            return months.length > 1 ? (
+              <polyline
+                key={g.artType}
+                points={points}
+                fill="none"
+                stroke={stroke}
+                strokeWidth={2}
+                strokeDasharray={dash}
+                vectorEffect="non-scaling-stroke"
+              >
+                <title>{`${g.artType}: ${g.totals[g.totals.length - 1]}`}</title>
+              </polyline>
+            ) : (
+              <circle key={g.artType} cx={x(0)} cy={y(g.totals[0])} r={4} fill={stroke}>
+                <title>{`${g.artType}: ${g.totals[0]}`}</title>
+              </circle>
+            );
+          })}
+        </svg>
+      </div>
+      <div className="flex justify-between text-[10px] text-neutral-500">
+        <span>{monthLabel(months[0].label)}</span>
+        {months.length > 1 && <span>{monthLabel(months[months.length - 1].label)}</span>}
+      </div>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        {stats.growth.map((g, s) => {
+          const { stroke, dash } = SERIES_STYLES[s % SERIES_STYLES.length];
+          return (
+            <li key={g.artType}>
+              <Link
+                to={directoryPath({ art: [g.artType] })}
+                className="inline-flex items-center gap-1.5 hover:underline"
+              >
+                <svg width="20" height="6" aria-hidden>
+                  <line x1="0" y1="3" x2="20" y2="3" stroke={stroke} strokeWidth={2} strokeDasharray={dash} />
+                </svg>
+                {g.artType}
+                <span className="text-xs text-neutral-500">{g.totals[g.totals.length - 1]}</span>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
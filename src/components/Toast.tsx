@@ -0,0 +1,48 @@
+import { useEffect } from "react";
+
+// Long enough to read the message and reach the button
+const TOAST_MS = 8000;
+
+/**
+ * Short-lived notice at the bottom of the screen with an optional action
+ * (usually Undo). Closes itself after a few seconds; hovering does not pause it.
+ */
+export default function Toast({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+}: {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+}) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [onDismiss]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 print:hidden flex items-center gap-4 rounded bg-neutral-800 text-neutral-100 px-4 py-3 text-sm shadow-lg"
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={() => {
+            onAction();
+            onDismiss();
+          }}
+          className="underline text-pink-300"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-neutral-400 hover:text-neutral-100">
+        ✕
+      </button>
+    </div>
+  );
+}
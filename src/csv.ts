@@ -0,0 +1,253 @@
+import { REVIEW_STATUSES } from "./data";
+import type { ArtistEntry } from "./types";
+
+/**
+ * CSV for spreadsheets. Export columns:
+ *   id, name, artType, disciplines, tags, location, bio, links, images, status, createdAt, updatedAt
+ * Flattened lists:
+ *   disciplines, tags — joined with " | ", e.g. "Street Art | Typography"
+ *   links  — "Label: URL" items joined with " | ", e.g. "Instagram: instagram.com/zedk | Website: zedk.net"
+ *   images — image references (`src`) joined with " | ", cover first. Uploaded images are `asset:`
+ *            refs that only resolve in the browser that holds them; captions and alt text are
+ *            not included. Use JSON export to move image files and their descriptions.
+ */
+
+export const LIST_SEPARATOR = " | ";
+
+export const CSV_COLUMNS = [
+  "id",
+  "name",
+  "artType",
+  "disciplines",
+  "tags",
+  "location",
+  "bio",
+  "links",
+  "images",
+  "status",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+/** RFC 4180 parser; also accepts `;` or tab delimiters (detected from the header row) */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === "") quoted = true;
+    else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Spreadsheets often leave trailing empty lines
+  return rows
+    .filter((r) => r.some((f) => f.trim() !== ""))
+    .map((r) => r.map((f) => (f.startsWith("'") && FORMULA_START.test(f.slice(1)) ? f.slice(1) : f)));
+}
+
+function detectDelimiter(text: string) {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = [",", ";", "\t"].map((d) => [d, header.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+// Spreadsheets run cells starting with these as formulas; a leading ' keeps them as text
+const FORMULA_START = /^[=+\-@]/;
+
+export function toCsv(rows: string[][]) {
+  const cell = (raw: string) => {
+    const v = FORMULA_START.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  };
+  return rows.map((r) => r.map(cell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function entriesToCsv(entries: ArtistEntry[]) {
+  return toCsv([
+    [...CSV_COLUMNS],
+    ...entries.map((e) => [
+      e.id,
+      e.name,
+      e.artType,
+      e.disciplines.join(LIST_SEPARATOR),
+      e.tags.join(LIST_SEPARATOR),
+      e.location,
+      e.bio,
+      e.links.map((l) => `${l.label}: ${l.url}`).join(LIST_SEPARATOR),
+      e.images.map((i) => i.src).join(LIST_SEPARATOR),
+      e.status,
+      e.createdAt,
+      e.updatedAt ?? "",
+    ]),
+  ]);
+}
+
+/** Where a CSV column goes. "link" is a single URL column whose header becomes the label. */
+export type CsvTarget =
+  | "ignore"
+  | "id"
+  | "name"
+  | "artType"
+  | "disciplines"
+  | "tags"
+  | "location"
+  | "bio"
+  | "links"
+  | "link"
+  | "images"
+  | "status"
+  | "createdAt"
+  | "updatedAt";
+
+export const CSV_TARGET_LABELS: Record<CsvTarget, string> = {
+  ignore: "— ignore —",
+  id: "ID",
+  name: "Name",
+  artType: "Art type",
+  disciplines: "Other disciplines (… | …)",
+  tags: "Tags (… | … or commas)",
+  location: "Location (columns are joined)",
+  bio: "Bio",
+  links: "Links (Label: URL | …)",
+  link: "Single link (header is the label)",
+  images: "Images (URL | …)",
+  status: "Review status",
+  createdAt: "Created date",
+  updatedAt: "Updated date",
+};
+
+// Lower-cased header aliases; checked after stripping punctuation
+const HEADER_ALIASES: [CsvTarget, string[]][] = [
+  ["id", ["id", "uuid"]],
+  ["name", ["name", "artist", "artist name", "full name", "artistname"]],
+  ["artType", ["arttype", "art type", "type", "medium", "discipline", "practice", "category"]],
+  ["disciplines", ["disciplines", "other disciplines", "also works in", "secondary art types"]],
+  ["tags", ["tags", "tag", "keywords", "labels"]],
+  ["location", ["location", "city", "country", "where", "based in", "town", "region", "state"]],
+  ["bio", ["bio", "about", "description", "statement", "biography", "notes"]],
+  ["links", ["links", "urls"]],
+  [
+    "link",
+    [
+      "instagram",
+      "website",
+      "site",
+      "url",
+      "portfolio",
+      "bandcamp",
+      "soundcloud",
+      "behance",
+      "youtube",
+      "vimeo",
+      "tiktok",
+    ],
+  ],
+  ["images", ["images", "image", "photos", "photo", "image urls"]],
+  ["status", ["status", "review status"]],
+  ["createdAt", ["createdat", "created at", "created", "date added", "submitted", "timestamp"]],
+  ["updatedAt", ["updatedat", "updated at", "updated", "last edited"]],
+];
+
+export function detectTarget(header: string): CsvTarget {
+  const h = header
+    .toLowerCase()
+    .replace(/[_\-.]+/g, " ")
+    .replace(/[^a-z0-9 ]/g, "")
+    .trim();
+  const hit = HEADER_ALIASES.find(([, aliases]) => aliases.includes(h) || aliases.includes(h.replace(/ /g, "")));
+  return hit ? hit[0] : "ignore";
+}
+
+export type CsvRowResult = { row: number; record?: Record<string, unknown>; errors: string[] };
+
+/**
+ * Turn mapped rows into raw entry records (pre-migration shape) with per-row errors.
+ * `row` is the 1-based spreadsheet row number, counting the header as row 1.
+ */
+export function mapCsvRows(headers: string[], rows: string[][], mapping: CsvTarget[]): CsvRowResult[] {
+  return rows.map((cells, i) => {
+    const errors: string[] = [];
+    const values = (target: CsvTarget) =>
+      mapping.flatMap((t, col) => (t === target && cells[col]?.trim() ? [cells[col].trim()] : []));
+    const first = (target: CsvTarget) => values(target)[0] ?? "";
+
+    const name = first("name");
+    const artType = first("artType");
+    const location = values("location").join(", ");
+    if (!name) errors.push("Name is empty");
+    if (!artType) errors.push("Art type is empty");
+    if (!location) errors.push("Location is empty");
+
+    const links: { label: string; url: string }[] = [];
+    values("links").forEach((v) =>
+      splitList(v).forEach((item) => {
+        const m = item.match(/^([^:]+?):\s+(.+)$/);
+        if (m) links.push({ label: m[1].trim(), url: m[2].trim() });
+        else if (/^\S+$/.test(item)) links.push({ label: "Link", url: item });
+        else errors.push(`Link "${item}" should look like "Label: URL"`);
+      })
+    );
+    mapping.forEach((t, col) => {
+      const url = cells[col]?.trim();
+      if (t === "link" && url) links.push({ label: headers[col].trim() || "Link", url });
+    });
+
+    const status = first("status").toLowerCase();
+    if (status && !REVIEW_STATUSES.includes(status as never)) errors.push(`Unknown status "${first("status")}"`);
+
+    const dates: Record<string, string> = {};
+    (["createdAt", "updatedAt"] as const).forEach((t) => {
+      const v = first(t);
+      if (!v) return;
+      const d = new Date(v);
+      if (isNaN(d.getTime())) errors.push(`${CSV_TARGET_LABELS[t]} "${v}" is not a date`);
+      else dates[t] = d.toISOString();
+    });
+
+    const record: Record<string, unknown> = {
+      name,
+      artType,
+      location,
+      disciplines: values("disciplines").flatMap(splitList),
+      // Spreadsheet users tend to type tags comma-separated
+      tags: values("tags").flatMap((v) => splitList(v).flatMap((t) => t.split(","))),
+      bio: values("bio").join("\n\n"),
+      links,
+      images: values("images").flatMap(splitList),
+      ...dates,
+    };
+    if (first("id")) record.id = first("id");
+    if (status) record.status = status;
+    return { row: i + 2, record: errors.length ? undefined : record, errors };
+  });
+}
+
+function splitList(v: string) {
+  return v
+    .split(/\s*\|\s*|\r?\n/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
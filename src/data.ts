@@ -0,0 +1,265 @@
+import { resolveLocation } from "./geo/places";
+import { isAssetRef } from "./media/assetStore";
+import type {
+  ArtistEntry,
+  ArtworkImage,
+  CallAnswer,
+  EditableFields,
+  ReviewAction,
+  ReviewStatus,
+  Revision,
+} from "./types";
+
+export const REVIEW_STATUSES: ReviewStatus[] = ["pending", "approved", "rejected"];
+
+export const REVIEW_ACTION_STATUS: Record<ReviewAction, ReviewStatus> = {
+  approved: "approved",
+  rejected: "rejected",
+  sent_back: "pending",
+};
+
+/** Coerce untrusted JSON (saved data, imports, API responses) into valid entries */
+export function sanitize(list: any[]): ArtistEntry[] {
+  return list
+    .map((e) => ({
+      id: String(e.id ?? crypto.randomUUID()),
+      ...sanitizeFields(e),
+      createdAt: String(e.createdAt ?? new Date().toISOString()),
+      createdBy: e.createdBy ? String(e.createdBy) : undefined,
+      updatedAt: e.updatedAt ? String(e.updatedAt) : undefined,
+      updatedBy: e.updatedBy ? String(e.updatedBy) : undefined,
+      revisions: Array.isArray(e.revisions)
+        ? e.revisions
+            .filter((r: any) => r && r.before && typeof r.before === "object")
+            .map((r: any): Revision => ({
+              id: String(r.id ?? crypto.randomUUID()),
+              at: String(r.at ?? ""),
+              savedAt: String(r.savedAt ?? ""),
+              savedBy: r.savedBy ? String(r.savedBy) : undefined,
+              before: sanitizeFields(r.before),
+            }))
+        : [],
+      // Legacy data gets its status from migrations; anything else unrecognised waits for review
+      status: REVIEW_STATUSES.includes(e.status) ? (e.status as ReviewStatus) : "pending",
+      reviewNote: String(e.reviewNote ?? ""),
+      reviewedAt: e.reviewedAt ? String(e.reviewedAt) : undefined,
+      reviewLog: Array.isArray(e.reviewLog)
+        ? e.reviewLog
+            .filter((r: any) => r && r.action in REVIEW_ACTION_STATUS)
+            .map((r: any) => ({
+              action: r.action as ReviewAction,
+              note: String(r.note ?? ""),
+              at: String(r.at ?? ""),
+              by: r.by ? String(r.by) : undefined,
+            }))
+        : [],
+      deletedAt: e.deletedAt ? String(e.deletedAt) : undefined,
+      callId: e.callId ? String(e.callId) : undefined,
+      answers: e.callId ? sanitizeAnswers(e.answers) : undefined,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Every discipline of an entry, primary first */
+export function entryArtTypes(entry: Pick<ArtistEntry, "artType" | "disciplines">) {
+  return [entry.artType, ...entry.disciplines].filter(Boolean);
+}
+
+/** Alt text for an image: the artist's own, else its caption, else a numbered fallback */
+export function imageAlt(image: ArtworkImage, name: string, index: number) {
+  return image.alt.trim() || image.caption.trim() || `${name} — work ${index + 1}`;
+}
+
+/** Trim, drop blanks and duplicates (case-insensitive), keeping the first spelling */
+export function cleanList(values: unknown[]) {
+  const seen = new Set<string>();
+  return values
+    .map((v) => String(v ?? "").trim())
+    .filter((v) => {
+      const key = v.toLowerCase();
+      if (!v || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function normalizeTags(values: unknown[]) {
+  return cleanList(
+    values.map((v) =>
+      String(v ?? "")
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+    )
+  );
+}
+
+/** Image objects from saved data; bare strings (schema < 4, older drafts) become uncaptioned images */
+export function sanitizeImages(images: unknown): ArtworkImage[] {
+  if (!Array.isArray(images)) return [];
+  return images
+    .map((i: any) =>
+      typeof i === "string"
+        ? { src: i, caption: "", alt: "" }
+        : { src: String(i?.src ?? ""), caption: String(i?.caption ?? ""), alt: String(i?.alt ?? "") }
+    )
+    .filter((i) => i.src);
+}
+
+export function sanitizeAnswers(answers: unknown): Record<string, CallAnswer> {
+  if (!answers || typeof answers !== "object" || Array.isArray(answers)) return {};
+  return Object.fromEntries(
+    Object.entries(answers).flatMap(([id, a]: [string, any]): [string, CallAnswer][] => {
+      if (typeof a === "string" || typeof a === "boolean") return [[id, a]];
+      // Uploads are `asset:` refs; anything else (a `javascript:` URL in an imported file) is dropped
+      if (a && typeof a === "object" && typeof a.src === "string" && isAssetRef(a.src)) {
+        return [
+          [
+            id,
+            {
+              name: String(a.name ?? "file"),
+              type: String(a.type ?? ""),
+              size: Number(a.size) || 0,
+              src: String(a.src),
+            },
+          ],
+        ];
+      }
+      return [];
+    })
+  );
+}
+
+function sanitizeFields(e: any): EditableFields {
+  const artType = String(e.artType ?? "");
+  const location = String(e.location ?? "");
+  return {
+    name: String(e.name ?? ""),
+    artType,
+    disciplines: Array.isArray(e.disciplines)
+      ? cleanList(e.disciplines).filter((d) => d.toLowerCase() !== artType.toLowerCase())
+      : [],
+    tags: Array.isArray(e.tags) ? normalizeTags(e.tags) : [],
+    location,
+    // Always re-derived, so gazetteer improvements reach existing entries
+    place: resolveLocation(location),
+    bio: String(e.bio ?? ""),
+    images: sanitizeImages(e.images),
+    links: Array.isArray(e.links)
+      ? e.links
+          .filter((l: any) => l && (l.url || l.label))
+          .map((l: any) => ({ label: String(l.label ?? "Link"), url: String(l.url ?? "") }))
+      : [],
+  };
+}
+
+// Sample seed entries
+export const SAMPLE_ENTRIES: ArtistEntry[] = [
+  {
+    id: "seed-1",
+    name: "Ari Kim",
+    artType: "Photography",
+    disciplines: ["Film/Video"],
+    tags: ["night", "zines"],
+    location: "Melbourne, Australia",
+    bio: "Documentary photographer exploring youth subcultures and night streets.",
+    images: [
+      {
+        src: "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='600' height='360'><rect width='100%' height='100%' fill='%23ddd'/><text x='50%' y='50%' dominant-baseline='middle' text-anchor='middle' font-family='monospace' font-size='24' fill='%23777'>Photo — placeholder</text></svg>",
+        caption: "",
+        alt: "Grey placeholder labelled Photo",
+      },
+    ],
+    links: [{ label: "Instagram", url: "instagram.com/arixphoto" }],
+    createdAt: new Date().toISOString(),
+    status: "approved",
+    reviewNote: "",
+    reviewLog: [],
+    revisions: [],
+  },
+  {
+    id: "seed-2",
+    name: "Maya Lopes",
+    artType: "Illustration",
+    disciplines: ["Zine/Publishing", "Collage"],
+    tags: ["risograph", "zines", "available for commission"],
+    location: "Lisbon, Portugal",
+    bio: "Bold linework, quiet characters, risograph textures.",
+    images: [],
+    links: [{ label: "Portfolio", url: "mayalopes.art" }],
+    createdAt: new Date().toISOString(),
+    status: "approved",
+    reviewNote: "",
+    reviewLog: [],
+    revisions: [],
+  },
+  {
+    id: "seed-3",
+    name: "Zed K",
+    artType: "Graffiti",
+    disciplines: ["Street Art", "Typography"],
+    tags: ["murals", "lettering"],
+    location: "Berlin, Germany",
+    bio: "Letterforms, chrome, rooftops — city as canvas.",
+    images: [
+      {
+        src: "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='600' height='360'><rect width='100%' height='100%' fill='%23eee'/><text x='50%' y='50%' dominant-baseline='middle' text-anchor='middle' font-family='monospace' font-size='24' fill='%23999'>Graffiti — placeholder</text></svg>",
+        caption: "",
+        alt: "Grey placeholder labelled Graffiti",
+      },
+    ],
+    links: [{ label: "Instagram", url: "instagram.com/zedk" }],
+    createdAt: new Date().toISOString(),
+    status: "approved",
+    reviewNote: "",
+    reviewLog: [],
+    revisions: [],
+  },
+  {
+    id: "seed-4",
+    name: "Noa Singh",
+    artType: "Creative Direction",
+    disciplines: [],
+    tags: ["branding", "music"],
+    location: "London, UK",
+    bio: "Campaign concepts for indie labels and art-led brands.",
+    images: [],
+    links: [{ label: "Website", url: "noasingh.studio" }],
+    createdAt: new Date().toISOString(),
+    status: "approved",
+    reviewNote: "",
+    reviewLog: [],
+    revisions: [],
+  },
+  {
+    id: "seed-5",
+    name: "Kōji Tanaka",
+    artType: "Sound/Music",
+    disciplines: ["Installation"],
+    tags: ["field recording", "modular"],
+    location: "Tokyo, Japan",
+    bio: "Ambient field recordings and modular synth diaries.",
+    images: [],
+    links: [{ label: "Bandcamp", url: "koji.bandcamp.com" }],
+    createdAt: new Date().toISOString(),
+    status: "approved",
+    reviewNote: "",
+    reviewLog: [],
+    revisions: [],
+  },
+  {
+    id: "seed-6",
+    name: "Saffron Blue",
+    artType: "Street Art",
+    disciplines: ["Typography"],
+    tags: ["murals", "posters", "available for commission"],
+    location: "Sydney, Australia",
+    bio: "Paste-ups, wheatpaste posters, ephemeral typography.",
+    images: [],
+    links: [{ label: "Instagram", url: "instagram.com/saffronblue" }],
+    createdAt: new Date().toISOString(),
+    status: "approved",
+    reviewNote: "",
+    reviewLog: [],
+    revisions: [],
+  },
+];
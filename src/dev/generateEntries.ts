@@ -0,0 +1,124 @@
+import { sanitize } from "../data";
+import { CITIES, COUNTRIES } from "../geo/gazetteer";
+import { activeArtTypes, DEFAULT_ART_TYPES } from "../taxonomy";
+import type { ArtistEntry } from "../types";
+
+/**
+ * Dev-only: seeded, realistic-looking entries for measuring the directory with
+ * thousands of artists. The same seed always gives the same list. Imported
+ * lazily behind `import.meta.env.DEV`, so it never ships in a production build.
+ */
+
+// prettier-ignore
+const FIRST_NAMES = [
+  "Ada", "Amara", "Ari", "Bea", "Camille", "Chen", "Dara", "Diego", "Elif", "Emeka", "Fatima", "Freya",
+  "Hana", "Ines", "Isla", "Jae", "Jonas", "Kai", "Kofi", "Lea", "Luca", "Mai", "Malik", "Mateo", "Mira",
+  "Nadia", "Noor", "Oskar", "Priya", "Rafael", "Rin", "Sami", "Sofia", "Tariq", "Thandi", "Uma", "Viktor",
+  "Wen", "Yara", "Zoe",
+];
+
+// prettier-ignore
+const LAST_NAMES = [
+  "Abbasi", "Adeyemi", "Bauer", "Costa", "Dubois", "Eriksen", "Fernández", "García", "Haddad", "Ito",
+  "Jansen", "Kim", "Kowalski", "Lopes", "Mbeki", "Moreau", "Nakamura", "Novak", "Okafor", "O'Neill",
+  "Park", "Petrov", "Quispe", "Rossi", "Santos", "Schmidt", "Singh", "Tanaka", "Nguyen", "Van Dijk",
+  "Wang", "Yilmaz", "Zhang", "Ødegaard", "Müller", "Silva",
+];
+
+// prettier-ignore
+const TAGS = [
+  "risograph", "murals", "zines", "available for commission", "analog", "35mm", "night", "portraits",
+  "lettering", "posters", "field recording", "modular", "ceramics", "textiles", "branding", "music",
+  "queer", "community", "archival", "experimental", "large format", "screenprint", "wearables", "ambient",
+];
+
+// prettier-ignore
+const BIO_OPENERS = [
+  "Works between", "Obsessed with", "Slow practice built on", "Collaborative projects about",
+  "Self-taught, mostly", "Research-led work on", "Making noise about",
+];
+
+// prettier-ignore
+const BIO_SUBJECTS = [
+  "city edges and forgotten signage", "family archives and migration", "colour, repetition and rhythm",
+  "night buses and late shifts", "coastlines and weather", "club culture and its afterglow",
+  "handmade type and street ephemera", "plants, soil and small rituals", "screens and what they hide",
+];
+
+// Ways people actually type where they are, so the resolver is exercised too
+const LOCATION_STYLES = [
+  (city: string, country: string) => `${city}, ${country}`,
+  (city: string) => city,
+  (city: string, _country: string, code: string) => `${city} ${code}`,
+  (city: string, country: string) => `${city.toLowerCase()}, ${country.toLowerCase()}`,
+];
+
+const UNRESOLVED_LOCATIONS = ["Somewhere rural", "On the road", "Between places", "Small town, big sky"];
+
+const ART_TYPES = activeArtTypes(DEFAULT_ART_TYPES);
+
+/** Small, fast, seedable PRNG (mulberry32) */
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function placeholderImage(hue: number, label: string) {
+  const svg = `<svg xmlns='http://www.w3.org/2000/svg' width='600' height='360'><rect width='100%' height='100%' fill='hsl(${hue},40%,85%)'/><text x='50%' y='50%' dominant-baseline='middle' text-anchor='middle' font-family='monospace' font-size='24' fill='hsl(${hue},30%,40%)'>${label}</text></svg>`;
+  return `data:image/svg+xml;utf8,${svg.replace(/#/g, "%23")}`;
+}
+
+export function generateEntries(count: number, seed = 1): ArtistEntry[] {
+  const rand = random(seed);
+  const pick = <T>(list: readonly T[]) => list[Math.floor(rand() * list.length)];
+  const some = <T>(list: readonly T[], max: number) =>
+    Array.from(new Set(Array.from({ length: Math.floor(rand() * (max + 1)) }, () => pick(list))));
+  const countryName = new Map(COUNTRIES.map((c) => [c.code, c.name]));
+  const now = Date.now();
+  const threeYears = 3 * 365 * 24 * 3600 * 1000;
+
+  const entries = Array.from({ length: count }, (_, i) => {
+    const name = `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`;
+    const artType = pick(ART_TYPES);
+    const city = pick(CITIES);
+    const location =
+      rand() < 0.04
+        ? pick(UNRESOLVED_LOCATIONS)
+        : pick(LOCATION_STYLES)(city.name, countryName.get(city.country) ?? city.country, city.country);
+    const handle = `${name.toLowerCase().replace(/[^a-z]+/g, "")}${i % 7 === 0 ? "" : i}`;
+    const createdAt = new Date(now - Math.floor(rand() * threeYears)).toISOString();
+    const hue = Math.floor(rand() * 360);
+    const imageCount = rand() < 0.3 ? 0 : 1 + Math.floor(rand() * 4);
+    return {
+      id: `gen-${seed}-${i}`,
+      name,
+      artType,
+      disciplines: some(ART_TYPES, 2).filter((d) => d !== artType),
+      tags: some(TAGS, 4),
+      location,
+      bio: `${pick(BIO_OPENERS)} ${pick(BIO_SUBJECTS)}. ${artType} from ${city.name}.`,
+      images: Array.from({ length: imageCount }, (_, n) => ({
+        src: placeholderImage((hue + n * 40) % 360, `${artType} ${n + 1}`),
+        caption: rand() < 0.5 ? `Untitled ${n + 1}, ${2018 + Math.floor(rand() * 7)}` : "",
+        alt: "",
+      })),
+      links: [
+        { label: "Instagram", url: `instagram.com/${handle}` },
+        ...(rand() < 0.4 ? [{ label: "Website", url: `${handle}.example.com` }] : []),
+      ],
+      createdAt,
+      revisions: [],
+      status: rand() < 0.9 ? "approved" : "pending",
+      reviewNote: "",
+      reviewLog: [],
+    };
+  });
+  // Derives `place` and applies the same clean-up as stored data
+  return sanitize(entries);
+}
@@ -0,0 +1,82 @@
+import { sanitizeAnswers, sanitizeImages } from "./data";
+import { answerFiles } from "./openCalls";
+import type { ArtworkImage, CallAnswer } from "./types";
+
+/**
+ * Unsent submission drafts, autosaved to localStorage so switching tabs or
+ * reloading does not lose typing. One draft per browser; images and call
+ * attachments in it are `asset:` refs that must survive `pruneAssets` until it
+ * is sent or discarded.
+ */
+
+export type SubmissionDraft = {
+  name: string;
+  artType: string;
+  disciplines: string[];
+  tags: string[];
+  tagInput: string;
+  location: string;
+  bio: string;
+  links: { label: string; url: string }[];
+  images: ArtworkImage[];
+  callId: string; // "" for a general submission
+  answers: Record<string, CallAnswer>;
+  savedAt: string; // ISO
+};
+
+const DRAFT_KEY = "ll_submission_draft";
+
+const strings = (v: unknown) => (Array.isArray(v) ? v.map(String) : []);
+
+export function loadDraft(): SubmissionDraft | null {
+  try {
+    const d = JSON.parse(localStorage.getItem(DRAFT_KEY) ?? "null");
+    if (!d || typeof d !== "object") return null;
+    return {
+      name: String(d.name ?? ""),
+      artType: String(d.artType ?? ""),
+      disciplines: strings(d.disciplines),
+      tags: strings(d.tags),
+      tagInput: String(d.tagInput ?? ""),
+      location: String(d.location ?? ""),
+      bio: String(d.bio ?? ""),
+      links: Array.isArray(d.links)
+        ? d.links.filter(Boolean).map((l: any) => ({ label: String(l.label ?? ""), url: String(l.url ?? "") }))
+        : [],
+      images: sanitizeImages(d.images),
+      callId: String(d.callId ?? ""),
+      answers: sanitizeAnswers(d.answers),
+      savedAt: String(d.savedAt ?? ""),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Store the draft, or clear it once nothing has been filled in */
+export function saveDraft(draft: SubmissionDraft) {
+  const filled =
+    [draft.name, draft.artType, draft.tagInput, draft.location, draft.bio].some((v) => v.trim()) ||
+    draft.disciplines.length > 0 ||
+    draft.tags.length > 0 ||
+    draft.images.length > 0 ||
+    Object.values(draft.answers).some((a) => a !== "" && a !== false) ||
+    draft.links.some((l) => l.url.trim());
+  try {
+    if (filled) localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+    else localStorage.removeItem(DRAFT_KEY);
+  } catch (e) {
+    // Quota errors etc.: the form still works, it just is not saved
+    console.error("Could not save draft", e);
+  }
+}
+
+export function clearDraft() {
+  localStorage.removeItem(DRAFT_KEY);
+}
+
+/** Asset refs the draft holds, to keep when pruning unreferenced assets */
+export function draftAssets() {
+  const draft = loadDraft();
+  return draft ? [...draft.images.map((i) => i.src), ...answerFiles(draft)] : [];
+}
@@ -0,0 +1,210 @@
+import { placeLabel } from "./geo/places";
+import { platformLabel, recogniseLink } from "./links";
+import { snapshot } from "./revisions";
+import { editDistance } from "./search";
+import { fold } from "./text";
+import type { ArtistEntry, EditableFields } from "./types";
+import { LIMITS } from "./validation";
+
+/**
+ * Duplicate artists: the same person submitted twice, or imported next to
+ * their existing entry. Pairs are scored from the name (folded, spaces and
+ * punctuation dropped, so "Zed K" and "ZedK" are equal), shared links or
+ * platform handles, and the same location. A location alone never makes a pair.
+ */
+
+export type DuplicateReason = { kind: "name" | "link" | "location"; detail: string };
+
+export type DuplicateMatch = { entry: ArtistEntry; score: number; reasons: DuplicateReason[] };
+
+export type DuplicatePair = { a: ArtistEntry; b: ArtistEntry; score: number; reasons: DuplicateReason[] };
+
+/** Scores at or above this are flagged */
+export const DUPLICATE_THRESHOLD = 50;
+
+const SCORES = { sameName: 60, similarName: 40, sharedLink: 60, sameLocation: 15 };
+
+// Names at least this alike (1 - edits / length) count as similar
+const NAME_SIMILARITY = 0.8;
+
+/** What a pair is compared on; the submission form has these before there is an entry */
+export type DuplicateProbe = Pick<ArtistEntry, "name" | "location" | "place" | "links"> & { id?: string };
+
+type Keys = { name: string; links: Map<string, string>; location: string };
+
+// Entries are compared again on every keystroke in the form; their keys only change with the entry
+const keyCache = new WeakMap<object, Keys>();
+
+function keysOf(probe: DuplicateProbe): Keys {
+  let keys = keyCache.get(probe);
+  if (!keys) {
+    keys = {
+      name: compactName(probe.name),
+      links: linkKeys(probe.links),
+      location: probe.place ? placeLabel(probe.place) : fold(probe.location.trim()),
+    };
+    keyCache.set(probe, keys);
+  }
+  return keys;
+}
+
+export function compactName(name: string) {
+  return fold(name).replace(/[^a-z0-9]/g, "");
+}
+
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  // Edits allowed before the names stop counting as similar (the epsilon keeps 5 × 0.2 at 1)
+  const max = Math.floor(longest * (1 - NAME_SIMILARITY) + 1e-9);
+  const distance = editDistance(a, b, max);
+  return distance > max ? 0 : 1 - distance / longest;
+}
+
+// Handles ("instagram:zedk") and profile URLs, each with how to describe it
+function linkKeys(links: { label: string; url: string }[]) {
+  const keys = new Map<string, string>();
+  for (const l of links) {
+    const link = recogniseLink(l.url, l.label);
+    if (!link) continue;
+    if (link.handle)
+      keys.set(`${link.platform}:${link.handle.toLowerCase()}`, `${platformLabel(link.platform)} @${link.handle}`);
+    else keys.set(link.url.toLowerCase().replace(/\/+$/, ""), link.url);
+  }
+  return keys;
+}
+
+export function scorePair(a: DuplicateProbe, b: DuplicateProbe): { score: number; reasons: DuplicateReason[] } {
+  const ka = keysOf(a);
+  const kb = keysOf(b);
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  const similarity = nameSimilarity(ka.name, kb.name);
+  if (similarity === 1) {
+    score += SCORES.sameName;
+    reasons.push({ kind: "name", detail: "Same name" });
+  } else if (similarity >= NAME_SIMILARITY) {
+    score += SCORES.similarName;
+    reasons.push({ kind: "name", detail: `Similar name (${b.name})` });
+  }
+  const shared = [...ka.links.keys()].filter((k) => kb.links.has(k));
+  if (shared.length) {
+    score += SCORES.sharedLink;
+    shared.forEach((k) => reasons.push({ kind: "link", detail: `Both list ${ka.links.get(k)}` }));
+  }
+  if (score > 0 && ka.location && ka.location === kb.location) {
+    score += SCORES.sameLocation;
+    reasons.push({ kind: "location", detail: `Both in ${a.place ? placeLabel(a.place) : a.location.trim()}` });
+  }
+  return { score: Math.min(score, 100), reasons };
+}
+
+/** Likely duplicates of one artist among `entries`, best first; for the submission form */
+export function duplicatesOf(probe: DuplicateProbe, entries: ArtistEntry[]): DuplicateMatch[] {
+  if (!compactName(probe.name) && probe.links.every((l) => !l.url.trim())) return [];
+  return entries
+    .filter((e) => e.id !== probe.id)
+    .map((entry) => ({ entry, ...scorePair(probe, entry) }))
+    .filter((m) => m.score >= DUPLICATE_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Every likely pair among `entries`, best first. Only entries sharing a link
+ * or the start or end of their name are compared, so thousands of entries do
+ * not mean millions of comparisons.
+ */
+export function findDuplicates(entries: ArtistEntry[], dismissed: Set<string> = new Set()): DuplicatePair[] {
+  const buckets = new Map<string, ArtistEntry[]>();
+  const add = (key: string, e: ArtistEntry) => buckets.set(key, [...(buckets.get(key) ?? []), e]);
+  for (const e of entries) {
+    const { name, links } = keysOf(e);
+    if (name.length >= 3) {
+      add(`head:${name.slice(0, 3)}`, e);
+      add(`tail:${name.slice(-3)}`, e);
+    }
+    links.forEach((_, key) => add(`link:${key}`, e));
+  }
+
+  const pairs = new Map<string, DuplicatePair>();
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = pairKey(bucket[i].id, bucket[j].id);
+        if (pairs.has(key) || dismissed.has(key)) continue;
+        const [a, b] = bucket[i].createdAt <= bucket[j].createdAt ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+        const { score, reasons } = scorePair(a, b);
+        if (score >= DUPLICATE_THRESHOLD) pairs.set(key, { a, b, score, reasons });
+      }
+    }
+  }
+  return [...pairs.values()].sort((x, y) => y.score - x.score || x.a.name.localeCompare(y.a.name));
+}
+
+export function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/** Fields taken whole from one side; the rest are combined */
+export const MERGE_CHOICE_FIELDS = ["name", "artType", "location", "bio"] as const;
+
+export type MergeChoiceField = (typeof MERGE_CHOICE_FIELDS)[number];
+
+export type MergeChoices = Record<MergeChoiceField, "keep" | "other">;
+
+/**
+ * The surviving entry's fields after a merge: chosen fields from either side,
+ * disciplines and tags from both, and images and links from both (the
+ * survivor's first, repeats dropped). Whatever is over the form's limits is
+ * left out and counted in `dropped`.
+ */
+export function mergeFields(keep: ArtistEntry, other: ArtistEntry, choices: MergeChoices) {
+  const pick = <F extends MergeChoiceField>(f: F) => (choices[f] === "keep" ? keep[f] : other[f]);
+  const artType = pick("artType");
+  const location = pick("location");
+  const images = [...keep.images, ...other.images.filter((i) => !keep.images.some((k) => k.src === i.src))];
+  const linkKey = (l: { label: string; url: string }) =>
+    (recogniseLink(l.url, l.label)?.url ?? l.url.trim()).toLowerCase().replace(/\/+$/, "");
+  const links = [...keep.links, ...other.links].filter(
+    (l, i, all) => all.findIndex((m) => linkKey(m) === linkKey(l)) === i
+  );
+  const fields: EditableFields = snapshot({
+    name: pick("name"),
+    artType,
+    disciplines: unique([...keep.disciplines, ...other.disciplines, keep.artType, other.artType]).filter(
+      (d) => d !== artType
+    ),
+    tags: unique([...keep.tags, ...other.tags]).slice(0, LIMITS.tags),
+    location,
+    place: location === keep.location ? keep.place : other.place,
+    bio: pick("bio"),
+    images: images.slice(0, LIMITS.images),
+    links: links.slice(0, LIMITS.links),
+  });
+  return {
+    fields,
+    dropped: { images: Math.max(0, images.length - LIMITS.images), links: Math.max(0, links.length - LIMITS.links) },
+  };
+}
+
+function unique(list: string[]) {
+  return [...new Set(list.filter(Boolean))];
+}
+
+// "Not duplicates" decisions, per browser like the submission draft
+const DISMISSED_KEY = "ll_not_duplicates";
+
+export function loadDismissed(): Set<string> {
+  try {
+    const list = JSON.parse(localStorage.getItem(DISMISSED_KEY) ?? "[]");
+    return new Set(Array.isArray(list) ? list.map(String) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+export function saveDismissed(keys: Set<string>) {
+  localStorage.setItem(DISMISSED_KEY, JSON.stringify([...keys]));
+}
@@ -0,0 +1,79 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import App from "./App";
+import { parseExport } from "./exportFormat";
+import { assetId, isAssetRef } from "./media/assetStore";
+import { migrateRecords } from "./schema";
+import type { StaticSnapshot } from "./storage/staticRepository";
+import { isTrashed } from "./trash";
+
+/**
+ * Server entry for `npm run prerender`: built with `vite build --ssr` and driven
+ * by scripts/prerender.mjs, which owns the files; this side owns the markup.
+ */
+
+export { artistMeta, directoryMeta, headTags, sitemapXml } from "./seo";
+export { artistFeed, atomFeed, feedLinkTags, FEED_PATHS } from "./feeds";
+export { PRERENDERED_PATH_META, STATIC_DATA_META } from "./storage/staticRepository";
+
+/** An image file for the script to write, and the site path the snapshot now uses for it */
+export type MediaFile = { path: string; dataUrl: string };
+
+const MEDIA_DIR = "/media";
+
+/**
+ * The public part of an export: approved entries outside the trash, with
+ * bundled images moved out to files and editing history left behind.
+ */
+export function prepareSnapshot(data: unknown, generatedAt = new Date().toISOString()) {
+  const parsed = parseExport(data);
+  const report = migrateRecords(parsed.records, parsed.schemaVersion);
+  const bundled = new Map(
+    (parsed.assets as { id?: unknown; full?: unknown }[])
+      .filter((a) => a && typeof a.full === "string")
+      .map((a) => [String(a.id), String(a.full)])
+  );
+  const media: MediaFile[] = [];
+  const mediaPath = (src: string) => {
+    const dataUrl = isAssetRef(src) ? bundled.get(assetId(src)) : undefined;
+    if (!dataUrl) return isAssetRef(src) ? undefined : src;
+    const path = `${MEDIA_DIR}/${assetId(src)}.${extension(dataUrl)}`;
+    if (!media.some((m) => m.path === path)) media.push({ path, dataUrl });
+    return path;
+  };
+
+  const entries = report.entries
+    .filter((e) => e.status === "approved" && !isTrashed(e))
+    .map((e) => ({
+      ...e,
+      // Images missing from the bundle are dropped rather than left as dead `asset:` refs
+      images: e.images.flatMap((img) => {
+        const src = mediaPath(img.src);
+        return src ? [{ ...img, src }] : [];
+      }),
+      revisions: [],
+      reviewNote: "",
+      reviewLog: [],
+      createdBy: undefined,
+      updatedBy: undefined,
+      // Answers to a call went to the curators only
+      callId: undefined,
+      answers: undefined,
+    }));
+  // Curator collections are working notes, not part of the public site
+  const snapshot: StaticSnapshot = { generatedAt, entries, collections: [] };
+  return { snapshot, media, skipped: report.failures.length };
+}
+
+export function render(url: string, snapshot: StaticSnapshot) {
+  return renderToString(
+    <React.StrictMode>
+      <App published={snapshot} url={url} />
+    </React.StrictMode>
+  );
+}
+
+function extension(dataUrl: string) {
+  const type = dataUrl.match(/^data:image\/([a-z+]+)/)?.[1] ?? "bin";
+  return type === "jpeg" ? "jpg" : type === "svg+xml" ? "svg" : type;
+}
@@ -0,0 +1,100 @@
+import { version as appVersion } from "../package.json";
+import { sanitizeCollections, type Collection } from "./collections";
+import { packAssets, type BundledAsset } from "./media/bundle";
+import { sanitizeOpenCalls, type OpenCall } from "./openCalls";
+import { CURRENT_SCHEMA_VERSION } from "./schema";
+import { sanitizeArtTypes, type ArtTypeTerm } from "./taxonomy";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Export file envelope. Records inside are in the shape of `schemaVersion`
+ * and are upgraded with `migrateRecords` on import.
+ */
+export type ExportEnvelope = {
+  format: "loveletter-export";
+  schemaVersion: number;
+  exportedAt: string; // ISO
+  source: ExportSource;
+  entries: ArtistEntry[];
+  assets: BundledAsset[];
+  collections: Collection[]; // absent from exports made before collections existed
+  artTypes: ArtTypeTerm[]; // likewise; empty when the defaults were never changed
+  openCalls: OpenCall[]; // likewise
+};
+
+export type ExportSource = {
+  app: "loveletter-site";
+  appVersion: string;
+  backend: string; // repository label
+  origin: string; // site the export was made on
+};
+
+export type ParsedExport = {
+  schemaVersion: number;
+  records: unknown[];
+  assets: unknown[];
+  collections: Collection[];
+  artTypes: ArtTypeTerm[];
+  openCalls: OpenCall[];
+  source?: ExportSource;
+  exportedAt?: string;
+};
+
+export async function createExport(
+  entries: ArtistEntry[],
+  backend: string,
+  collections: Collection[] = [],
+  artTypes: ArtTypeTerm[] = [],
+  openCalls: OpenCall[] = []
+): Promise<ExportEnvelope> {
+  return {
+    format: "loveletter-export",
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { app: "loveletter-site", appVersion, backend, origin: window.location.origin },
+    entries,
+    assets: await packAssets(entries),
+    collections,
+    artTypes,
+    openCalls,
+  };
+}
+
+/**
+ * Recognise every export format this app has written:
+ *  - bare array of entries — version 0
+ *  - `{ format: "loveletter-bundle", version: 1 }` — interim image bundle, schema 2
+ *  - `{ format: "loveletter-export", schemaVersion }` — current envelope
+ */
+export function parseExport(data: unknown): ParsedExport {
+  if (Array.isArray(data)) {
+    return { schemaVersion: 0, records: data, assets: [], collections: [], artTypes: [], openCalls: [] };
+  }
+  const d = data as any;
+  if (d && d.format === "loveletter-bundle" && Array.isArray(d.entries)) {
+    return {
+      schemaVersion: 2,
+      records: d.entries,
+      assets: d.assets ?? [],
+      collections: [],
+      artTypes: [],
+      openCalls: [],
+      exportedAt: d.exportedAt,
+    };
+  }
+  if (d && d.format === "loveletter-export" && Array.isArray(d.entries)) {
+    const schemaVersion = Number(d.schemaVersion);
+    if (!Number.isInteger(schemaVersion)) throw new Error("Export is missing its schemaVersion");
+    return {
+      schemaVersion,
+      records: d.entries,
+      assets: d.assets ?? [],
+      collections: sanitizeCollections(d.collections),
+      artTypes: sanitizeArtTypes(d.artTypes),
+      openCalls: sanitizeOpenCalls(d.openCalls),
+      source: d.source,
+      exportedAt: d.exportedAt,
+    };
+  }
+  throw new Error("Not a Love Letter export");
+}
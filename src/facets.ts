@@ -0,0 +1,115 @@
+import { entryArtTypes } from "./data";
+import { placeLabel } from "./geo/places";
+import { entryPlatforms, platformLabel } from "./links";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Directory facets. Values within a facet combine with OR ("any") or, for
+ * multi-valued facets, AND ("all"); different facets always combine with AND.
+ * Counts are live: each value's count is what the results would hold with it
+ * selected, so an OR facet is counted without its own selection applied.
+ */
+
+export type FacetKey = "art" | "country" | "city" | "tag" | "link";
+
+export type FacetMode = "any" | "all";
+
+export type FacetFilters = {
+  art: string[];
+  country: string[];
+  city: string[]; // "Berlin, Germany"; unrecognised locations appear as typed
+  tag: string[];
+  link: string[]; // platform labels: "Instagram", "Bandcamp", "Website"
+  artMatch: FacetMode;
+  tagMatch: FacetMode;
+};
+
+export type FacetValue = { value: string; count: number; selected: boolean };
+
+export type FacetDef = {
+  key: FacetKey;
+  label: string;
+  values: (entry: ArtistEntry) => string[];
+  /** Facets where an entry holds several values can require all of them */
+  matchKey?: "artMatch" | "tagMatch";
+};
+
+export const FACETS: FacetDef[] = [
+  { key: "art", label: "Art type", values: entryArtTypes, matchKey: "artMatch" },
+  { key: "country", label: "Country", values: (e) => (e.place ? [e.place.country] : []) },
+  { key: "city", label: "City", values: cityValues },
+  { key: "tag", label: "Tags", values: (e) => e.tags, matchKey: "tagMatch" },
+  { key: "link", label: "Has a link to", values: (e) => entryPlatforms(e).map(platformLabel) },
+];
+
+export const NO_FACETS: FacetFilters = {
+  art: [],
+  country: [],
+  city: [],
+  tag: [],
+  link: [],
+  artMatch: "any",
+  tagMatch: "any",
+};
+
+function cityValues(e: ArtistEntry) {
+  if (e.place) return e.place.city ? [placeLabel(e.place)] : [];
+  return e.location.trim() ? [e.location.trim()] : [];
+}
+
+function modeOf(def: FacetDef, filters: FacetFilters): FacetMode {
+  return def.matchKey ? filters[def.matchKey] : "any";
+}
+
+function matchesFacet(entry: ArtistEntry, def: FacetDef, filters: FacetFilters) {
+  const selected = filters[def.key];
+  if (selected.length === 0) return true;
+  const values = def.values(entry);
+  return modeOf(def, filters) === "all"
+    ? selected.every((v) => values.includes(v))
+    : selected.some((v) => values.includes(v));
+}
+
+/** Keep items passing every facet, optionally ignoring one (for disjunctive counts) */
+export function applyFacets<T>(items: T[], get: (item: T) => ArtistEntry, filters: FacetFilters, except?: FacetKey) {
+  const active = FACETS.filter((def) => def.key !== except && filters[def.key].length > 0);
+  if (active.length === 0) return items;
+  return items.filter((item) => active.every((def) => matchesFacet(get(item), def, filters)));
+}
+
+export function facetCounts<T>(
+  items: T[],
+  get: (item: T) => ArtistEntry,
+  filters: FacetFilters
+): Record<FacetKey, FacetValue[]> {
+  const result = {} as Record<FacetKey, FacetValue[]>;
+  for (const def of FACETS) {
+    const base = applyFacets(items, get, filters, modeOf(def, filters) === "any" ? def.key : undefined);
+    const counts = new Map<string, number>();
+    base.forEach((item) => new Set(def.values(get(item))).forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1)));
+    // A selected value stays visible (with 0) so it can still be unticked
+    filters[def.key].forEach((v) => counts.set(v, counts.get(v) ?? 0));
+    result[def.key] = Array.from(counts, ([value, count]) => ({
+      value,
+      count,
+      selected: filters[def.key].includes(value),
+    })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return result;
+}
+
+/** The narrowest location facet an entry can be found under: its city, else its country */
+export function locationFilter(entry: ArtistEntry): Partial<FacetFilters> {
+  const city = cityValues(entry);
+  if (city.length) return { city };
+  return entry.place ? { country: [entry.place.country] } : {};
+}
+
+export function hasFacets(filters: FacetFilters) {
+  return FACETS.some((def) => filters[def.key].length > 0);
+}
+
+export function toggleValue(filters: FacetFilters, key: FacetKey, value: string): Partial<FacetFilters> {
+  const list = filters[key];
+  return { [key]: list.includes(value) ? list.filter((v) => v !== value) : [...list, value] };
+}
@@ -0,0 +1,142 @@
+import { entryArtTypes } from "./data";
+import { recogniseLink } from "./links";
+import { absoluteUrl, escapeHtml, publicImage, SITE_NAME } from "./seo";
+import { artistPath } from "./router";
+import { fold } from "./text";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Public feeds, written by `npm run prerender` next to the pages: every
+ * published artist as versioned JSON (which the embeddable widget reads too)
+ * and an Atom feed of the most recently approved. They are made from the
+ * public snapshot, so nothing private gets in.
+ */
+
+/** Within a version, fields are only ever added; anything else bumps it */
+export const FEED_VERSION = 1;
+
+export const FEED_PATHS = { json: "/feeds/artists.json", atom: "/feeds/new-artists.xml" };
+
+// Entries in the Atom feed; readers only show the latest anyway
+const ATOM_ENTRIES = 50;
+
+export type FeedArtist = {
+  id: string;
+  name: string;
+  url: string; // the artist page
+  artTypes: string[]; // primary first
+  tags: string[];
+  location: string; // as the artist wrote it
+  city?: string;
+  country?: string;
+  bio: string;
+  images: { url: string; alt: string; caption: string }[]; // first is the cover
+  links: { label: string; url: string }[]; // canonical http(s) URLs only
+  approvedAt: string; // ISO
+  updatedAt: string; // ISO
+};
+
+export type ArtistFeed = {
+  version: number;
+  generatedAt: string; // ISO
+  site: string;
+  artists: FeedArtist[]; // most recently approved first
+};
+
+// The latest review of a published entry is its approval; entries from before reviews have none
+function approvedAt(entry: ArtistEntry) {
+  return entry.reviewedAt ?? entry.createdAt;
+}
+
+export function artistFeed(entries: ArtistEntry[], siteUrl: string, generatedAt: string): ArtistFeed {
+  const artists = [...entries]
+    .sort((a, b) => approvedAt(b).localeCompare(approvedAt(a)))
+    .map((e) => ({
+      id: e.id,
+      name: e.name,
+      url: absoluteUrl(artistPath(e.id), siteUrl),
+      artTypes: entryArtTypes(e),
+      tags: e.tags,
+      location: e.location,
+      city: e.place?.city,
+      country: e.place?.country,
+      bio: e.bio,
+      images: e.images
+        .filter((i) => publicImage(i.src))
+        .map((i) => ({ url: absoluteUrl(i.src, siteUrl), alt: i.alt, caption: i.caption })),
+      // Imports do not check links, so anything that is not a safe web link stays out of the feed
+      links: e.links.flatMap((l) => {
+        const link = recogniseLink(l.url, l.label);
+        return link ? [{ label: l.label, url: link.url }] : [];
+      }),
+      approvedAt: approvedAt(e),
+      updatedAt: e.updatedAt ?? e.createdAt,
+    }));
+  return { version: FEED_VERSION, generatedAt, site: absoluteUrl("/", siteUrl), artists };
+}
+
+export function atomFeed(feed: ArtistFeed) {
+  const latest = feed.artists.slice(0, ATOM_ENTRIES);
+  const updated = (a: FeedArtist) => (a.approvedAt > a.updatedAt ? a.approvedAt : a.updatedAt);
+  const entries = latest.map((a) => {
+    const summary = [a.artTypes.join(", "), a.location].filter(Boolean).join(" • ");
+    const cover = a.images[0]
+      ? `<p><img src="${escapeHtml(a.images[0].url)}" alt="${escapeHtml(a.images[0].alt)}" /></p>`
+      : "";
+    const bio = a.bio
+      .split(/\n{2,}/)
+      .filter((p) => p.trim())
+      .map((p) => `<p>${escapeHtml(p.trim())}</p>`)
+      .join("");
+    return [
+      `  <entry>`,
+      `    <title>${escapeHtml(a.name)}</title>`,
+      `    <id>${escapeHtml(a.url)}</id>`,
+      `    <link rel="alternate" href="${escapeHtml(a.url)}" />`,
+      `    <published>${a.approvedAt}</published>`,
+      `    <updated>${updated(a)}</updated>`,
+      `    <summary>${escapeHtml(summary)}</summary>`,
+      `    <content type="html">${escapeHtml(cover + bio)}</content>`,
+      ...a.artTypes.map((t) => `    <category term="${escapeHtml(t)}" />`),
+      `  </entry>`,
+    ].join("\n");
+  });
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <title>${escapeHtml(`${SITE_NAME}: new artists`)}</title>`,
+    `  <id>${escapeHtml(feed.site)}</id>`,
+    `  <link rel="alternate" href="${escapeHtml(feed.site)}" />`,
+    `  <link rel="self" href="${escapeHtml(absoluteUrl(FEED_PATHS.atom, feed.site))}" />`,
+    `  <updated>${latest.map(updated).sort().pop() ?? feed.generatedAt}</updated>`,
+    `  <author><name>${escapeHtml(SITE_NAME)}</name></author>`,
+    ...entries,
+    `</feed>`,
+    ``,
+  ].join("\n");
+}
+
+/** `<link rel="alternate">` tags announcing the feeds, for the directory's `<head>` */
+export function feedLinkTags(siteUrl: string) {
+  return [
+    `<link rel="alternate" type="application/atom+xml" title="New artists" href="${escapeHtml(absoluteUrl(FEED_PATHS.atom, siteUrl))}" />`,
+    `<link rel="alternate" type="application/json" title="Artists (JSON)" href="${escapeHtml(absoluteUrl(FEED_PATHS.json, siteUrl))}" />`,
+  ].join("\n    ");
+}
+
+export type FeedFilters = { artType?: string; location?: string };
+
+/**
+ * The widget's selection: an art type (primary or further discipline) and a
+ * place matched against city, country or the location as written, ignoring
+ * case and accents, so "melbourne" finds "Melbourne, VIC".
+ */
+export function filterFeed(artists: FeedArtist[], { artType = "", location = "" }: FeedFilters) {
+  const type = fold(artType.trim());
+  const where = fold(location.trim());
+  return artists.filter(
+    (a) =>
+      (!type || a.artTypes.some((t) => fold(t) === type)) &&
+      (!where || [a.city, a.country, a.location].some((v) => v && fold(v).includes(where)))
+  );
+}
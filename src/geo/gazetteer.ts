@@ -0,0 +1,376 @@
+/**
+ * Offline gazetteer: countries and the cities artists most often list.
+ * Coordinates are city centres (countries: rough centroids), in degrees.
+ * Aliases are matched after folding (lower case, no accents), so "Kobenhavn"
+ * or "MÜNCHEN" need no entry of their own. Within a country, list larger
+ * cities first: an ambiguous name without a country resolves to the first.
+ */
+
+export type Country = { code: string; name: string; lat: number; lon: number; aliases: string[] };
+
+export type City = {
+  name: string;
+  region: string; // state/province/nation, "" when not useful
+  regionCode?: string; // e.g. "NY", "VIC"
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lon: number;
+  aliases: string[];
+};
+
+type CountryRow = [code: string, name: string, lat: number, lon: number, aliases?: string[]];
+
+const COUNTRY_ROWS: CountryRow[] = [
+  ["AU", "Australia", -25.3, 134.5, ["aus"]],
+  ["NZ", "New Zealand", -41.3, 174.1, ["aotearoa"]],
+  [
+    "GB",
+    "United Kingdom",
+    54,
+    -2,
+    ["uk", "great britain", "britain", "england", "scotland", "wales", "northern ireland"],
+  ],
+  ["IE", "Ireland", 53.2, -8, ["eire", "republic of ireland"]],
+  ["DE", "Germany", 51.2, 10.4, ["deutschland"]],
+  ["PT", "Portugal", 39.6, -8, []],
+  ["ES", "Spain", 40.2, -3.7, ["espana"]],
+  ["FR", "France", 46.6, 2.4, []],
+  ["IT", "Italy", 42.8, 12.5, ["italia"]],
+  ["NL", "Netherlands", 52.2, 5.5, ["the netherlands", "holland", "nederland"]],
+  ["BE", "Belgium", 50.6, 4.6, ["belgique", "belgie"]],
+  ["CH", "Switzerland", 46.8, 8.2, ["schweiz", "suisse", "svizzera"]],
+  ["AT", "Austria", 47.6, 14.1, ["osterreich"]],
+  ["DK", "Denmark", 56, 10, ["danmark"]],
+  ["SE", "Sweden", 62, 15, ["sverige"]],
+  ["NO", "Norway", 61, 9, ["norge"]],
+  ["FI", "Finland", 64, 26, ["suomi"]],
+  ["IS", "Iceland", 64.9, -18.6, ["island"]],
+  ["PL", "Poland", 52, 19.4, ["polska"]],
+  ["CZ", "Czechia", 49.8, 15.5, ["czech republic"]],
+  ["HU", "Hungary", 47.2, 19.5, ["magyarorszag"]],
+  ["GR", "Greece", 39, 22, ["hellas"]],
+  ["TR", "Turkey", 39, 35, ["turkiye"]],
+  ["UA", "Ukraine", 49, 31.4, []],
+  ["RU", "Russia", 58, 56, ["russian federation"]],
+  ["EE", "Estonia", 58.6, 25, []],
+  ["LV", "Latvia", 56.9, 24.6, []],
+  ["LT", "Lithuania", 55.2, 23.9, []],
+  ["RO", "Romania", 45.9, 25, []],
+  ["RS", "Serbia", 44, 20.9, []],
+  ["HR", "Croatia", 45.1, 15.2, ["hrvatska"]],
+  ["US", "United States", 39.8, -98.6, ["usa", "united states of america", "america", "u.s.", "u.s.a."]],
+  ["CA", "Canada", 56, -106, []],
+  ["MX", "Mexico", 23.6, -102.5, []],
+  ["BR", "Brazil", -10, -52, ["brasil"]],
+  ["AR", "Argentina", -34, -64, []],
+  ["CL", "Chile", -35.7, -71.5, []],
+  ["CO", "Colombia", 4.6, -74.3, []],
+  ["PE", "Peru", -9.2, -75, []],
+  ["CU", "Cuba", 21.5, -79.5, []],
+  ["JP", "Japan", 36.2, 138.3, ["nippon", "nihon"]],
+  ["KR", "South Korea", 36, 127.8, ["korea", "republic of korea"]],
+  ["CN", "China", 35.9, 104.2, ["prc"]],
+  ["HK", "Hong Kong", 22.3, 114.2, []],
+  ["TW", "Taiwan", 23.7, 121, []],
+  ["SG", "Singapore", 1.35, 103.8, []],
+  ["TH", "Thailand", 15.9, 101, []],
+  ["VN", "Vietnam", 14.1, 108.3, ["viet nam"]],
+  ["ID", "Indonesia", -2.5, 118, []],
+  ["PH", "Philippines", 12.9, 121.8, []],
+  ["MY", "Malaysia", 4.2, 102, []],
+  ["IN", "India", 21, 78.9, ["bharat"]],
+  ["PK", "Pakistan", 30.4, 69.3, []],
+  ["BD", "Bangladesh", 23.7, 90.4, []],
+  ["LK", "Sri Lanka", 7.9, 80.8, []],
+  ["AE", "United Arab Emirates", 24, 54, ["uae"]],
+  ["IL", "Israel", 31.1, 34.9, []],
+  ["LB", "Lebanon", 33.9, 35.9, []],
+  ["IR", "Iran", 32.4, 53.7, []],
+  ["SA", "Saudi Arabia", 23.9, 45.1, []],
+  ["EG", "Egypt", 26.8, 30.8, []],
+  ["MA", "Morocco", 31.8, -7.1, []],
+  ["NG", "Nigeria", 9.1, 8.7, []],
+  ["GH", "Ghana", 7.9, -1, []],
+  ["SN", "Senegal", 14.5, -14.5, []],
+  ["KE", "Kenya", 0, 37.9, []],
+  ["ET", "Ethiopia", 9.1, 40.5, []],
+  ["ZA", "South Africa", -30.6, 22.9, ["rsa"]],
+];
+
+type CityRow = [
+  name: string,
+  country: string,
+  lat: number,
+  lon: number,
+  region?: string, // "Name" or "Name|CODE"
+  aliases?: string[],
+];
+
+const CITY_ROWS: CityRow[] = [
+  ["Melbourne", "AU", -37.81, 144.96, "Victoria|VIC"],
+  ["Sydney", "AU", -33.87, 151.21, "New South Wales|NSW"],
+  ["Brisbane", "AU", -27.47, 153.03, "Queensland|QLD"],
+  ["Perth", "AU", -31.95, 115.86, "Western Australia|WA"],
+  ["Adelaide", "AU", -34.93, 138.6, "South Australia|SA"],
+  ["Canberra", "AU", -35.28, 149.13, "Australian Capital Territory|ACT"],
+  ["Hobart", "AU", -42.88, 147.33, "Tasmania|TAS"],
+  ["Darwin", "AU", -12.46, 130.84, "Northern Territory|NT"],
+  ["Gold Coast", "AU", -28.02, 153.4, "Queensland|QLD"],
+  ["Newcastle", "AU", -32.93, 151.78, "New South Wales|NSW"],
+  ["Fremantle", "AU", -32.06, 115.75, "Western Australia|WA"],
+  ["Geelong", "AU", -38.15, 144.36, "Victoria|VIC"],
+  ["Auckland", "NZ", -36.85, 174.76, "Auckland", ["tamaki makaurau"]],
+  ["Wellington", "NZ", -41.29, 174.78, "Wellington", ["te whanganui-a-tara"]],
+  ["Christchurch", "NZ", -43.53, 172.64, "Canterbury", ["otautahi"]],
+  ["Dunedin", "NZ", -45.88, 170.5, "Otago"],
+  ["London", "GB", 51.51, -0.13, "England"],
+  ["Manchester", "GB", 53.48, -2.24, "England"],
+  ["Birmingham", "GB", 52.49, -1.89, "England"],
+  ["Glasgow", "GB", 55.86, -4.25, "Scotland"],
+  ["Edinburgh", "GB", 55.95, -3.19, "Scotland"],
+  ["Bristol", "GB", 51.45, -2.59, "England"],
+  ["Leeds", "GB", 53.8, -1.55, "England"],
+  ["Liverpool", "GB", 53.41, -2.98, "England"],
+  ["Sheffield", "GB", 53.38, -1.47, "England"],
+  ["Nottingham", "GB", 52.95, -1.15, "England"],
+  ["Newcastle upon Tyne", "GB", 54.98, -1.61, "England", ["newcastle"]],
+  ["Brighton", "GB", 50.82, -0.14, "England"],
+  ["Cardiff", "GB", 51.48, -3.18, "Wales"],
+  ["Belfast", "GB", 54.6, -5.93, "Northern Ireland"],
+  ["Dublin", "IE", 53.35, -6.26, "Leinster", ["baile atha cliath"]],
+  ["Cork", "IE", 51.9, -8.47, "Munster"],
+  ["Galway", "IE", 53.27, -9.05, "Connacht"],
+  ["Berlin", "DE", 52.52, 13.4, "Berlin"],
+  ["Hamburg", "DE", 53.55, 9.99, "Hamburg"],
+  ["Munich", "DE", 48.14, 11.58, "Bavaria", ["munchen", "muenchen"]],
+  ["Cologne", "DE", 50.94, 6.96, "North Rhine-Westphalia", ["koln", "koeln"]],
+  ["Frankfurt", "DE", 50.11, 8.68, "Hesse", ["frankfurt am main"]],
+  ["Stuttgart", "DE", 48.78, 9.18, "Baden-Württemberg"],
+  ["Düsseldorf", "DE", 51.23, 6.77, "North Rhine-Westphalia", ["duesseldorf"]],
+  ["Leipzig", "DE", 51.34, 12.37, "Saxony"],
+  ["Dresden", "DE", 51.05, 13.74, "Saxony"],
+  ["Lisbon", "PT", 38.72, -9.14, "Lisbon", ["lisboa"]],
+  ["Porto", "PT", 41.15, -8.61, "Porto", ["oporto"]],
+  ["Madrid", "ES", 40.42, -3.7, "Community of Madrid"],
+  ["Barcelona", "ES", 41.39, 2.17, "Catalonia"],
+  ["Valencia", "ES", 39.47, -0.38, "Valencian Community"],
+  ["Seville", "ES", 37.39, -5.98, "Andalusia", ["sevilla"]],
+  ["Bilbao", "ES", 43.26, -2.93, "Basque Country"],
+  ["Paris", "FR", 48.86, 2.35, "Île-de-France"],
+  ["Marseille", "FR", 43.3, 5.37, "Provence-Alpes-Côte d'Azur", ["marseilles"]],
+  ["Lyon", "FR", 45.76, 4.84, "Auvergne-Rhône-Alpes", ["lyons"]],
+  ["Toulouse", "FR", 43.6, 1.44, "Occitanie"],
+  ["Bordeaux", "FR", 44.84, -0.58, "Nouvelle-Aquitaine"],
+  ["Nantes", "FR", 47.22, -1.55, "Pays de la Loire"],
+  ["Lille", "FR", 50.63, 3.06, "Hauts-de-France"],
+  ["Rome", "IT", 41.9, 12.5, "Lazio", ["roma"]],
+  ["Milan", "IT", 45.46, 9.19, "Lombardy", ["milano"]],
+  ["Naples", "IT", 40.85, 14.27, "Campania", ["napoli"]],
+  ["Turin", "IT", 45.07, 7.69, "Piedmont", ["torino"]],
+  ["Florence", "IT", 43.77, 11.26, "Tuscany", ["firenze"]],
+  ["Bologna", "IT", 44.49, 11.34, "Emilia-Romagna"],
+  ["Venice", "IT", 45.44, 12.32, "Veneto", ["venezia"]],
+  ["Amsterdam", "NL", 52.37, 4.9, "North Holland"],
+  ["Rotterdam", "NL", 51.92, 4.48, "South Holland"],
+  ["The Hague", "NL", 52.08, 4.3, "South Holland", ["den haag", "hague"]],
+  ["Utrecht", "NL", 52.09, 5.12, "Utrecht"],
+  ["Eindhoven", "NL", 51.44, 5.47, "North Brabant"],
+  ["Brussels", "BE", 50.85, 4.35, "Brussels", ["bruxelles", "brussel"]],
+  ["Antwerp", "BE", 51.22, 4.4, "Flanders", ["antwerpen", "anvers"]],
+  ["Ghent", "BE", 51.05, 3.72, "Flanders", ["gent", "gand"]],
+  ["Zurich", "CH", 47.38, 8.54, "Zurich"],
+  ["Geneva", "CH", 46.2, 6.14, "Geneva", ["geneve", "genf"]],
+  ["Basel", "CH", 47.56, 7.59, "Basel-Stadt", ["bale"]],
+  ["Vienna", "AT", 48.21, 16.37, "Vienna", ["wien"]],
+  ["Graz", "AT", 47.07, 15.44, "Styria"],
+  ["Copenhagen", "DK", 55.68, 12.57, "Capital Region", ["kobenhavn"]],
+  ["Aarhus", "DK", 56.16, 10.2, "Central Denmark", ["arhus"]],
+  ["Stockholm", "SE", 59.33, 18.07, "Stockholm"],
+  ["Gothenburg", "SE", 57.71, 11.97, "Västra Götaland", ["goteborg"]],
+  ["Malmö", "SE", 55.6, 13, "Skåne"],
+  ["Oslo", "NO", 59.91, 10.75, "Oslo"],
+  ["Bergen", "NO", 60.39, 5.32, "Vestland"],
+  ["Helsinki", "FI", 60.17, 24.94, "Uusimaa", ["helsingfors"]],
+  ["Reykjavík", "IS", 64.15, -21.94, "Capital Region"],
+  ["Warsaw", "PL", 52.23, 21.01, "Masovia", ["warszawa"]],
+  ["Kraków", "PL", 50.06, 19.94, "Lesser Poland", ["cracow"]],
+  ["Prague", "CZ", 50.08, 14.44, "Prague", ["praha"]],
+  ["Budapest", "HU", 47.5, 19.04, "Budapest"],
+  ["Athens", "GR", 37.98, 23.73, "Attica", ["athina"]],
+  ["Thessaloniki", "GR", 40.64, 22.94, "Central Macedonia"],
+  ["Istanbul", "TR", 41.01, 28.98, "Istanbul"],
+  ["Ankara", "TR", 39.93, 32.86, "Ankara"],
+  ["Kyiv", "UA", 50.45, 30.52, "Kyiv", ["kiev"]],
+  ["Moscow", "RU", 55.76, 37.62, "Moscow", ["moskva"]],
+  ["Saint Petersburg", "RU", 59.93, 30.34, "Saint Petersburg", ["st petersburg", "st. petersburg"]],
+  ["Tallinn", "EE", 59.44, 24.75, "Harju"],
+  ["Riga", "LV", 56.95, 24.11, "Riga"],
+  ["Vilnius", "LT", 54.69, 25.28, "Vilnius"],
+  ["Bucharest", "RO", 44.43, 26.1, "Bucharest", ["bucuresti"]],
+  ["Belgrade", "RS", 44.79, 20.45, "Belgrade", ["beograd"]],
+  ["Zagreb", "HR", 45.81, 15.98, "Zagreb"],
+  [
+    "New York",
+    "US",
+    40.71,
+    -74.01,
+    "New York|NY",
+    ["nyc", "new york city", "brooklyn", "manhattan", "queens", "bronx"],
+  ],
+  ["Los Angeles", "US", 34.05, -118.24, "California|CA", ["la"]],
+  ["Chicago", "US", 41.88, -87.63, "Illinois|IL"],
+  ["San Francisco", "US", 37.77, -122.42, "California|CA", ["sf"]],
+  ["Oakland", "US", 37.8, -122.27, "California|CA"],
+  ["Seattle", "US", 47.61, -122.33, "Washington|WA"],
+  ["Portland", "US", 45.52, -122.68, "Oregon|OR"],
+  ["Austin", "US", 30.27, -97.74, "Texas|TX"],
+  ["Houston", "US", 29.76, -95.37, "Texas|TX"],
+  ["Dallas", "US", 32.78, -96.8, "Texas|TX"],
+  ["Miami", "US", 25.76, -80.19, "Florida|FL"],
+  ["Atlanta", "US", 33.75, -84.39, "Georgia|GA"],
+  ["Boston", "US", 42.36, -71.06, "Massachusetts|MA"],
+  ["Philadelphia", "US", 39.95, -75.17, "Pennsylvania|PA", ["philly"]],
+  ["Washington", "US", 38.91, -77.04, "District of Columbia|DC", ["washington dc", "washington d.c."]],
+  ["Detroit", "US", 42.33, -83.05, "Michigan|MI"],
+  ["New Orleans", "US", 29.95, -90.07, "Louisiana|LA", ["nola"]],
+  ["Nashville", "US", 36.16, -86.78, "Tennessee|TN"],
+  ["Denver", "US", 39.74, -104.99, "Colorado|CO"],
+  ["Minneapolis", "US", 44.98, -93.27, "Minnesota|MN"],
+  ["San Diego", "US", 32.72, -117.16, "California|CA"],
+  ["Las Vegas", "US", 36.17, -115.14, "Nevada|NV"],
+  ["Honolulu", "US", 21.31, -157.86, "Hawaii|HI"],
+  ["Toronto", "CA", 43.65, -79.38, "Ontario|ON"],
+  ["Montreal", "CA", 45.5, -73.57, "Quebec|QC"],
+  ["Vancouver", "CA", 49.28, -123.12, "British Columbia|BC"],
+  ["Calgary", "CA", 51.05, -114.07, "Alberta|AB"],
+  ["Ottawa", "CA", 45.42, -75.7, "Ontario|ON"],
+  ["Mexico City", "MX", 19.43, -99.13, "Mexico City|CDMX", ["ciudad de mexico", "cdmx"]],
+  ["Guadalajara", "MX", 20.66, -103.35, "Jalisco"],
+  ["Monterrey", "MX", 25.69, -100.32, "Nuevo León"],
+  ["Oaxaca", "MX", 17.07, -96.73, "Oaxaca", ["oaxaca de juarez"]],
+  ["São Paulo", "BR", -23.55, -46.63, "São Paulo|SP", ["sampa"]],
+  ["Rio de Janeiro", "BR", -22.91, -43.17, "Rio de Janeiro|RJ", ["rio"]],
+  ["Salvador", "BR", -12.97, -38.5, "Bahia|BA"],
+  ["Belo Horizonte", "BR", -19.92, -43.94, "Minas Gerais|MG"],
+  ["Buenos Aires", "AR", -34.6, -58.38, "Buenos Aires", ["caba"]],
+  ["Santiago", "CL", -33.45, -70.67, "Santiago Metropolitan", ["santiago de chile"]],
+  ["Bogotá", "CO", 4.71, -74.07, "Bogotá"],
+  ["Medellín", "CO", 6.24, -75.58, "Antioquia"],
+  ["Lima", "PE", -12.05, -77.04, "Lima"],
+  ["Havana", "CU", 23.11, -82.37, "Havana", ["la habana", "habana"]],
+  ["Tokyo", "JP", 35.68, 139.69, "Tokyo"],
+  ["Osaka", "JP", 34.69, 135.5, "Osaka"],
+  ["Kyoto", "JP", 35.01, 135.77, "Kyoto"],
+  ["Yokohama", "JP", 35.44, 139.64, "Kanagawa"],
+  ["Nagoya", "JP", 35.18, 136.91, "Aichi"],
+  ["Fukuoka", "JP", 33.59, 130.4, "Fukuoka"],
+  ["Sapporo", "JP", 43.06, 141.35, "Hokkaido"],
+  ["Seoul", "KR", 37.57, 126.98, "Seoul"],
+  ["Busan", "KR", 35.18, 129.08, "Busan", ["pusan"]],
+  ["Shanghai", "CN", 31.23, 121.47, "Shanghai"],
+  ["Beijing", "CN", 39.9, 116.41, "Beijing", ["peking"]],
+  ["Shenzhen", "CN", 22.54, 114.06, "Guangdong"],
+  ["Guangzhou", "CN", 23.13, 113.26, "Guangdong", ["canton"]],
+  ["Chengdu", "CN", 30.57, 104.07, "Sichuan"],
+  ["Hong Kong", "HK", 22.32, 114.17, "", ["kowloon"]],
+  ["Taipei", "TW", 25.03, 121.57, "Taipei"],
+  ["Singapore", "SG", 1.35, 103.82, ""],
+  ["Bangkok", "TH", 13.76, 100.5, "Bangkok", ["krung thep"]],
+  ["Chiang Mai", "TH", 18.79, 98.99, "Chiang Mai"],
+  ["Ho Chi Minh City", "VN", 10.82, 106.63, "", ["saigon", "hcmc"]],
+  ["Hanoi", "VN", 21.03, 105.85, "", ["ha noi"]],
+  ["Jakarta", "ID", -6.21, 106.85, "Jakarta"],
+  ["Yogyakarta", "ID", -7.8, 110.36, "Yogyakarta", ["jogja", "jogjakarta"]],
+  ["Denpasar", "ID", -8.65, 115.22, "Bali", ["bali"]],
+  ["Manila", "PH", 14.6, 120.98, "Metro Manila", ["metro manila"]],
+  ["Kuala Lumpur", "MY", 3.14, 101.69, "", ["kl"]],
+  ["Mumbai", "IN", 19.08, 72.88, "Maharashtra", ["bombay"]],
+  ["Delhi", "IN", 28.61, 77.21, "Delhi", ["new delhi"]],
+  ["Bengaluru", "IN", 12.97, 77.59, "Karnataka", ["bangalore"]],
+  ["Kolkata", "IN", 22.57, 88.36, "West Bengal", ["calcutta"]],
+  ["Chennai", "IN", 13.08, 80.27, "Tamil Nadu", ["madras"]],
+  ["Karachi", "PK", 24.86, 67.01, "Sindh"],
+  ["Lahore", "PK", 31.55, 74.34, "Punjab"],
+  ["Dhaka", "BD", 23.81, 90.41, "Dhaka"],
+  ["Colombo", "LK", 6.93, 79.86, "Western"],
+  ["Dubai", "AE", 25.2, 55.27, "Dubai"],
+  ["Tel Aviv", "IL", 32.09, 34.78, "Tel Aviv", ["tel aviv-yafo", "tel aviv yafo"]],
+  ["Beirut", "LB", 33.89, 35.5, "Beirut"],
+  ["Tehran", "IR", 35.69, 51.39, "Tehran"],
+  ["Riyadh", "SA", 24.71, 46.68, "Riyadh"],
+  ["Cairo", "EG", 30.04, 31.24, "Cairo"],
+  ["Marrakesh", "MA", 31.63, -7.99, "Marrakesh-Safi", ["marrakech"]],
+  ["Casablanca", "MA", 33.57, -7.59, "Casablanca-Settat"],
+  ["Lagos", "NG", 6.52, 3.38, "Lagos"],
+  ["Accra", "GH", 5.6, -0.19, "Greater Accra"],
+  ["Dakar", "SN", 14.72, -17.47, "Dakar"],
+  ["Nairobi", "KE", -1.29, 36.82, "Nairobi"],
+  ["Addis Ababa", "ET", 9.03, 38.74, "Addis Ababa", ["addis abeba"]],
+  ["Johannesburg", "ZA", -26.2, 28.05, "Gauteng", ["joburg", "jozi"]],
+  ["Cape Town", "ZA", -33.92, 18.42, "Western Cape"],
+  ["Durban", "ZA", -29.86, 31.02, "KwaZulu-Natal"],
+];
+
+// States without a city above, so "Portland, Maine" is not read as Portland, Oregon
+const EXTRA_REGION_ROWS: [region: string, country: string][] = [
+  ["Alabama|AL", "US"],
+  ["Alaska|AK", "US"],
+  ["Arizona|AZ", "US"],
+  ["Arkansas|AR", "US"],
+  ["Connecticut|CT", "US"],
+  ["Delaware|DE", "US"],
+  ["Idaho|ID", "US"],
+  ["Indiana|IN", "US"],
+  ["Iowa|IA", "US"],
+  ["Kansas|KS", "US"],
+  ["Kentucky|KY", "US"],
+  ["Maine|ME", "US"],
+  ["Maryland|MD", "US"],
+  ["Mississippi|MS", "US"],
+  ["Missouri|MO", "US"],
+  ["Montana|MT", "US"],
+  ["Nebraska|NE", "US"],
+  ["New Hampshire|NH", "US"],
+  ["New Jersey|NJ", "US"],
+  ["New Mexico|NM", "US"],
+  ["North Carolina|NC", "US"],
+  ["North Dakota|ND", "US"],
+  ["Ohio|OH", "US"],
+  ["Oklahoma|OK", "US"],
+  ["Rhode Island|RI", "US"],
+  ["South Carolina|SC", "US"],
+  ["South Dakota|SD", "US"],
+  ["Utah|UT", "US"],
+  ["Vermont|VT", "US"],
+  ["Virginia|VA", "US"],
+  ["West Virginia|WV", "US"],
+  ["Wisconsin|WI", "US"],
+  ["Wyoming|WY", "US"],
+  ["Manitoba|MB", "CA"],
+  ["Saskatchewan|SK", "CA"],
+  ["Nova Scotia|NS", "CA"],
+  ["New Brunswick|NB", "CA"],
+  ["Newfoundland and Labrador|NL", "CA"],
+];
+
+export const COUNTRIES: Country[] = COUNTRY_ROWS.map(([code, name, lat, lon, aliases = []]) => ({
+  code,
+  name,
+  lat,
+  lon,
+  aliases,
+}));
+
+export const CITIES: City[] = CITY_ROWS.map(([name, country, lat, lon, region = "", aliases = []]) => {
+  const [regionName, regionCode] = region.split("|");
+  return { name, region: regionName, regionCode, country, lat, lon, aliases };
+});
+
+/** Region names and codes with their country, from the cities and the extra list */
+export const REGIONS: { name: string; code?: string; country: string }[] = [
+  ...CITIES.filter((c) => c.region).map((c) => ({ name: c.region, code: c.regionCode, country: c.country })),
+  ...EXTRA_REGION_ROWS.map(([region, country]) => {
+    const [name, code] = region.split("|");
+    return { name, code, country };
+  }),
+];
@@ -0,0 +1,116 @@
+import { fold } from "../text";
+import { CITIES, COUNTRIES, REGIONS, type City, type Country } from "./gazetteer";
+
+/**
+ * Free-text locations ("Berlin, Germany", "berlin, DE", "Brooklyn NY") resolved
+ * against the bundled gazetteer. The entry keeps what the artist typed in
+ * `location`; `place` is derived from it and never edited directly.
+ */
+
+export type Place = {
+  city?: string; // absent when only the country was recognised
+  region?: string;
+  country: string;
+  countryCode: string;
+  lat: number;
+  lon: number;
+};
+
+const COUNTRY_BY_KEY = new Map<string, Country>();
+COUNTRIES.forEach((c) =>
+  [c.code, c.name, ...c.aliases].forEach((k) => COUNTRY_BY_KEY.set(fold(k).replace(/\.$/, ""), c))
+);
+const COUNTRY_BY_CODE = new Map(COUNTRIES.map((c) => [c.code, c]));
+
+// State/region names and codes, so "Melbourne, FL" is not taken for Melbourne, Australia.
+// Maps to the region's country, or null when a key is shared ("WA": Washington and Western Australia).
+const REGION_COUNTRY = new Map<string, string | null>();
+REGIONS.forEach((r) =>
+  [r.name, r.code ?? ""].filter(Boolean).forEach((k) => {
+    const key = fold(k);
+    const seen = REGION_COUNTRY.get(key);
+    REGION_COUNTRY.set(key, seen === undefined || seen === r.country ? r.country : null);
+  })
+);
+
+const CITIES_BY_KEY = new Map<string, City[]>();
+CITIES.forEach((city) =>
+  [city.name, ...city.aliases].forEach((k) => {
+    const key = fold(k);
+    CITIES_BY_KEY.set(key, [...(CITIES_BY_KEY.get(key) ?? []), city]);
+  })
+);
+
+function cityPlace(city: City): Place {
+  const country = COUNTRY_BY_CODE.get(city.country)!;
+  return {
+    city: city.name,
+    region: city.region || undefined,
+    country: country.name,
+    countryCode: country.code,
+    lat: city.lat,
+    lon: city.lon,
+  };
+}
+
+function countryPlace(country: Country): Place {
+  return { country: country.name, countryCode: country.code, lat: country.lat, lon: country.lon };
+}
+
+/** Does a qualifier ("Germany", "DE", "NY", "Victoria") agree with this city? */
+function qualifies(city: City, part: string) {
+  const country = COUNTRY_BY_KEY.get(part);
+  if (country?.code === city.country) return true;
+  return (!!city.region && fold(city.region) === part) || (!!city.regionCode && fold(city.regionCode) === part);
+}
+
+function pickCity(candidates: City[], qualifiers: string[]) {
+  if (qualifiers.length === 0) return candidates[0];
+  return candidates.find((c) => qualifiers.some((q) => qualifies(c, q)));
+}
+
+function resolveParts(parts: string[]): Place | undefined {
+  // The city is usually first; anything after it narrows it down
+  for (let i = 0; i < parts.length; i++) {
+    const candidates = CITIES_BY_KEY.get(parts[i]);
+    if (!candidates) continue;
+    const qualifiers = parts.filter((_, j) => j !== i);
+    const city = pickCity(candidates, qualifiers);
+    if (city) return cityPlace(city);
+    // "Perth, Scotland": a known name in a country or state we have no such city for
+    if (qualifiers.some((q) => COUNTRY_BY_KEY.has(q) || REGION_COUNTRY.has(q))) break;
+    // Unknown qualifiers are neighbourhoods and the like ("Berlin, Kreuzberg")
+    return cityPlace(candidates[0]);
+  }
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const country = COUNTRY_BY_KEY.get(parts[i]) ?? COUNTRY_BY_CODE.get(REGION_COUNTRY.get(parts[i]) ?? "");
+    if (country) return countryPlace(country);
+  }
+  return undefined;
+}
+
+export function resolveLocation(text: string): Place | undefined {
+  const folded = fold(text).trim();
+  if (!folded) return undefined;
+  const parts = folded
+    .split(/\s*(?:[,;/|()]|\s-\s)\s*/)
+    .map((p) => p.replace(/\.$/, "").trim())
+    .filter(Boolean);
+  const place = resolveParts(parts);
+  if (place?.city || parts.length !== 1) return place;
+  // No separators ("Berlin Germany", "Brooklyn NY"): try each split into city + qualifier
+  const words = parts[0].split(/\s+/);
+  for (let n = words.length - 1; n > 0; n--) {
+    const split = resolveParts([words.slice(0, n).join(" "), words.slice(n).join(" ")]);
+    if (split?.city) return split;
+  }
+  return place;
+}
+
+/** "Berlin, Germany" — also the city facet value */
+export function placeLabel(place: Place) {
+  return place.city ? `${place.city}, ${place.country}` : place.country;
+}
+
+/** Typeahead suggestions for the location field, one per gazetteer city */
+export const PLACE_SUGGESTIONS = CITIES.map((c) => placeLabel(cityPlace(c)));
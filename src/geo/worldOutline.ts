@@ -0,0 +1,198 @@
+/**
+ * Coarse, hand-simplified coastlines ([lon, lat] rings) for the offline map.
+ * Good enough to place a pin by eye; not for measuring anything. Antarctica is
+ * left out and the map is cropped to MAP_BOUNDS. `lakes` are painted over land.
+ */
+
+export type Ring = [lon: number, lat: number][];
+
+export const MAP_BOUNDS = { west: -170, east: 190, north: 84, south: -58 };
+
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = Math.round(
+  ((MAP_BOUNDS.north - MAP_BOUNDS.south) / (MAP_BOUNDS.east - MAP_BOUNDS.west)) * 1000
+);
+
+/** Equirectangular projection into the MAP_WIDTH × MAP_HEIGHT viewBox */
+export function project(lon: number, lat: number): [x: number, y: number] {
+  // Shift the far-western Pacific (Alaska's tip, Hawaii) so it is not cut off
+  const l = lon < MAP_BOUNDS.west ? lon + 360 : lon;
+  return [
+    ((l - MAP_BOUNDS.west) / (MAP_BOUNDS.east - MAP_BOUNDS.west)) * MAP_WIDTH,
+    ((MAP_BOUNDS.north - lat) / (MAP_BOUNDS.north - MAP_BOUNDS.south)) * MAP_HEIGHT,
+  ];
+}
+
+export function ringPath(ring: Ring) {
+  return (
+    ring
+      .map(([lon, lat], i) => {
+        const [x, y] = project(lon, lat);
+        return `${i ? "L" : "M"}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join("") + "Z"
+  );
+}
+
+// prettier-ignore
+export const land: Ring[] = [
+  // North America
+  [
+    [-168, 65.6], [-162, 70], [-156, 71.3], [-140, 69.6], [-128, 70], [-115, 68.6], [-95, 68], [-88, 68.5],
+    [-82, 66], [-86, 63], [-94, 59], [-92, 57], [-82, 55], [-79, 51.5], [-77, 56], [-78, 60], [-72, 61],
+    [-64, 60], [-61, 56], [-56, 52], [-60, 48], [-65, 49], [-64, 45.5], [-67, 44.5], [-70, 42], [-74, 40.5],
+    [-76, 37], [-75.5, 35], [-81, 31.5], [-80, 27], [-80.5, 25.2], [-82, 26.5], [-84, 30], [-89, 30.2],
+    [-94, 29.5], [-97, 27.5], [-97.5, 22], [-95, 18.5], [-91, 19], [-90.5, 21], [-87, 21.5], [-88, 16],
+    [-84, 15], [-83, 11], [-79.5, 9], [-77.5, 8.5], [-80, 7.5], [-84, 9.5], [-86, 12], [-92, 14.5],
+    [-96, 15.7], [-105, 19.5], [-105.6, 22.5], [-109, 25.5], [-112, 29], [-114.8, 31.8], [-113, 29],
+    [-112, 26], [-110, 23], [-112, 24.8], [-114.5, 27.8], [-117, 32.5], [-120.5, 34.5], [-122.5, 37.5],
+    [-124, 40.5], [-124, 46], [-123, 49], [-127.5, 50.5], [-130, 54.5], [-133, 57], [-137, 58.5], [-141, 60],
+    [-146, 61], [-151, 59.5], [-154, 57.5], [-158, 56.5], [-163, 55], [-158, 58.5], [-162, 60], [-165, 62.5],
+    [-164, 64.5],
+  ],
+  // Greenland
+  [
+    [-73, 78], [-60, 82], [-40, 83.5], [-22, 82.5], [-18, 77], [-20, 72], [-22, 70], [-27, 68], [-32, 68],
+    [-40, 65], [-43, 60], [-48, 61], [-51, 64], [-54, 67], [-55, 71], [-60, 76], [-67, 76.5],
+  ],
+  // Baffin Island, Victoria Island, Ellesmere Island
+  [[-80, 63.5], [-77, 65.5], [-73, 67.8], [-72, 71.5], [-80, 73.5], [-90, 73.8], [-86, 70], [-82, 69.5], [-83, 66.5], [-85, 65], [-81, 64]],
+  [[-118, 71], [-110, 73], [-102, 72.5], [-101, 69.5], [-105, 68.7], [-112, 68.7], [-117, 69.5]],
+  [[-90, 76.5], [-80, 76.5], [-72, 78.5], [-62, 82], [-75, 83], [-90, 81.5], [-93, 79]],
+  // Cuba, Hispaniola
+  [[-85, 21.9], [-82, 23.2], [-80, 23.1], [-77, 21.7], [-74.2, 20.2], [-77.3, 19.9], [-78, 20.7], [-82, 22]],
+  [[-74.4, 18.4], [-72.8, 19.9], [-69.9, 19.7], [-68.4, 18.6], [-71, 18], [-72.5, 18.2]],
+  // South America
+  [
+    [-77.5, 8.5], [-75, 11], [-72, 12], [-67, 10.7], [-62, 10.5], [-60, 8.5], [-57, 6], [-52, 5], [-50, 0],
+    [-44, -2.5], [-39, -3.5], [-35, -5.5], [-35, -9], [-39, -13.5], [-39, -18], [-41, -22], [-45, -23.7],
+    [-48.5, -26], [-49, -29], [-53, -33.7], [-57, -35], [-57.5, -38], [-62, -39], [-65, -41], [-64, -43],
+    [-67.5, -46.5], [-66, -48], [-69, -51], [-68.5, -53], [-67, -55], [-71, -54], [-74, -51], [-75.5, -47],
+    [-73.5, -42], [-73.5, -37], [-71.5, -30], [-70.5, -23], [-70.3, -18], [-75, -15], [-77, -12], [-79.5, -7],
+    [-81, -4.5], [-80, -2], [-80, 1], [-78.5, 2.5], [-77.5, 4], [-77.3, 6.5],
+  ],
+  // Eurasia, from Iberia clockwise round Scandinavia, Siberia, East and South Asia, Arabia and the Mediterranean
+  [
+    [-9.5, 37], [-9.5, 43], [-8, 43.7], [-1.5, 43.4], [-1.2, 46], [-4.5, 47.8], [-1.5, 48.7], [1.5, 50.1],
+    [3, 51.2], [4.5, 52.9], [7, 53.5], [8.7, 54], [8.2, 57], [10.5, 57.7], [10.5, 55], [12.5, 54.5], [14, 54],
+    [18.5, 54.7], [21, 55.5], [21, 57], [23.5, 57.2], [24.5, 59.4], [28, 59.5], [30, 60], [29, 61.2],
+    [25, 60.3], [21.5, 60.8], [21.5, 63], [25, 65], [25.5, 65.6], [22, 65.8], [17.5, 62.5], [17.5, 60.5],
+    [18.8, 59.5], [16.5, 56.3], [14.2, 55.4], [12.8, 55.6], [11, 58.9], [8.2, 58.1], [5.6, 58.7], [5, 61.5],
+    [7, 62.8], [10.5, 64.5], [13.5, 67.5], [16, 69], [19, 70], [23.5, 70.8], [28, 71.1], [31, 70], [33, 69.3],
+    [40, 67.8], [41, 66.2], [33.5, 66.6], [35, 64.4], [37, 63.9], [40, 64.6], [44, 66.1], [44, 68.5],
+    [46, 68.3], [53, 68.7], [54.5, 68.2], [60, 69], [68, 69.5], [73, 72.5], [80, 72.3], [87, 75], [100, 76.5],
+    [105, 77.7], [113, 75.8], [113.5, 73.5], [129, 72], [140, 72.5], [150, 71.5], [160, 70], [170, 70],
+    [180, 69], [190, 66], [180, 65], [178, 64.6], [173, 61], [170, 60], [163, 59.9], [162.8, 56], [160, 53],
+    [156.7, 51], [156, 57], [158.5, 62], [155, 59.2], [152, 59], [142, 59.3], [135, 54.7], [141, 52.5],
+    [140.5, 48], [135, 43.2], [132, 43], [129.5, 41], [129.5, 36], [126.5, 34.5], [126.3, 37.5], [124.7, 39.6],
+    [121, 40.8], [121.6, 38.8], [117.7, 39], [119.2, 37.2], [122.5, 37], [120, 35], [121.9, 30.9], [122, 29],
+    [119.5, 25.5], [116.5, 22.9], [113.5, 22.2], [110, 20.3], [108, 21.6], [106.5, 20], [105.7, 18.5],
+    [108.9, 15.3], [109.3, 11.6], [106.7, 10.3], [104.8, 8.6], [103.5, 10.5], [100.5, 13.4], [100, 10],
+    [99.3, 9.2], [100.3, 6.6], [103.4, 4.3], [104.2, 1.4], [102, 2.2], [100.5, 4.3], [98.5, 8], [98.3, 10.8],
+    [97.5, 16.5], [94.5, 16.2], [93.9, 19.5], [91.8, 22.3], [90, 21.9], [88.4, 21.6], [86.9, 20.7],
+    [84.8, 19.2], [80.3, 15.9], [80, 11], [79.5, 9.4], [77.5, 8.1], [76.3, 9.5], [74.5, 14.5], [72.8, 19],
+    [72.5, 21.5], [70.5, 20.8], [68.7, 23.2], [66.5, 25.4], [61.5, 25.2], [57.3, 25.8], [56.4, 27.1],
+    [54, 26.6], [51.5, 27.9], [50.2, 30], [48, 30], [48.5, 28.5], [50.2, 26.5], [51.2, 24.7], [51.6, 26],
+    [52, 24], [56, 26], [56.3, 24.9], [58.7, 23.5], [59.8, 22.4], [57.8, 18.9], [55, 17], [52.2, 15.7],
+    [45, 12.8], [43.3, 12.6], [42.7, 16], [40.8, 19.5], [38.8, 22], [37, 25.5], [34.6, 28.1], [34.9, 29.5],
+    [34.3, 31.3], [35, 33], [35.9, 35.9], [34, 36.3], [30.6, 36.6], [28, 36.8], [26.4, 38.3], [26.2, 39.5],
+    [26.2, 40.8], [24, 40.9], [22.9, 40.6], [23.9, 38.2], [22.2, 36.5], [21.1, 37.8], [19.4, 40.3],
+    [19.5, 41.9], [15.8, 43.7], [13.6, 45.7], [12.3, 45.3], [12.4, 44.3], [13.6, 43.6], [16, 41.9],
+    [18.5, 40.2], [17, 39], [16.5, 38], [15.7, 38.2], [15.6, 40], [12.4, 41.8], [10.5, 43], [8.8, 44.4],
+    [7, 43.6], [4.5, 43.5], [3, 42.8], [3.2, 41.9], [0.9, 41], [-0.3, 39.4], [0, 38.7], [-2, 36.7], [-5, 36.4],
+    [-6, 36.1], [-6.4, 36.8], [-7.4, 37.2], [-8.9, 37],
+  ],
+  // Great Britain, Ireland, Iceland
+  [
+    [-5.7, 50.1], [-3.5, 50.4], [1.3, 51.1], [1.7, 52.7], [0.2, 53.5], [-0.5, 54.5], [-1.6, 55.6],
+    [-2.5, 56.4], [-1.8, 57.5], [-3.5, 57.7], [-3, 58.6], [-5, 58.6], [-6.2, 57.5], [-5.6, 56], [-4.9, 55.2],
+    [-3.1, 54.9], [-3.5, 54], [-3, 53.3], [-4.6, 53.2], [-4.3, 52.7], [-4, 52], [-5.2, 51.7], [-3.2, 51.5],
+    [-4.2, 51.2],
+  ],
+  [[-6, 52.2], [-6.2, 53.9], [-5.7, 54.6], [-7.3, 55.3], [-8.5, 54.5], [-10, 54.2], [-9.8, 53.3], [-10.4, 51.8], [-8.5, 51.6]],
+  [[-22.5, 63.9], [-18, 63.4], [-14.5, 64.3], [-13.6, 65.2], [-15, 66.2], [-17, 66.2], [-22.5, 66.4], [-24, 65.5], [-22, 64.6]],
+  // Svalbard, Novaya Zemlya, Sakhalin
+  [[11, 78.5], [17, 80.2], [27, 80], [21, 78], [16, 76.6]],
+  [[52, 71.5], [56, 73.5], [60, 76], [68, 76.8], [62, 74.5], [57, 71]],
+  [[142, 46], [143.5, 49], [143, 54.2], [142.2, 54], [141.7, 50]],
+  // Japan, Taiwan, Sri Lanka, Philippines
+  [
+    [130, 31.2], [131.5, 31.5], [132, 33.9], [135, 33.6], [136.8, 34.3], [139.8, 35], [140.9, 36], [141, 38.3],
+    [142, 39.5], [141.4, 41.4], [140, 40.5], [139.8, 38.5], [138.5, 37.3], [136.8, 37.2], [136, 35.7],
+    [133, 35.6], [131, 34.4], [129.7, 33.2],
+  ],
+  [[140, 41.4], [141.7, 42.6], [143.3, 42], [145.5, 43.3], [144, 44.1], [141.8, 45.4], [141.4, 43.5], [140.3, 43.3]],
+  [[121.5, 25.3], [122, 24], [120.8, 21.9], [120.1, 23.5]],
+  [[79.8, 9.8], [81.3, 8.5], [81.8, 7], [80.6, 5.9], [79.8, 6.7]],
+  [[120.6, 18.5], [122.2, 18.5], [122, 16.5], [121.6, 15.8], [124, 14], [123.9, 13], [120.6, 14.3], [119.8, 16.3]],
+  [[122, 7], [125.4, 9.8], [126.5, 7.3], [125.5, 5.6], [123.7, 7.7]],
+  // Sumatra, Java, Borneo, Sulawesi, New Guinea
+  [[95.3, 5.6], [98, 4.3], [100.5, 2], [103.8, -1], [106, -3], [105.8, -5.8], [104.5, -5.9], [102, -4], [100.5, -1], [98.7, 1.7]],
+  [[105.2, -6.8], [108.3, -6.3], [111, -6.4], [114.5, -7.7], [114.3, -8.7], [110, -8.1], [106.5, -7.4]],
+  [
+    [109, 1.5], [110, 1.7], [111.5, 2.9], [113, 3.2], [115.5, 5], [117, 7], [119.2, 5.4], [118, 4.3], [117.8, 1],
+    [118.9, 0.9], [116.5, -2.5], [116, -3.7], [114.5, -3.5], [111.7, -3], [110.1, -1.7], [109.3, -0.6],
+  ],
+  [
+    [119.5, -5.5], [119, -3.5], [119.8, 0], [120.8, 1.3], [124.9, 1.5], [121, 0.5], [120.5, -1], [123.3, -1],
+    [121.5, -1.9], [122.8, -4.7], [120.5, -2.8], [120.4, -5.6],
+  ],
+  [
+    [131, -1.3], [134, -0.8], [137.9, -1.5], [141, -2.6], [145.7, -4.8], [147.5, -6], [147.5, -8], [150, -10.5],
+    [146, -8.1], [143.5, -9], [142.5, -9.3], [141, -9], [139, -8], [138, -8.4], [137.7, -5.2], [135, -4.3],
+    [133, -4], [132, -2.8], [133.5, -2.2], [132, -1.6],
+  ],
+  // Africa, Madagascar
+  [
+    [-5.9, 35.8], [-2, 35.1], [1, 36.5], [5, 36.8], [9.8, 37.3], [11, 37], [10.3, 34.5], [11, 33.2],
+    [15.3, 32.3], [19.9, 30.8], [20.1, 32.2], [23, 32.6], [25.2, 31.6], [29, 30.9], [32.3, 31.3], [34.3, 31.3],
+    [34.9, 29.5], [32.6, 29.9], [33.8, 27.4], [35.6, 23.9], [37.2, 21], [38.5, 18], [39.8, 15.4], [42.4, 12.8],
+    [43.3, 11.9], [44.6, 10.4], [47.5, 11.2], [51.2, 11.9], [51, 10.4], [49.5, 6.8], [48, 4.5], [46, 2],
+    [43.5, -0.5], [41.5, -1.8], [40, -3.5], [39.2, -5], [39.5, -7.1], [39.3, -8.5], [40.5, -10.5], [40.5, -15],
+    [37, -17.5], [35, -20], [35.5, -23.7], [33, -25.5], [32.9, -26.5], [32.4, -29], [30.5, -31], [27.5, -33.3],
+    [25.5, -34], [22, -34.2], [20, -34.8], [18.4, -34.1], [18.3, -32], [17.4, -29], [15.2, -27], [14.5, -22.5],
+    [13, -20], [11.8, -17], [12.3, -13.5], [13.6, -11.8], [13.2, -9], [12.2, -6], [12.3, -5], [11, -3.5],
+    [9.3, -1], [9.6, 1], [9.8, 3], [8.5, 4.5], [5.9, 4.3], [4.5, 6.3], [1.6, 6.2], [-2, 4.8], [-4.5, 5.2],
+    [-7.5, 4.4], [-9.5, 5.4], [-11.5, 6.9], [-13.2, 8.5], [-15, 11], [-16.7, 12.4], [-17.5, 14.7],
+    [-16.5, 16.2], [-16.2, 19.5], [-17, 21], [-15, 24], [-13.5, 27], [-11.5, 28.2], [-9.8, 29.7],
+    [-9.8, 31.5], [-8.5, 33.2], [-6.8, 34.1],
+  ],
+  [
+    [49.3, -12], [50.4, -15.5], [49.8, -17], [48.6, -20.5], [47.1, -24.9], [45.2, -25.6], [43.7, -23.5],
+    [43.3, -21.8], [44.4, -19.9], [44, -17], [46.3, -15.8], [48, -13.8],
+  ],
+  // Australia, Tasmania, New Zealand
+  [
+    [113.5, -22], [114.2, -26.3], [115, -29.5], [115.7, -33.4], [114.9, -34.3], [117.9, -35.1], [121, -33.9],
+    [124, -33], [126, -32.3], [129, -31.7], [131.3, -31.5], [134.2, -32.8], [135.9, -34.8], [137.8, -32.6],
+    [137.8, -35.7], [138.6, -35], [139.6, -36.2], [140.6, -38], [143.5, -38.8], [146.3, -39.1], [148, -37.8],
+    [150, -37.5], [150.1, -35.7], [151.3, -33.8], [153, -31.2], [153.5, -28.3], [153.1, -25.4], [150.8, -22.6],
+    [149.5, -22.3], [148.8, -20.5], [146.3, -18.9], [145.3, -15], [143.5, -14], [142.5, -10.7], [141.5, -13],
+    [141.7, -15.5], [140.9, -17.4], [139.3, -17.4], [137, -15.9], [135.5, -14.8], [136.9, -12.3],
+    [136.5, -11.9], [133, -11.5], [131.1, -12.2], [129.8, -13.5], [129.4, -14.9], [127.8, -14.3], [126, -14.2],
+    [125, -15.5], [123.5, -16.8], [122.2, -18], [121, -19.5], [118.5, -20.3], [116.7, -20.6], [114.6, -21.8],
+  ],
+  [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146.9, -43.6], [145.2, -42.2]],
+  [
+    [172.7, -34.4], [174.6, -36.2], [175.9, -37.5], [178.5, -37.7], [177.9, -39.2], [176.8, -40], [175.3, -41.6],
+    [174.6, -41.2], [175, -39.9], [173.8, -39.2], [174.6, -38], [174.3, -36.5],
+  ],
+  [
+    [172.7, -40.5], [174.3, -41.3], [173.2, -43], [171.2, -44.5], [170.6, -45.9], [169, -46.7], [166.5, -46],
+    [167, -44.6], [168.4, -43.9], [170.9, -42.5], [172, -41],
+  ],
+];
+
+// prettier-ignore
+export const lakes: Ring[] = [
+  // Black Sea, Caspian Sea
+  [
+    [28, 41.3], [28.6, 43.4], [29.7, 45.3], [31, 46.6], [33.5, 46], [32.5, 45.3], [33.5, 44.4], [35.5, 45.1],
+    [36.6, 45.3], [38.2, 46.9], [39.3, 47.1], [38, 46.1], [37.5, 44.7], [39.8, 43.3], [41.6, 41.6], [40, 40.9],
+    [37, 41.1], [35, 42], [33, 41.9], [31, 41.1], [29, 41.2],
+  ],
+  [
+    [47, 45], [49, 46.5], [53, 47], [53, 45.3], [51, 44.5], [52.7, 41.7], [54, 40.5], [53.9, 37.3], [51, 36.8],
+    [49, 37.6], [49.5, 40.2], [48.5, 42], [47.5, 43],
+  ],
+];
@@ -0,0 +1,162 @@
+import { diffSnapshots, recordEdit, snapshot, type EditableField } from "./revisions";
+import type { ArtistEntry, Revision } from "./types";
+
+/**
+ * Compare an incoming import with the current entries before anything is written.
+ * Records are matched by `id`, falling back to the same name plus a shared link.
+ */
+
+export type ImportChange = { field: EditableField | "status"; before: string; after: string };
+
+export type ImportKind = "added" | "changed" | "unchanged" | "conflict";
+
+export type ImportItem = {
+  kind: ImportKind;
+  incoming: ArtistEntry;
+  local?: ArtistEntry;
+  matchedBy?: "id" | "name+links";
+  /** For "changed": which side holds the later version */
+  newer?: "local" | "incoming";
+  changes: ImportChange[];
+};
+
+export type ImportPlan = { items: ImportItem[]; counts: Record<ImportKind, number> };
+
+export type ImportStrategy = "replace" | "keep-local" | "keep-incoming" | "manual";
+
+/** Per-item pick in "manual" mode, keyed by the incoming entry id */
+export type ImportChoices = Record<string, "local" | "incoming">;
+
+export function planImport(local: ArtistEntry[], incoming: ArtistEntry[]): ImportPlan {
+  const byId = new Map(local.map((e) => [e.id, e]));
+  const claimed = new Set<string>();
+
+  const items = incoming.map((inc): ImportItem => {
+    let matchedBy: ImportItem["matchedBy"];
+    let match = byId.get(inc.id);
+    if (match && !claimed.has(match.id)) matchedBy = "id";
+    else {
+      match = local.find((l) => !claimed.has(l.id) && sameArtist(l, inc));
+      if (match) matchedBy = "name+links";
+    }
+    if (!match) return { kind: "added", incoming: inc, changes: [] };
+    claimed.add(match.id);
+
+    const changes = diffEntries(match, inc);
+    if (changes.length === 0) return { kind: "unchanged", incoming: inc, local: match, matchedBy, changes };
+    // A record matched only by name may be a different submission; always ask
+    const newer = matchedBy === "id" ? newerSide(match, inc) : undefined;
+    return { kind: newer ? "changed" : "conflict", incoming: inc, local: match, matchedBy, newer, changes };
+  });
+
+  const counts: Record<ImportKind, number> = { added: 0, changed: 0, unchanged: 0, conflict: 0 };
+  items.forEach((i) => counts[i.kind]++);
+  return { items, counts };
+}
+
+/** Default pick for an item that differs, per strategy */
+export function defaultChoice(item: ImportItem, strategy: ImportStrategy): "local" | "incoming" {
+  if (strategy === "replace") return "incoming";
+  if (item.kind === "changed" && item.newer) return item.newer;
+  return strategy === "keep-incoming" ? "incoming" : "local";
+}
+
+/** Produce the full list to store once the user confirms */
+export function applyImport(
+  local: ArtistEntry[],
+  plan: ImportPlan,
+  strategy: ImportStrategy,
+  choices: ImportChoices = {}
+): ArtistEntry[] {
+  if (strategy === "replace") return plan.items.map((i) => i.incoming);
+
+  const replaced = new Map<string, ArtistEntry>();
+  const added: ArtistEntry[] = [];
+  const localIds = new Set(local.map((e) => e.id));
+
+  for (const item of plan.items) {
+    if (item.kind === "added") {
+      // An unmatched record whose id is taken locally would overwrite someone else
+      added.push(localIds.has(item.incoming.id) ? { ...item.incoming, id: crypto.randomUUID() } : item.incoming);
+      continue;
+    }
+    if (item.kind === "unchanged" || !item.local) continue;
+    const pick =
+      strategy === "manual"
+        ? (choices[item.incoming.id] ?? defaultChoice(item, strategy))
+        : defaultChoice(item, strategy);
+    if (pick === "incoming") replaced.set(item.local.id, takeIncoming(item.local, item.incoming));
+  }
+
+  return [...added, ...local.map((e) => replaced.get(e.id) ?? e)];
+}
+
+/** Incoming fields win, but the local version survives as a revision */
+function takeIncoming(local: ArtistEntry, incoming: ArtistEntry): ArtistEntry {
+  const base: ArtistEntry = { ...local, revisions: unionRevisions(local.revisions, incoming.revisions) };
+  const patch = recordEdit(base, incoming, { at: incoming.updatedAt, by: incoming.updatedBy });
+  return {
+    ...base,
+    ...patch,
+    status: incoming.status,
+    reviewNote: incoming.reviewNote,
+    reviewedAt: incoming.reviewedAt,
+    reviewLog: incoming.reviewLog,
+  };
+}
+
+function unionRevisions(a: Revision[], b: Revision[]) {
+  const seen = new Map(a.map((r) => [r.id, r]));
+  b.forEach((r) => seen.set(r.id, r));
+  return Array.from(seen.values()).sort((x, y) => x.savedAt.localeCompare(y.savedAt));
+}
+
+/** Editable fields plus moderation status, the parts an import can change */
+export function diffEntries(local: ArtistEntry, incoming: ArtistEntry): ImportChange[] {
+  const changes: ImportChange[] = diffSnapshots(snapshot(local), snapshot(incoming));
+  if (local.status !== incoming.status) changes.push({ field: "status", before: local.status, after: incoming.status });
+  return changes;
+}
+
+/**
+ * Decide whether one side simply continues the other. A side is newer when the
+ * other's current state appears in its revision history, or when only it was
+ * ever edited. Otherwise both changed independently: a conflict.
+ */
+function newerSide(local: ArtistEntry, incoming: ArtistEntry): "local" | "incoming" | undefined {
+  const localState = JSON.stringify(snapshot(local));
+  const incomingState = JSON.stringify(snapshot(incoming));
+  if (localState === incomingState) {
+    // Only moderation differs; the later review wins
+    return (incoming.reviewedAt ?? "") > (local.reviewedAt ?? "") ? "incoming" : "local";
+  }
+  if (incoming.revisions.some((r) => JSON.stringify(snapshot(r.before)) === localState)) return "incoming";
+  if (local.revisions.some((r) => JSON.stringify(snapshot(r.before)) === incomingState)) return "local";
+  if (!local.updatedAt && incoming.updatedAt) return "incoming";
+  if (local.updatedAt && !incoming.updatedAt) return "local";
+  return undefined;
+}
+
+function sameArtist(a: ArtistEntry, b: ArtistEntry) {
+  if (normalizeName(a.name) !== normalizeName(b.name)) return false;
+  if (a.links.length === 0 && b.links.length === 0) return true;
+  const urls = new Set(a.links.map((l) => normalizeLink(l.url)));
+  return b.links.some((l) => urls.has(normalizeLink(l.url)));
+}
+
+function normalizeName(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeLink(url: string) {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/+$/, "");
+}
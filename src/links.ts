@@ -0,0 +1,219 @@
+import { fold } from "./text";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Artist links recognised by platform. Stored links stay plain label/url
+ * pairs; the platform, handle and canonical address are worked out from the
+ * URL (or an "@handle") whenever they are needed.
+ */
+
+export type PlatformId =
+  "instagram" | "bandcamp" | "soundcloud" | "behance" | "youtube" | "vimeo" | "tiktok" | "website";
+
+export type Platform = {
+  id: PlatformId;
+  label: string;
+  aliases: string[]; // label words that mean this platform, for "@handle" input
+  profile?: (handle: string) => string; // canonical profile address
+};
+
+export type RecognisedLink = {
+  platform: PlatformId;
+  url: string; // canonical, always http(s)
+  handle?: string; // profile name, when the link is a profile
+};
+
+export const PLATFORMS: Platform[] = [
+  { id: "instagram", label: "Instagram", aliases: ["ig", "insta"], profile: (h) => `https://www.instagram.com/${h}/` },
+  { id: "bandcamp", label: "Bandcamp", aliases: ["bc"], profile: (h) => `https://${h}.bandcamp.com/` },
+  { id: "soundcloud", label: "SoundCloud", aliases: ["sc"], profile: (h) => `https://soundcloud.com/${h}` },
+  { id: "behance", label: "Behance", aliases: ["be"], profile: (h) => `https://www.behance.net/${h}` },
+  { id: "youtube", label: "YouTube", aliases: ["yt"], profile: (h) => `https://www.youtube.com/@${h}` },
+  { id: "vimeo", label: "Vimeo", aliases: [], profile: (h) => `https://vimeo.com/${h}` },
+  { id: "tiktok", label: "TikTok", aliases: ["tt"], profile: (h) => `https://www.tiktok.com/@${h}` },
+  { id: "website", label: "Website", aliases: ["site", "portfolio", "web", "homepage"] },
+];
+
+const PLATFORM_BY_ID = new Map(PLATFORMS.map((p) => [p.id, p]));
+
+export function platformLabel(id: PlatformId) {
+  return PLATFORM_BY_ID.get(id)!.label;
+}
+
+// A scheme, but not "host:port" ("example.com:8080/x")
+const SCHEME = /^([a-z][a-z0-9+.-]*):(?!\d)/i;
+
+/**
+ * The address to put in an href, or undefined when it is not a web link.
+ * Bare hosts ("instagram.com/zedk") get https://; any scheme other than
+ * http(s) (javascript:, data:, file:…) is refused.
+ */
+export function safeUrl(raw: string): string | undefined {
+  const text = raw.trim();
+  if (!text) return undefined;
+  const scheme = SCHEME.exec(text)?.[1].toLowerCase();
+  if (scheme && scheme !== "http" && scheme !== "https") return undefined;
+  let url: URL;
+  try {
+    url = new URL(scheme ? text : `https://${text.replace(/^\/+/, "")}`);
+  } catch {
+    return undefined;
+  }
+  // Re-check after parsing; the URL parser drops tabs and newlines inside the scheme
+  if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+  if (!url.hostname.includes(".") && url.hostname !== "localhost") return undefined;
+  return url.href;
+}
+
+const HANDLE = /^[a-z0-9._-]{1,64}$/i;
+
+// First path segments that are pages rather than profiles
+const NOT_PROFILES: Partial<Record<PlatformId, string[]>> = {
+  instagram: ["p", "reel", "reels", "explore", "stories", "tv", "accounts"],
+  soundcloud: ["discover", "search", "stream", "upload", "you"],
+  behance: ["gallery", "search", "galleries", "joblist"],
+  vimeo: ["channels", "groups", "showcase", "search", "categories"],
+  youtube: ["watch", "playlist", "results", "shorts", "feed"],
+  tiktok: ["tag", "discover", "music"],
+};
+
+function platformForHost(host: string): PlatformId | undefined {
+  const h = host.toLowerCase().replace(/^(www|m)\./, "");
+  if (h === "instagram.com" || h === "instagr.am") return "instagram";
+  if (h === "bandcamp.com" || h.endsWith(".bandcamp.com")) return "bandcamp";
+  if (h === "soundcloud.com" || h === "on.soundcloud.com") return "soundcloud";
+  if (h === "behance.net") return "behance";
+  if (h === "youtube.com" || h === "youtu.be" || h === "music.youtube.com") return "youtube";
+  if (h === "vimeo.com") return "vimeo";
+  if (h === "tiktok.com" || h === "vm.tiktok.com") return "tiktok";
+  return undefined;
+}
+
+/** The profile handle a platform URL points at, if it is a profile */
+function profileHandle(platform: PlatformId, url: URL): string | undefined {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const host = url.hostname.toLowerCase();
+  let handle: string | undefined;
+  switch (platform) {
+    case "bandcamp":
+      // artist.bandcamp.com/… is the artist; bandcamp.com/name is a fan account, not a handle
+      handle = /^[^.]+\.bandcamp\.com$/.test(host) && !host.startsWith("www.") ? host.split(".")[0] : undefined;
+      break;
+    case "youtube":
+      if (host === "youtu.be") return undefined;
+      if (segments[0]?.startsWith("@")) handle = segments[0].slice(1);
+      else if (segments[0] === "c" || segments[0] === "user") handle = segments[1];
+      else return undefined; // /channel/<id> and videos keep their address
+      break;
+    case "tiktok":
+      if (!segments[0]?.startsWith("@")) return undefined;
+      handle = segments[0].slice(1);
+      break;
+    case "vimeo":
+      handle = segments[0];
+      if (handle && /^\d+$/.test(handle)) return undefined; // a video
+      break;
+    default:
+      handle = segments[0];
+  }
+  if (!handle || !HANDLE.test(handle) || NOT_PROFILES[platform]?.includes(handle.toLowerCase())) return undefined;
+  return handle;
+}
+
+/** Which platform a hand-typed label names ("IG", "my soundcloud"), if any */
+function platformFromLabel(label: string): PlatformId | undefined {
+  const words = fold(label).split(/[^a-z0-9]+/);
+  return PLATFORMS.find(
+    (p) => words.includes(p.id) || words.includes(fold(p.label)) || p.aliases.some((a) => words.includes(a))
+  )?.id;
+}
+
+/**
+ * Recognise a link from a URL or an "@handle". A bare handle takes its
+ * platform from the label ("TikTok", "my soundcloud"), defaulting to Instagram.
+ * Returns undefined for anything that is not a safe web link.
+ */
+export function recogniseLink(input: string, label = ""): RecognisedLink | undefined {
+  const text = input.trim();
+  const at = /^@([a-z0-9._-]{1,64})$/i.exec(text);
+  if (at) {
+    const hinted = platformFromLabel(label);
+    const platform = PLATFORM_BY_ID.get(hinted && hinted !== "website" ? hinted : "instagram")!;
+    return { platform: platform.id, url: platform.profile!(at[1]), handle: at[1] };
+  }
+  const href = safeUrl(text);
+  if (!href) return undefined;
+  const url = new URL(href);
+  const platform = platformForHost(url.hostname);
+  if (!platform) {
+    return { platform: "website", url: url.pathname === "/" && !url.search ? url.origin : url.href };
+  }
+  const handle = profileHandle(platform, url);
+  // A profile's front page gets one canonical form (no tracking query, no m./www. variants);
+  // tracks, videos and posts keep their own address
+  const depth = url.pathname.split("/").filter(Boolean).length;
+  if (handle && depth === (platform === "bandcamp" ? 0 : 1)) {
+    return { platform, url: PLATFORM_BY_ID.get(platform)!.profile!(handle), handle };
+  }
+  return { platform, url: url.href, handle };
+}
+
+/** Labels the form may overwrite when the URL changes: blank, or a platform's own name */
+export function isAutoLabel(label: string) {
+  const l = label.trim().toLowerCase();
+  return !l || l === "link" || PLATFORMS.some((p) => p.label.toLowerCase() === l);
+}
+
+// Facet counts ask for every entry's platforms on each change; links arrays are never mutated in place
+const platformCache = new WeakMap<ArtistEntry["links"], PlatformId[]>();
+
+export function entryPlatforms(entry: Pick<ArtistEntry, "links">): PlatformId[] {
+  let ids = platformCache.get(entry.links);
+  if (!ids) {
+    const found = entry.links.map((l) => recogniseLink(l.url, l.label)?.platform);
+    ids = Array.from(new Set(found.filter((id): id is PlatformId => !!id)));
+    platformCache.set(entry.links, ids);
+  }
+  return ids;
+}
+
+export type HandleUse = { platform: PlatformId; handle: string; entry: ArtistEntry };
+
+const handleKey = (platform: PlatformId, handle: string) => `${platform}:${handle.toLowerCase()}`;
+
+/** Every platform handle in use, keyed by platform and lower-cased handle */
+export function indexHandles(entries: ArtistEntry[]) {
+  const index = new Map<string, HandleUse[]>();
+  for (const entry of entries) {
+    const seen = new Set<string>();
+    for (const l of entry.links) {
+      const link = recogniseLink(l.url, l.label);
+      if (!link?.handle) continue;
+      const key = handleKey(link.platform, link.handle);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      index.set(key, [...(index.get(key) ?? []), { platform: link.platform, handle: link.handle, entry }]);
+    }
+  }
+  return index;
+}
+
+/** Other entries listing the same platform handle as one of these links */
+export function sharedHandles(
+  links: { label: string; url: string }[],
+  index: Map<string, HandleUse[]>,
+  ownId?: string
+): { platform: PlatformId; handle: string; others: ArtistEntry[] }[] {
+  const result: { platform: PlatformId; handle: string; others: ArtistEntry[] }[] = [];
+  const seen = new Set<string>();
+  for (const l of links) {
+    const link = recogniseLink(l.url, l.label);
+    if (!link?.handle) continue;
+    const key = handleKey(link.platform, link.handle);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const others = (index.get(key) ?? []).map((u) => u.entry).filter((e) => e.id !== ownId);
+    if (others.length) result.push({ platform: link.platform, handle: link.handle, others });
+  }
+  return result;
+}
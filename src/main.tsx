@@ -1,10 +1,33 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { loadStaticSnapshot, PRERENDERED_PATH_META, STATIC_DATA_META } from './storage/staticRepository'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+const root = document.getElementById('root')!
+const meta = (name: string) => document.querySelector<HTMLMetaElement>(`meta[name="${name}"]`)?.content
+
+// Prerendered pages (npm run prerender) name their snapshot; the dev server and plain builds do not
+const dataUrl = meta(STATIC_DATA_META)
+
+if (dataUrl) {
+  loadStaticSnapshot(dataUrl).then((snapshot) => {
+    const app = (
+      <React.StrictMode>
+        <App published={snapshot} />
+      </React.StrictMode>
+    )
+    // Hydrate only the exact page that was rendered; a query string or the 404 fallback renders afresh
+    const path = window.location.pathname.replace(/\/+$/, '') || '/'
+    if (meta(PRERENDERED_PATH_META) === path && !window.location.search) ReactDOM.hydrateRoot(root, app)
+    else ReactDOM.createRoot(root).render(app)
+  })
+  // The static markup stays readable; it just is not interactive
+  .catch((e) => console.error('Failed to load the published data', e))
+} else {
+  ReactDOM.createRoot(root).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+}
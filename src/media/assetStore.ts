@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import type { ArtworkImage } from "../types";
+import { dataURLToBlob, processImage } from "./imagePipeline";
+
+/**
+ * Image blobs live in their own IndexedDB database; entries reference them
+ * as `asset:<id>` strings in the `src` of `ArtistEntry.images`.
+ */
+
+export type AssetVariant = "full" | "thumb";
+
+export type StoredAsset = {
+  id: string;
+  full: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+  createdAt: string; // ISO
+};
+
+const DB_NAME = "loveletter-assets";
+const STORE = "assets";
+const REF_PREFIX = "asset:";
+
+export function isAssetRef(src: string) {
+  return src.startsWith(REF_PREFIX);
+}
+
+export function assetRef(id: string) {
+  return `${REF_PREFIX}${id}`;
+}
+
+export function assetId(ref: string) {
+  return ref.slice(REF_PREFIX.length);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function open() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  const db = await open();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function putAsset(asset: StoredAsset) {
+  await run("readwrite", (s) => s.put(asset));
+  return assetRef(asset.id);
+}
+
+export async function getAsset(id: string): Promise<StoredAsset | undefined> {
+  return run<StoredAsset | undefined>("readonly", (s) => s.get(id));
+}
+
+export async function deleteAssets(refs: string[]) {
+  const ids = refs.filter(isAssetRef).map(assetId);
+  if (ids.length === 0) return;
+  await run("readwrite", (s) => {
+    ids.forEach((id) => s.delete(id));
+  });
+}
+
+/** Remove assets no entry points at (abandoned drafts, replaced imports) */
+export async function pruneAssets(keepRefs: string[]) {
+  const keep = new Set(keepRefs.filter(isAssetRef).map(assetId));
+  const ids = await run<IDBValidKey[]>("readonly", (s) => s.getAllKeys());
+  await deleteAssets(
+    ids
+      .map(String)
+      .filter((id) => !keep.has(id))
+      .map(assetRef)
+  );
+}
+
+/** Resize an upload and store both variants; returns the `asset:` ref */
+export async function storeUpload(file: Blob): Promise<string> {
+  const img = await processImage(file);
+  return putAsset({ id: crypto.randomUUID(), ...img, createdAt: new Date().toISOString() });
+}
+
+/**
+ * Store a file as it is (an open call's attachment, not necessarily an image);
+ * it is never shown as a picture, so the thumbnail is left empty.
+ */
+export async function storeFile(file: Blob): Promise<string> {
+  return putAsset({
+    id: crypto.randomUUID(),
+    full: file,
+    thumb: new Blob(),
+    width: 0,
+    height: 0,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/** Resolve an image reference to something an <img> can show */
+export function useImageSrc(src: string | undefined, variant: AssetVariant = "thumb") {
+  const [url, setUrl] = useState<string | undefined>(src && !isAssetRef(src) ? src : undefined);
+
+  useEffect(() => {
+    if (!src || !isAssetRef(src)) {
+      setUrl(src);
+      return;
+    }
+    let objectUrl: string | undefined;
+    let cancelled = false;
+    setUrl(undefined);
+    getAsset(assetId(src))
+      .then((asset) => {
+        if (cancelled || !asset) return;
+        objectUrl = URL.createObjectURL(asset[variant]);
+        setUrl(objectUrl);
+      })
+      .catch((e) => console.error("Failed to load image", e));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src, variant]);
+
+  return url;
+}
+
+/**
+ * Move base64 uploads saved by older versions into the asset store.
+ * Returns the rewritten image list, or null when nothing changed.
+ * SVG placeholders are tiny and stay inline.
+ */
+export async function migrateInlineImages(images: ArtworkImage[]): Promise<ArtworkImage[] | null> {
+  const inline = (src: string) => src.startsWith("data:image/") && !src.startsWith("data:image/svg");
+  if (!images.some((i) => inline(i.src))) return null;
+  return Promise.all(
+    images.map(async (i) => {
+      const blob = inline(i.src) ? dataURLToBlob(i.src) : undefined;
+      return blob ? { ...i, src: await storeUpload(blob) } : i;
+    })
+  );
+}
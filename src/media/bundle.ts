@@ -0,0 +1,73 @@
+import { answerFiles } from "../openCalls";
+import type { ArtistEntry } from "../types";
+import { assetId, getAsset, isAssetRef, putAsset, type StoredAsset } from "./assetStore";
+import { blobToDataURL, dataURLToBlob } from "./imagePipeline";
+
+/**
+ * Image blobs (and open call attachments) packed as data URLs so an export
+ * restored in another browser still has its pictures. See `exportFormat.ts` for the file envelope.
+ */
+export type BundledAsset = {
+  id: string;
+  width: number;
+  height: number;
+  createdAt: string;
+  full: string; // data URL
+  thumb: string; // data URL
+};
+
+export async function packAssets(entries: ArtistEntry[]): Promise<BundledAsset[]> {
+  const ids = Array.from(
+    new Set(
+      entries
+        .flatMap((e) => [...e.images.map((i) => i.src), ...answerFiles(e)])
+        .filter(isAssetRef)
+        .map(assetId)
+    )
+  );
+  const assets: BundledAsset[] = [];
+  for (const id of ids) {
+    const a = await getAsset(id);
+    if (!a) continue;
+    assets.push({
+      id: a.id,
+      width: a.width,
+      height: a.height,
+      createdAt: a.createdAt,
+      full: await blobToDataURL(a.full),
+      // Attachments have no thumbnail; restoring falls back to the full file
+      thumb: a.thumb.size ? await blobToDataURL(a.thumb) : "",
+    });
+  }
+  return assets;
+}
+
+/** Decode packed images without storing them, so nothing changes until an import is confirmed */
+export async function unpackAssets(assets: unknown): Promise<StoredAsset[]> {
+  const unpacked: StoredAsset[] = [];
+  for (const a of Array.isArray(assets) ? (assets as Partial<BundledAsset>[]) : []) {
+    if (!a || !a.id || typeof a.full !== "string") continue;
+    // Attachments (packed without a thumbnail) may be any type; everything else must be an image
+    const types = a.thumb ? "image/" : "";
+    const full = dataURLToBlob(a.full, types);
+    const thumb = a.thumb ? dataURLToBlob(String(a.thumb), types) : full;
+    if (!full || !thumb) continue;
+    unpacked.push({
+      id: String(a.id),
+      width: Number(a.width) || 0,
+      height: Number(a.height) || 0,
+      createdAt: String(a.createdAt ?? new Date().toISOString()),
+      full,
+      thumb,
+    });
+  }
+  return unpacked;
+}
+
+/** Write unpacked images into the asset store; ones already there stay unless `replace` says otherwise */
+export async function restoreAssets(assets: StoredAsset[], replace: (id: string) => boolean = () => false) {
+  for (const a of assets) {
+    if (!replace(a.id) && (await getAsset(a.id))) continue;
+    await putAsset(a);
+  }
+}
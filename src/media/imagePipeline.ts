@@ -0,0 +1,90 @@
+/**
+ * Client-side resize + re-encode for uploads.
+ * Every upload becomes two variants: `full` (for detail views) and `thumb` (for grids).
+ */
+
+export type ImageOptions = {
+  maxDimension: number; // longest edge of the full variant, px
+  thumbDimension: number; // longest edge of the thumbnail, px
+  quality: number; // 0..1 encoder quality
+  type: string; // preferred output mime type
+};
+
+export type ProcessedImage = {
+  full: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+};
+
+export const IMAGE_OPTIONS: ImageOptions = {
+  maxDimension: Number(import.meta.env.VITE_IMAGE_MAX_DIMENSION) || 1600,
+  thumbDimension: Number(import.meta.env.VITE_IMAGE_THUMB_DIMENSION) || 480,
+  quality: Number(import.meta.env.VITE_IMAGE_QUALITY) || 0.82,
+  type: "image/webp",
+};
+
+export async function processImage(file: Blob, options: ImageOptions = IMAGE_OPTIONS): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const full = await encode(bitmap, options.maxDimension, options);
+    const thumb = await encode(bitmap, options.thumbDimension, options);
+    return { full: full.blob, thumb: thumb.blob, width: full.width, height: full.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function encode(bitmap: ImageBitmap, maxDimension: number, options: ImageOptions) {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  let blob = await toBlob(canvas, options.type, options.quality);
+  // Browsers without WebP encoding silently fall back to PNG, which is much larger
+  if (blob.type !== options.type) blob = await toBlob(canvas, "image/jpeg", options.quality);
+  return { blob, width, height };
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode image"))), type, quality);
+  });
+}
+
+export async function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Decode a `data:` URL whose type starts with `types` (images unless told otherwise) without fetching it.
+ * Anything else, such as a web address in an imported file, gives undefined.
+ */
+export function dataURLToBlob(url: string, types = "image/"): Blob | undefined {
+  const comma = url.indexOf(",");
+  if (!url.startsWith("data:") || comma === -1) return undefined;
+  const [type, ...params] = url.slice("data:".length, comma).split(";");
+  if (!type.toLowerCase().startsWith(types)) return undefined;
+  const payload = url.slice(comma + 1);
+  try {
+    const data = params.includes("base64")
+      ? Uint8Array.from(atob(payload), (c) => c.charCodeAt(0))
+      : decodeURIComponent(payload);
+    return new Blob([data], { type });
+  } catch {
+    return undefined; // malformed base64 or escapes
+  }
+}
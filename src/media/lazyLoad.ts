@@ -0,0 +1,31 @@
+import { useEffect, useRef, useState } from "react";
+
+// Start loading a little before an image scrolls into view
+const ROOT_MARGIN = "300px";
+
+/**
+ * True once the element has come near the viewport, and from then on.
+ * Lets images skip their IndexedDB read and decode until they can be seen.
+ */
+export function useNearViewport<T extends Element>() {
+  const ref = useRef<T | null>(null);
+  const [near, setNear] = useState(typeof IntersectionObserver === "undefined");
+
+  useEffect(() => {
+    const el = ref.current;
+    if (near || !el) return;
+    const observer = new IntersectionObserver(
+      (records) => {
+        if (records.some((r) => r.isIntersecting)) {
+          setNear(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: ROOT_MARGIN }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [near]);
+
+  return [ref, near] as const;
+}
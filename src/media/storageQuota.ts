@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+
+export type StorageStatus = {
+  usage: number; // bytes
+  quota: number; // bytes
+  ratio: number; // usage / quota
+  source: "origin" | "localStorage";
+};
+
+/** Warn once this share of the available space is used */
+export const STORAGE_WARN_RATIO = 0.8;
+
+// Browsers cap localStorage at roughly 5 MB per origin, separate from the IndexedDB quota
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+function localStorageUsage() {
+  let chars = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i) ?? "";
+    chars += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return chars * 2; // UTF-16
+}
+
+/** The tighter of the origin quota (IndexedDB etc.) and the localStorage cap */
+export async function estimateStorage(): Promise<StorageStatus> {
+  const lsUsage = localStorageUsage();
+  const local: StorageStatus = {
+    usage: lsUsage,
+    quota: LOCAL_STORAGE_QUOTA,
+    ratio: lsUsage / LOCAL_STORAGE_QUOTA,
+    source: "localStorage",
+  };
+  if (!navigator.storage?.estimate) return local;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota) return local;
+  const origin: StorageStatus = { usage, quota, ratio: usage / quota, source: "origin" };
+  return origin.ratio > local.ratio ? origin : local;
+}
+
+/** Re-estimate whenever `deps` change */
+export function useStorageStatus(deps: unknown[]) {
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    estimateStorage()
+      .then((s) => !cancelled && setStatus(s))
+      .catch((e) => console.error("Storage estimate failed", e));
+    return () => {
+      cancelled = true;
+    };
+  }, deps);
+  return status;
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,217 @@
+import { cleanList } from "./data";
+import type { ArtTypeMapping } from "./taxonomy";
+import type { ArtistEntry, CallAnswer, CallFile } from "./types";
+import type { FieldErrors } from "./validation";
+
+/**
+ * Open calls: themed submission rounds ("Zine issue 4 — deadline Nov 30"),
+ * each with a brief, open and close dates, optionally a narrower set of art
+ * types, and questions of its own. Entries submitted to a call keep its id and
+ * the answers, keyed by field id, so a question can be relabelled later.
+ */
+
+export type CallFieldKind = "text" | "select" | "checkbox" | "file";
+
+export const CALL_FIELD_KINDS: Record<CallFieldKind, string> = {
+  text: "Text",
+  select: "Choice",
+  checkbox: "Checkbox",
+  file: "File",
+};
+
+export type CallField = {
+  id: string;
+  label: string;
+  kind: CallFieldKind;
+  required: boolean; // a required checkbox must be ticked, e.g. "I agree to the terms"
+  help: string;
+  options: string[]; // select only
+};
+
+export type OpenCall = {
+  id: string;
+  title: string;
+  brief: string;
+  opensAt: string; // YYYY-MM-DD, local; "" opens straight away
+  closesAt: string; // YYYY-MM-DD, local, the last day submissions are accepted; "" for no deadline
+  artTypes: string[]; // empty for any
+  fields: CallField[]; // in form order
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  updatedBy?: string; // see auth/permissions.ts
+};
+
+export type CallStatus = "upcoming" | "open" | "closed";
+
+export const CALL_LIMITS = {
+  text: 2000,
+  fileBytes: 10 * 1024 * 1024,
+};
+
+export function newOpenCall(title: string, by?: string): OpenCall {
+  const at = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    title: title.trim(),
+    brief: "",
+    opensAt: "",
+    closesAt: "",
+    artTypes: [],
+    fields: [],
+    createdAt: at,
+    updatedAt: at,
+    updatedBy: by,
+  };
+}
+
+export function newCallField(kind: CallFieldKind): CallField {
+  return { id: crypto.randomUUID(), label: "", kind, required: false, help: "", options: [] };
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Coerce stored or imported data */
+export function sanitizeOpenCalls(list: unknown): OpenCall[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((c) => c && typeof c === "object" && c.id)
+    .map((c: any) => {
+      const createdAt = String(c.createdAt ?? new Date().toISOString());
+      return {
+        id: String(c.id),
+        title: String(c.title ?? "").trim() || "Untitled call",
+        brief: String(c.brief ?? ""),
+        opensAt: DATE.test(c.opensAt) ? c.opensAt : "",
+        closesAt: DATE.test(c.closesAt) ? c.closesAt : "",
+        artTypes: Array.isArray(c.artTypes) ? cleanList(c.artTypes.map(String)) : [],
+        fields: (Array.isArray(c.fields) ? c.fields : [])
+          .filter((f: any) => f && f.id && f.kind in CALL_FIELD_KINDS)
+          .map((f: any) => ({
+            id: String(f.id),
+            label: String(f.label ?? ""),
+            kind: f.kind as CallFieldKind,
+            required: Boolean(f.required),
+            help: String(f.help ?? ""),
+            options: Array.isArray(f.options) ? cleanList(f.options.map(String)) : [],
+          })),
+        createdAt,
+        updatedAt: String(c.updatedAt ?? createdAt),
+        updatedBy: c.updatedBy ? String(c.updatedBy) : undefined,
+      };
+    });
+}
+
+/** Apply a change to one call, stamping `updatedAt` and `updatedBy` */
+export function updateOpenCall(list: OpenCall[], id: string, change: Partial<OpenCall>, by?: string): OpenCall[] {
+  const at = new Date().toISOString();
+  return list.map((c) => (c.id === id ? { ...c, ...change, id, updatedAt: at, updatedBy: by } : c));
+}
+
+/** Renamed or merged art types (see taxonomy.ts) replaced in each call's list; changed calls are stamped */
+export function retypeOpenCalls(list: OpenCall[], mapping: ArtTypeMapping, by?: string): OpenCall[] {
+  const at = new Date().toISOString();
+  return list.map((c) => {
+    const artTypes = cleanList(c.artTypes.map((t) => mapping.get(t.toLowerCase()) ?? t));
+    const same = artTypes.length === c.artTypes.length && artTypes.every((t, i) => t === c.artTypes[i]);
+    return same ? c : { ...c, artTypes, updatedAt: at, updatedBy: by };
+  });
+}
+
+/** Import: calls in the file replace local ones with the same id, the rest are kept */
+export function mergeOpenCalls(local: OpenCall[], incoming: OpenCall[]) {
+  const ids = new Set(incoming.map((c) => c.id));
+  return [...local.filter((c) => !ids.has(c.id)), ...incoming];
+}
+
+/** Today as YYYY-MM-DD in the viewer's time zone, to compare with call dates */
+export function localDate(now = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function callStatus(call: OpenCall, now = new Date()): CallStatus {
+  const today = localDate(now);
+  if (call.opensAt && today < call.opensAt) return "upcoming";
+  if (call.closesAt && today > call.closesAt) return "closed";
+  return "open";
+}
+
+/** "Open until 30 Nov 2026", "Opens 1 Dec 2026", "Closed 30 Nov 2026" */
+export function describeCallDates(call: OpenCall, now = new Date()) {
+  const day = (d: string) =>
+    new Date(`${d}T00:00:00`).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+  const status = callStatus(call, now);
+  if (status === "upcoming") return `Opens ${day(call.opensAt)}`;
+  if (status === "closed") return `Closed ${day(call.closesAt)}`;
+  return call.closesAt ? `Open until ${day(call.closesAt)}` : "Open, no deadline";
+}
+
+export function acceptsArtType(call: OpenCall, artType: string) {
+  return call.artTypes.length === 0 || call.artTypes.includes(artType);
+}
+
+/** Problems with a call definition that would make its form unusable */
+export function validateOpenCall(call: OpenCall): string[] {
+  const problems: string[] = [];
+  if (!call.title.trim()) problems.push("Give the call a title.");
+  if (call.opensAt && call.closesAt && call.closesAt < call.opensAt) problems.push("It closes before it opens.");
+  call.fields.forEach((f, i) => {
+    const which = f.label.trim() ? `"${f.label.trim()}"` : `Question ${i + 1}`;
+    if (!f.label.trim()) problems.push(`${which} needs a label.`);
+    if (f.kind === "select" && f.options.length < 2) problems.push(`${which} needs at least two choices.`);
+  });
+  return problems;
+}
+
+export function isCallFile(answer: CallAnswer | undefined): answer is CallFile {
+  return typeof answer === "object" && answer !== null;
+}
+
+/** Errors keyed `call.<field id>`, alongside the form's own keys (see validation.ts) */
+export function validateAnswers(call: OpenCall, answers: Record<string, CallAnswer>): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const f of call.fields) {
+    const a = answers[f.id];
+    const key = `call.${f.id}`;
+    if (f.kind === "checkbox") {
+      if (f.required && a !== true) errors[key] = "Tick this to continue.";
+    } else if (f.kind === "file") {
+      if (f.required && !isCallFile(a)) errors[key] = "Attach a file.";
+      else if (isCallFile(a) && a.size > CALL_LIMITS.fileBytes) errors[key] = "That file is too large.";
+    } else {
+      const text = typeof a === "string" ? a.trim() : "";
+      if (f.required && !text) errors[key] = f.kind === "select" ? "Choose an option." : "Answer this question.";
+      else if (f.kind === "select" && text && !f.options.includes(text)) errors[key] = "Choose one of the options.";
+      else if (text.length > CALL_LIMITS.text) {
+        errors[key] = `Too long (${text.length}/${CALL_LIMITS.text} characters).`;
+      }
+    }
+  }
+  return errors;
+}
+
+/** Answers to keep: only the call's own questions, with text trimmed and blanks left out */
+export function cleanAnswers(call: OpenCall, answers: Record<string, CallAnswer>) {
+  const kept: Record<string, CallAnswer> = {};
+  for (const f of call.fields) {
+    const a = answers[f.id];
+    if (typeof a === "string" ? a.trim() : a !== undefined && a !== false) {
+      kept[f.id] = typeof a === "string" ? a.trim() : a;
+    }
+  }
+  return kept;
+}
+
+/** Uploaded files an entry's answers point at, to keep when pruning assets */
+export function answerFiles(entry: Pick<ArtistEntry, "answers">) {
+  return Object.values(entry.answers ?? {})
+    .filter(isCallFile)
+    .map((f) => f.src);
+}
+
+/** An answer as plain text, for lists and CSV */
+export function formatAnswer(answer: CallAnswer | undefined) {
+  if (answer === undefined) return "";
+  if (typeof answer === "boolean") return answer ? "Yes" : "No";
+  return typeof answer === "string" ? answer : answer.name;
+}
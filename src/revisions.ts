@@ -0,0 +1,108 @@
+import { answerFiles } from "./openCalls";
+import type { ArtistEntry, ArtworkImage, EditableFields, Revision } from "./types";
+
+/**
+ * Fields an edit can change; everything else (id, createdAt, review state) is fixed.
+ * `place` travels with `location` in snapshots but is derived, so it is not listed.
+ */
+export const EDITABLE_FIELDS = [
+  "name",
+  "artType",
+  "disciplines",
+  "tags",
+  "location",
+  "bio",
+  "images",
+  "links",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+export const FIELD_LABELS: Record<EditableField, string> = {
+  name: "Name",
+  artType: "Art type",
+  disciplines: "Other disciplines",
+  tags: "Tags",
+  location: "Location",
+  bio: "Bio",
+  images: "Images",
+  links: "Links",
+};
+
+export type FieldChange = { field: EditableField; before: string; after: string };
+
+// Oldest revisions are dropped past this point
+const MAX_REVISIONS = 50;
+
+export function snapshot(entry: EditableFields): EditableFields {
+  return {
+    name: entry.name,
+    artType: entry.artType,
+    disciplines: [...entry.disciplines],
+    tags: [...entry.tags],
+    location: entry.location,
+    place: entry.place && { ...entry.place },
+    bio: entry.bio,
+    images: entry.images.map((i) => ({ ...i })),
+    links: entry.links.map((l) => ({ ...l })),
+  };
+}
+
+/** Human-readable value used for diffing and display */
+export function formatField(field: EditableField, value: EditableFields[EditableField]): string {
+  if (field === "links") return (value as EditableFields["links"]).map((l) => `${l.label}: ${l.url}`).join("\n");
+  if (field === "images") return `${(value as ArtworkImage[]).length} image(s)`;
+  if (field === "disciplines" || field === "tags") return (value as string[]).join(", ");
+  return String(value);
+}
+
+export function diffSnapshots(before: EditableFields, after: EditableFields): FieldChange[] {
+  return EDITABLE_FIELDS.filter((f) => JSON.stringify(before[f]) !== JSON.stringify(after[f])).map((field) => ({
+    field,
+    before: field === "images" ? describeImages(before.images, after.images) : formatField(field, before[field]),
+    after: field === "images" ? describeImages(after.images, before.images) : formatField(field, after[field]),
+  }));
+}
+
+// "3 image(s)" alone hides swaps, reorders and caption edits, so note what differs
+function describeImages(side: ArtworkImage[], other: ArtworkImage[]) {
+  const otherSrcs = other.map((i) => i.src);
+  const unique = side.filter((i) => !otherSrcs.includes(i.src)).length;
+  if (unique) return `${side.length} image(s), ${unique} not in the other version`;
+  const cover = side[0] && side[0].src !== other[0]?.src ? `, cover: image ${otherSrcs.indexOf(side[0].src) + 1}` : "";
+  return `${side.length} image(s)${cover || ", reordered or captions changed"}`;
+}
+
+/**
+ * Build the repository patch for an edit: the new field values, `updatedAt`,
+ * and a revision holding the state being replaced (and `by` whom). Returns null when nothing changed.
+ */
+export function recordEdit(
+  current: ArtistEntry,
+  next: EditableFields,
+  { at = new Date().toISOString(), by }: { at?: string; by?: string } = {}
+) {
+  const before = snapshot(current);
+  const after = snapshot(next);
+  if (diffSnapshots(before, after).length === 0) return null;
+  const revision: Revision = {
+    id: crypto.randomUUID(),
+    at: current.updatedAt ?? current.createdAt,
+    savedAt: at,
+    savedBy: by,
+    before,
+  };
+  return {
+    ...after,
+    updatedAt: at,
+    revisions: [...current.revisions, revision].slice(-MAX_REVISIONS),
+  } satisfies Partial<ArtistEntry>;
+}
+
+/** Every stored file an entry points at: its images, including ones only kept for revert, and call attachments */
+export function referencedAssets(entry: ArtistEntry) {
+  return [
+    ...[...entry.images, ...entry.revisions.flatMap((r) => r.before.images)].map((i) => i.src),
+    ...answerFiles(entry),
+  ];
+}
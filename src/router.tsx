@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { NO_FACETS, type FacetFilters, type FacetMode } from "./facets";
+import { SORT_LABELS, type SortKey } from "./search";
+import { MISSING_LABELS, type MissingKey } from "./stats";
+
+/**
+ * Minimal History API router. Paths:
+ *   /  or /directory?q=&call=&added=&missing=&art=&country=&city=&tag=&link=&view=map&sort=&page=
+ *                                   directory with search and facets; art/country/city/tag/link repeat,
+ *                                   artMatch=all / tagMatch=all require every ticked value; call= one open call,
+ *                                   added=YYYY-MM the month an entry came in, missing=images|bio|links
+ *   /submit?call=                   submission form, general or for an open call
+ *   /review                         moderation queue
+ *   /trash                          deleted entries
+ *   /collections                    curator collections
+ *   /collections/:id                one collection: order and notes
+ *   /art-types                      art type list (taxonomy) admin
+ *   /calls                          open calls
+ *   /calls/:id                      one open call: brief, dates and questions
+ *   /stats                          charts of the directory, each linking back to it filtered
+ *   /duplicates                     possible duplicate artists
+ *   /duplicates?a=:id&b=:id         merge two entries field by field
+ *   /catalogue?collection=:id       printable catalogue of a collection
+ *   /catalogue?q=&art=…             printable catalogue of a directory view (same filters)
+ *   /artist/:id                     artist page
+ *   /artist/:id/edit                edit form
+ *   /claim?token=                   an artist's edit link: signs them in, then opens their page
+ * Hosting must serve index.html for unknown paths (see public/_redirects and vercel.json).
+ */
+
+export type DirectoryFilters = { q: string; call: string; added: string; missing: MissingKey | "" } & FacetFilters;
+
+export type DirectoryView = "grid" | "map";
+
+export type DirectoryState = DirectoryFilters & { view: DirectoryView; sort: SortKey; page: number };
+
+export type Route =
+  | ({ name: "directory" } & DirectoryState)
+  | { name: "submit"; call: string }
+  | { name: "review" }
+  | { name: "trash" }
+  | { name: "collections" }
+  | { name: "collection"; id: string }
+  | { name: "artTypes" }
+  | { name: "calls" }
+  | { name: "call"; id: string }
+  | { name: "stats" }
+  | { name: "duplicates"; a: string; b: string }
+  | { name: "catalogue"; collection?: string; filters: DirectoryState }
+  | { name: "artist"; id: string }
+  | { name: "edit"; id: string }
+  | { name: "claim"; token: string }
+  | { name: "notFound"; path: string };
+
+export const NO_FILTERS: DirectoryFilters = { q: "", call: "", added: "", missing: "", ...NO_FACETS };
+
+const matchMode = (v: string | null): FacetMode => (v === "all" ? "all" : "any");
+
+export function parseRoute(pathname: string, search: string): Route {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  const params = new URLSearchParams(search);
+  if (path === "/" || path === "/directory") return { name: "directory", ...parseDirectoryState(params) };
+  if (path === "/submit") return { name: "submit", call: params.get("call") ?? "" };
+  if (path === "/review") return { name: "review" };
+  if (path === "/trash") return { name: "trash" };
+  if (path === "/collections") return { name: "collections" };
+  if (path === "/art-types") return { name: "artTypes" };
+  if (path === "/calls") return { name: "calls" };
+  if (path === "/stats") return { name: "stats" };
+  if (path === "/duplicates") return { name: "duplicates", a: params.get("a") ?? "", b: params.get("b") ?? "" };
+  if (path === "/claim") return { name: "claim", token: params.get("token") ?? "" };
+  if (path === "/catalogue") {
+    return {
+      name: "catalogue",
+      collection: params.get("collection") || undefined,
+      filters: parseDirectoryState(params),
+    };
+  }
+  const collection = path.match(/^\/collections\/([^/]+)$/);
+  if (collection) return { name: "collection", id: decodeURIComponent(collection[1]) };
+  const call = path.match(/^\/calls\/([^/]+)$/);
+  if (call) return { name: "call", id: decodeURIComponent(call[1]) };
+  const artist = path.match(/^\/artist\/([^/]+)(\/edit)?$/);
+  if (artist) return { name: artist[2] ? "edit" : "artist", id: decodeURIComponent(artist[1]) };
+  return { name: "notFound", path };
+}
+
+function parseDirectoryState(params: URLSearchParams): DirectoryState {
+  return {
+    q: params.get("q") ?? "",
+    call: params.get("call") ?? "",
+    added: /^\d{4}-\d{2}$/.test(params.get("added") ?? "") ? params.get("added")! : "",
+    missing: (params.get("missing") ?? "") in MISSING_LABELS ? (params.get("missing") as MissingKey) : "",
+    art: params.getAll("art").filter(Boolean),
+    country: params.getAll("country").filter(Boolean),
+    // `loc` held the raw location before places were resolved; those links now filter by city
+    city: [...params.getAll("city"), ...params.getAll("loc")].filter(Boolean),
+    tag: params.getAll("tag").filter(Boolean),
+    link: params.getAll("link").filter(Boolean),
+    artMatch: matchMode(params.get("artMatch")),
+    tagMatch: matchMode(params.get("tagMatch")),
+    view: params.get("view") === "map" ? "map" : "grid",
+    sort: (params.get("sort") ?? "") in SORT_LABELS ? (params.get("sort") as SortKey) : "relevance",
+    page: Math.max(1, Math.floor(Number(params.get("page"))) || 1),
+  };
+}
+
+export function directoryPath(state: Partial<DirectoryState> = {}) {
+  const query = directoryParams(state).toString();
+  return `/directory${query ? `?${query}` : ""}`;
+}
+
+function directoryParams(state: Partial<DirectoryState>) {
+  const {
+    q,
+    call,
+    added,
+    missing,
+    art,
+    country,
+    city,
+    tag,
+    link,
+    artMatch,
+    tagMatch,
+    view = "grid",
+    sort = "relevance",
+    page = 1,
+  } = { ...NO_FILTERS, ...state };
+  const params = new URLSearchParams();
+  if (q.trim()) params.set("q", q);
+  if (call) params.set("call", call);
+  if (added) params.set("added", added);
+  if (missing) params.set("missing", missing);
+  art.forEach((v) => params.append("art", v));
+  if (artMatch === "all" && art.length) params.set("artMatch", "all");
+  country.forEach((v) => params.append("country", v));
+  city.forEach((v) => params.append("city", v));
+  tag.forEach((v) => params.append("tag", v));
+  if (tagMatch === "all" && tag.length) params.set("tagMatch", "all");
+  link.forEach((v) => params.append("link", v));
+  if (view === "map") params.set("view", "map");
+  if (sort !== "relevance") params.set("sort", sort);
+  if (page > 1) params.set("page", String(page));
+  return params;
+}
+
+/** Catalogue of one collection, or of a directory view (every page, in its sort order) */
+export function cataloguePath(source: { collection: string } | Partial<DirectoryState>) {
+  const params =
+    "collection" in source
+      ? new URLSearchParams({ collection: source.collection })
+      : directoryParams({ ...source, view: "grid", page: 1 });
+  const query = params.toString();
+  return `/catalogue${query ? `?${query}` : ""}`;
+}
+
+export function collectionPath(id: string) {
+  return `/collections/${encodeURIComponent(id)}`;
+}
+
+export function callPath(id: string) {
+  return `/calls/${encodeURIComponent(id)}`;
+}
+
+export function submitPath(call = "") {
+  return call ? `/submit?${new URLSearchParams({ call })}` : "/submit";
+}
+
+/** The duplicates list, or the merge screen for two entries (`a` survives unless changed there) */
+export function duplicatesPath(a = "", b = "") {
+  return a && b ? `/duplicates?${new URLSearchParams({ a, b })}` : "/duplicates";
+}
+
+export function artistPath(id: string) {
+  return `/artist/${encodeURIComponent(id)}`;
+}
+
+export function editPath(id: string) {
+  return `${artistPath(id)}/edit`;
+}
+
+export function editLinkPath(token: string) {
+  return `/claim?${new URLSearchParams({ token })}`;
+}
+
+const NAVIGATE_EVENT = "ll:navigate";
+
+/** Push (or replace) a path and notify every `useRoute` */
+export function navigate(path: string, { replace = false } = {}) {
+  if (path === window.location.pathname + window.location.search) return;
+  if (replace) window.history.replaceState(null, "", path);
+  else window.history.pushState(null, "", path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/** `url` stands in for window.location when prerendering, where there is no window */
+export function useRoute(url?: string): Route {
+  const read = useCallback(() => parseRoute(window.location.pathname, window.location.search), []);
+  const [route, setRoute] = useState<Route>(() => {
+    if (typeof window !== "undefined") return read();
+    const { pathname, search } = new URL(url ?? "/", "http://localhost");
+    return parseRoute(pathname, search);
+  });
+
+  useEffect(() => {
+    const update = () => setRoute(read());
+    window.addEventListener("popstate", update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener("popstate", update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, [read]);
+
+  return route;
+}
+
+/** In-app link: plain <a> for new tabs and copying, client-side navigation on normal clicks */
+export function Link({ to, onClick, ...rest }: { to: string } & React.AnchorHTMLAttributes<HTMLAnchorElement>) {
+  return (
+    <a
+      href={to}
+      onClick={(e) => {
+        onClick?.(e);
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        e.preventDefault();
+        navigate(to);
+        window.scrollTo({ top: 0 });
+      }}
+      {...rest}
+    />
+  );
+}
@@ -0,0 +1,140 @@
+import { sanitize } from "./data";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Versions of the stored/exported `ArtistEntry` shape:
+ *   0 — original demo: id, name, artType, location, bio, images (data URLs), links, createdAt
+ *   1 — moderation: status, reviewNote, reviewedAt, reviewLog
+ *   2 — editing: updatedAt, revisions; images may be `asset:` refs
+ *   3 — disciplines (besides the primary artType) and tags
+ *   4 — images are `{ src, caption, alt }` objects instead of bare strings; the first is the cover
+ * `place` is derived from `location` whenever entries are sanitized, so it needed no version.
+ * Optional additions that older records simply lack (`createdBy`, `callId`, `answers`) need none either.
+ * Bump CURRENT_SCHEMA_VERSION and append a step to MIGRATIONS whenever the shape changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+export type MigrationFailure = {
+  index: number; // position in the input
+  id?: string;
+  name?: string;
+  reason: string;
+  record: unknown; // untouched original, so nothing is lost
+};
+
+export type MigrationReport = {
+  entries: ArtistEntry[];
+  failures: MigrationFailure[];
+  /** Oldest version seen in the input */
+  fromVersion: number;
+};
+
+// MIGRATIONS[n] upgrades one record from version n to n + 1
+const MIGRATIONS: ((record: Record<string, any>) => Record<string, any>)[] = [
+  // 0 → 1: moderation fields. Entries saved before moderation existed were already public.
+  (r) => {
+    if (typeof r.name !== "string" || !r.name.trim()) throw new MigrationError("Missing artist name");
+    if (r.images !== undefined && !Array.isArray(r.images)) throw new MigrationError("`images` is not a list");
+    if (r.links !== undefined && !Array.isArray(r.links)) throw new MigrationError("`links` is not a list");
+    return { status: "approved", reviewNote: "", reviewLog: [], ...r };
+  },
+  // 1 → 2: revision history
+  (r) => {
+    if (r.revisions !== undefined && !Array.isArray(r.revisions)) throw new MigrationError("`revisions` is not a list");
+    return { revisions: [], ...r };
+  },
+  // 2 → 3: disciplines and tags
+  (r) => {
+    if (r.disciplines !== undefined && !Array.isArray(r.disciplines)) {
+      throw new MigrationError("`disciplines` is not a list");
+    }
+    if (r.tags !== undefined && !Array.isArray(r.tags)) throw new MigrationError("`tags` is not a list");
+    return { disciplines: [], tags: [], ...r };
+  },
+  // 3 → 4: images become objects, in revisions too
+  (r) => {
+    const images = (list: unknown, where: string) => {
+      if (list === undefined) return [];
+      if (!Array.isArray(list)) throw new MigrationError(`${where} is not a list`);
+      return list.map((src) => {
+        if (typeof src !== "string") throw new MigrationError(`${where} holds a non-text image reference`);
+        return { src, caption: "", alt: "" };
+      });
+    };
+    return {
+      ...r,
+      images: images(r.images, "`images`"),
+      revisions: Array.isArray(r.revisions)
+        ? r.revisions.map((rev: any) =>
+            rev && rev.before
+              ? { ...rev, before: { ...rev.before, images: images(rev.before.images, "A revision's `images`") } }
+              : rev
+          )
+        : r.revisions,
+    };
+  },
+];
+
+/**
+ * Upgrade raw records to the current shape. `version` is the version of the whole
+ * input, or a per-record lookup for stores that tag each row.
+ * Records that fail are reported rather than dropped silently.
+ */
+export function migrateRecords(records: unknown[], version: number | ((record: any) => number)): MigrationReport {
+  const entries: unknown[] = [];
+  const failures: MigrationFailure[] = [];
+  let fromVersion = CURRENT_SCHEMA_VERSION;
+
+  records.forEach((record, index) => {
+    const r = record as any;
+    try {
+      if (!r || typeof r !== "object" || Array.isArray(r)) throw new MigrationError("Not an entry object");
+      const from = typeof version === "function" ? version(r) : version;
+      if (!Number.isInteger(from) || from < 0) throw new MigrationError(`Unknown schema version ${from}`);
+      if (from > CURRENT_SCHEMA_VERSION) {
+        throw new MigrationError(
+          `Made by a newer version (schema ${from}); this app reads up to ${CURRENT_SCHEMA_VERSION}`
+        );
+      }
+      fromVersion = Math.min(fromVersion, from);
+      let next: Record<string, any> = { ...r };
+      delete next.schemaVersion;
+      for (let v = from; v < CURRENT_SCHEMA_VERSION; v++) next = MIGRATIONS[v](next);
+      entries.push(next);
+    } catch (e) {
+      failures.push({
+        index,
+        id: r && r.id != null ? String(r.id) : undefined,
+        name: r && typeof r.name === "string" ? r.name : undefined,
+        reason: e instanceof MigrationError ? e.message : `Unexpected error: ${String(e)}`,
+        record,
+      });
+    }
+  });
+
+  return { entries: sanitize(entries), failures, fromVersion };
+}
+
+/** Stores that keep one row per entry tag each row with the version it was written in */
+export function tagRecord<T extends object>(record: T) {
+  return { ...record, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+/** Migrate a single tagged row, throwing the failure reason */
+export function migrateRecord(record: unknown, version: number | ((record: any) => number)): ArtistEntry {
+  const { entries, failures } = migrateRecords([record], version);
+  if (failures.length) throw new MigrationError(failures[0].reason);
+  return entries[0];
+}
+
+/** One line per failure, for banners and alerts */
+export function describeFailures(failures: MigrationFailure[]) {
+  return failures.map((f) => `#${f.index + 1}${f.name ? ` ${f.name}` : f.id ? ` (${f.id})` : ""}: ${f.reason}`);
+}
@@ -0,0 +1,252 @@
+import { entryArtTypes } from "./data";
+import { entryPlatforms, platformLabel } from "./links";
+import { fold, foldWithMap } from "./text";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Directory search: diacritic-folded, typo-tolerant, ranked.
+ * Query syntax:
+ *   words            every word must match some field (typos allowed on longer words)
+ *   "quoted phrase"  exact phrase, after folding
+ *   field:word       restrict to one field — name:, type: (art:), tag:, loc: (location:, city:), bio:, link:
+ *   field:"phrase"   both combined
+ */
+
+export type SearchField = "name" | "artType" | "tags" | "location" | "bio" | "links";
+
+export type SearchTerm = { text: string; phrase: boolean; field?: SearchField };
+
+export type SearchHit = {
+  entry: ArtistEntry;
+  score: number;
+  /** Folded words/phrases that matched, per field — used for highlighting */
+  matches: Partial<Record<SearchField, string[]>>;
+};
+
+/** Result orders; "relevance" falls back to name when there is no query */
+export type SortKey = "relevance" | "name" | "newest" | "location" | "artType";
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  relevance: "Best match",
+  name: "Name",
+  newest: "Newest",
+  location: "Location",
+  artType: "Art type",
+};
+
+// One collator for every comparison; String.localeCompare builds one per call
+const collator = new Intl.Collator(undefined, { sensitivity: "base", numeric: true });
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  artType: 2,
+  tags: 2,
+  location: 2,
+  links: 1.5,
+  bio: 1,
+};
+
+const FIELD_PREFIXES: Record<string, SearchField> = {
+  name: "name",
+  type: "artType",
+  art: "artType",
+  arttype: "artType",
+  tag: "tags",
+  tags: "tags",
+  loc: "location",
+  location: "location",
+  city: "location",
+  bio: "bio",
+  link: "links",
+  links: "links",
+};
+
+function words(folded: string) {
+  return folded.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+export function parseQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const re = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(query))) {
+    const [, prefix, phrase, word] = m;
+    const field = prefix ? FIELD_PREFIXES[prefix.toLowerCase()] : undefined;
+    // An unknown prefix ("http:") is just part of the word
+    const raw = prefix && !field ? `${prefix}:${phrase ?? word ?? ""}` : (phrase ?? word ?? "");
+    const text = fold(raw).trim();
+    if (!text) continue;
+    if (phrase !== undefined && /\s/.test(text)) terms.push({ text, phrase: true, field });
+    else words(text).forEach((w) => terms.push({ text: w, phrase: false, field }));
+  }
+  return terms;
+}
+
+type IndexedEntry = { entry: ArtistEntry; text: Record<SearchField, string>; words: Record<SearchField, string[]> };
+
+export function buildIndex(entries: ArtistEntry[]): IndexedEntry[] {
+  return entries.map((entry) => {
+    const text: Record<SearchField, string> = {
+      name: fold(entry.name),
+      artType: fold(entryArtTypes(entry).join(", ")),
+      tags: fold(entry.tags.join(", ")),
+      // Canonical names too, so "loc:deutschland" or "munich" finds "München, DE"
+      location: fold([entry.location, entry.place?.city, entry.place?.region, entry.place?.country].join(" ")),
+      bio: fold(entry.bio),
+      // Platform names too, so "link:instagram" finds a link labelled "IG"
+      links: fold([...entry.links.map((l) => l.label), ...entryPlatforms(entry).map(platformLabel)].join(" ")),
+    };
+    const w = {} as Record<SearchField, string[]>;
+    (Object.keys(text) as SearchField[]).forEach((f) => (w[f] = words(text[f])));
+    return { entry, text, words: w };
+  });
+}
+
+/** Allowed edit distance grows with word length; short words must match exactly or by prefix */
+function maxTypos(len: number) {
+  return len >= 7 ? 2 : len >= 4 ? 1 : 0;
+}
+
+/** Optimal string alignment distance (Levenshtein + transpositions), capped at `max` + 1 */
+export function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      rowMin = Math.min(rowMin, d[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return d[a.length][b.length];
+}
+
+function scoreWord(term: string, w: string) {
+  if (w === term) return 10;
+  if (w.startsWith(term)) return 6 + 3 * (term.length / w.length);
+  const typos = maxTypos(term.length);
+  if (!typos) return 0;
+  // Compare with the word's same-length prefix too, so "risogr" still finds "risograph"
+  const dist = Math.min(
+    editDistance(term, w, typos),
+    w.length > term.length ? editDistance(term, w.slice(0, term.length), typos) : typos + 1
+  );
+  return dist <= typos ? 4 - dist : 0;
+}
+
+/**
+ * Score one word against one field's words; returns the matched word too.
+ * `cache` holds this term's score per word: art types, places and tags repeat
+ * across thousands of entries, so most lookups skip the edit distance.
+ */
+function matchWord(term: string, fieldWords: string[], cache: Map<string, number>): [number, string] | null {
+  let best: [number, string] | null = null;
+  for (const w of fieldWords) {
+    let s = cache.get(w);
+    if (s === undefined) cache.set(w, (s = scoreWord(term, w)));
+    if (s && (!best || s > best[0])) best = [s, w];
+  }
+  return best;
+}
+
+export function search(index: IndexedEntry[], query: string): SearchHit[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return index.map(({ entry }) => ({ entry, score: 0, matches: {} }));
+
+  const caches = terms.map(() => new Map<string, number>());
+  const hits: SearchHit[] = [];
+  for (const item of index) {
+    let score = 0;
+    const matches: SearchHit["matches"] = {};
+    let all = true;
+    for (const [t, term] of terms.entries()) {
+      const fields = term.field ? [term.field] : (Object.keys(FIELD_WEIGHTS) as SearchField[]);
+      let best = 0;
+      for (const f of fields) {
+        let s = 0;
+        let matched = "";
+        if (term.phrase) {
+          if (item.text[f].includes(term.text)) [s, matched] = [12, term.text];
+        } else {
+          const m = matchWord(term.text, item.words[f], caches[t]);
+          if (m) [s, matched] = m;
+        }
+        if (!s) continue;
+        (matches[f] ??= []).push(matched);
+        best = Math.max(best, s * FIELD_WEIGHTS[f]);
+      }
+      if (!best) {
+        all = false;
+        break;
+      }
+      score += best;
+    }
+    if (all) hits.push({ entry: item.entry, score, matches });
+  }
+  return hits.sort((a, b) => b.score - a.score || collator.compare(a.entry.name, b.entry.name));
+}
+
+/** Re-order hits; "relevance" keeps the order `search` returned */
+export function sortHits(hits: SearchHit[], sort: SortKey): SearchHit[] {
+  if (sort === "relevance") return hits;
+  // Keys are built once per hit rather than inside the comparator
+  const keys = (e: ArtistEntry): string[] => {
+    switch (sort) {
+      case "location":
+        // Country, then city; unrecognised places sort after every country
+        return e.place ? ["0", e.place.country, e.place.city ?? ""] : ["1", e.location];
+      case "artType":
+        return [e.artType];
+      default:
+        return [];
+    }
+  };
+  const keyed = hits.map((hit) => ({ hit, keys: keys(hit.entry) }));
+  keyed.sort((a, b) => {
+    if (sort === "newest") {
+      const order = b.hit.entry.createdAt.localeCompare(a.hit.entry.createdAt);
+      if (order) return order;
+    }
+    for (let i = 0; i < a.keys.length; i++) {
+      const order = collator.compare(a.keys[i], b.keys[i] ?? "");
+      if (order) return order;
+    }
+    return collator.compare(a.hit.entry.name, b.hit.entry.name);
+  });
+  return keyed.map((k) => k.hit);
+}
+
+/**
+ * Split `text` into plain and highlighted runs for the given folded words/phrases.
+ * Words match from the start of a word in the source text.
+ */
+export function highlightRuns(text: string, needles: string[] = []) {
+  if (!text || needles.length === 0) return [{ text, hit: false }];
+  const { folded, map } = foldWithMap(text);
+  const marks = new Array(folded.length).fill(false);
+  for (const n of new Set(needles)) {
+    if (!n) continue;
+    let from = 0;
+    let at: number;
+    while ((at = folded.indexOf(n, from)) !== -1) {
+      const atWordStart = at === 0 || !/[\p{L}\p{N}]/u.test(folded[at - 1]);
+      if (atWordStart) marks.fill(true, at, at + n.length);
+      from = at + 1;
+    }
+  }
+  const runs: { text: string; hit: boolean }[] = [];
+  let start = 0;
+  for (let i = 1; i <= folded.length; i++) {
+    if (i === folded.length || marks[i] !== marks[start]) {
+      const piece = text.slice(map[start], map[i]);
+      if (piece) runs.push({ text: piece, hit: marks[start] });
+      start = i;
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,119 @@
+import { entryArtTypes } from "./data";
+import { placeLabel } from "./geo/places";
+import { artistPath } from "./router";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Titles, descriptions and Open Graph tags for prerendered pages, and the
+ * sitemap. Plain strings so `scripts/prerender.mjs` can splice them into
+ * the built index.html.
+ */
+
+export type PageMeta = {
+  path: string;
+  title: string;
+  description: string;
+  image?: string; // site-relative or absolute URL
+  imageAlt?: string;
+  type: "website" | "profile";
+};
+
+export const SITE_NAME = "Love Letter — Artists";
+
+// Longer descriptions are cut off in search results anyway
+const DESCRIPTION_LENGTH = 160;
+
+export function directoryMeta(entries: ArtistEntry[]): PageMeta {
+  const types = mostCommon(entries.flatMap(entryArtTypes), 4);
+  const places = mostCommon(
+    entries.map((e) => (e.place ? placeLabel(e.place) : "")),
+    3
+  );
+  const cover = entries.find((e) => publicImage(e.images[0]?.src));
+  return {
+    path: "/",
+    title: SITE_NAME,
+    description: summarise(
+      `A directory of ${entries.length} artists` +
+        (types.length ? ` working in ${types.join(", ").toLowerCase()} and more` : "") +
+        (places.length ? `, from ${places.join(", ")} and beyond.` : ".")
+    ),
+    image: cover?.images[0].src,
+    imageAlt: cover ? `Work by ${cover.name}` : undefined,
+    type: "website",
+  };
+}
+
+export function artistMeta(entry: ArtistEntry): PageMeta {
+  const cover = entry.images[0];
+  const what = [entryArtTypes(entry).join(", "), entry.location].filter(Boolean).join(" • ");
+  return {
+    path: artistPath(entry.id),
+    title: `${entry.name} — Love Letter`,
+    description: summarise(entry.bio || `${entry.name}: ${what}`),
+    image: publicImage(cover?.src) ? cover.src : undefined,
+    imageAlt: cover ? cover.alt || cover.caption || `Work by ${entry.name}` : undefined,
+    type: "profile",
+  };
+}
+
+/** `<title>`, description, canonical link, Open Graph and Twitter card tags */
+export function headTags(meta: PageMeta, siteUrl: string) {
+  const url = absoluteUrl(meta.path, siteUrl);
+  const image = meta.image && absoluteUrl(meta.image, siteUrl);
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    `<meta property="og:site_name" content="${escapeHtml(SITE_NAME)}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(url)}" />`,
+    `<meta name="twitter:card" content="${image ? "summary_large_image" : "summary"}" />`,
+  ];
+  if (image) {
+    tags.push(`<meta property="og:image" content="${escapeHtml(image)}" />`);
+    if (meta.imageAlt) tags.push(`<meta property="og:image:alt" content="${escapeHtml(meta.imageAlt)}" />`);
+  }
+  return tags.join("\n    ");
+}
+
+export function sitemapXml(pages: { path: string; lastModified?: string }[], siteUrl: string) {
+  const urls = pages.map(
+    (p) =>
+      `  <url><loc>${escapeHtml(absoluteUrl(p.path, siteUrl))}</loc>` +
+      (p.lastModified ? `<lastmod>${p.lastModified.slice(0, 10)}</lastmod>` : "") +
+      `</url>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join("\n")}\n</urlset>\n`;
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Inline data: images (seed placeholders) cannot be linked from a preview card
+export function publicImage(src: string | undefined) {
+  return Boolean(src && /^(https?:\/\/|\/)/.test(src));
+}
+
+export function absoluteUrl(pathOrUrl: string, siteUrl: string) {
+  return new URL(pathOrUrl, siteUrl.endsWith("/") ? siteUrl : `${siteUrl}/`).toString();
+}
+
+function summarise(text: string) {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= DESCRIPTION_LENGTH) return flat;
+  const cut = flat.slice(0, DESCRIPTION_LENGTH - 1);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : cut.length).replace(/[,.;:—-]+$/, "")}…`;
+}
+
+function mostCommon(values: string[], n: number) {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, n)
+    .map(([v]) => v);
+}
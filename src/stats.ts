@@ -0,0 +1,125 @@
+import { toCsv } from "./csv";
+import { entryArtTypes } from "./data";
+import type { ArtistEntry } from "./types";
+
+/**
+ * Numbers for the stats page, all counted from the entries given (the
+ * directory's approved artists), so each one matches what the directory shows
+ * when the chart is clicked through. Months are `YYYY-MM` of `createdAt` (UTC).
+ */
+
+export type MissingKey = "images" | "bio" | "links";
+
+export const MISSING_LABELS: Record<MissingKey, string> = {
+  images: "Images",
+  bio: "Bio",
+  links: "Links",
+};
+
+export type Count = { label: string; count: number };
+
+export type Growth = { artType: string; totals: number[] }; // running total at the end of each month
+
+export type DirectoryStats = {
+  total: number;
+  months: Count[]; // every month from the first entry to the last, empty ones included
+  artTypes: Count[]; // an entry counts under its primary type and each discipline, like the art type facet
+  countries: Count[];
+  unplaced: number; // entries whose location was not recognised
+  missing: Record<MissingKey, number>;
+  growth: Growth[]; // the most common types, aligned with `months`
+};
+
+// Lines beyond this many make the growth chart unreadable
+const GROWTH_SERIES = 6;
+
+export function lacks(entry: ArtistEntry, key: MissingKey) {
+  if (key === "images") return entry.images.length === 0;
+  if (key === "bio") return !entry.bio.trim();
+  return entry.links.length === 0;
+}
+
+export function entryMonth(entry: ArtistEntry) {
+  return entry.createdAt.slice(0, 7);
+}
+
+/** "2026-03" → "Mar 2026" */
+export function monthLabel(month: string) {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+export function computeStats(entries: ArtistEntry[]): DirectoryStats {
+  const months = monthRange(entries.map(entryMonth));
+  const byMonth = tally(entries.map((e) => [entryMonth(e)]));
+  const artTypes = sortCounts(tally(entries.map(entryArtTypes)));
+  const countries = sortCounts(tally(entries.map((e) => (e.place ? [e.place.country] : []))));
+
+  const growth = artTypes.slice(0, GROWTH_SERIES).map(({ label }) => {
+    const added = tally(entries.filter((e) => entryArtTypes(e).includes(label)).map((e) => [entryMonth(e)]));
+    let running = 0;
+    return { artType: label, totals: months.map((m) => (running += added.get(m) ?? 0)) };
+  });
+
+  return {
+    total: entries.length,
+    months: months.map((m) => ({ label: m, count: byMonth.get(m) ?? 0 })),
+    artTypes,
+    countries,
+    unplaced: entries.filter((e) => !e.place).length,
+    missing: {
+      images: entries.filter((e) => lacks(e, "images")).length,
+      bio: entries.filter((e) => lacks(e, "bio")).length,
+      links: entries.filter((e) => lacks(e, "links")).length,
+    },
+    growth,
+  };
+}
+
+/** One table for spreadsheets: section, label, series (growth only), count, share of all entries in % */
+export function statsToCsv(stats: DirectoryStats) {
+  const share = (n: number) => (stats.total ? ((n / stats.total) * 100).toFixed(1) : "0");
+  const row = (section: string, label: string, count: number, series = "") => [
+    section,
+    label,
+    series,
+    String(count),
+    share(count),
+  ];
+  return toCsv([
+    ["section", "label", "series", "count", "share"],
+    row("Total", "Artists", stats.total),
+    ...stats.months.map((m) => row("Submissions per month", m.label, m.count)),
+    ...stats.artTypes.map((t) => row("Art type", t.label, t.count)),
+    ...stats.countries.map((c) => row("Country", c.label, c.count)),
+    row("Country", "Not recognised", stats.unplaced),
+    ...(Object.keys(MISSING_LABELS) as MissingKey[]).map((k) => row("Missing", MISSING_LABELS[k], stats.missing[k])),
+    ...stats.growth.flatMap((g) => stats.months.map((m, i) => row("Art type growth", m.label, g.totals[i], g.artType))),
+  ]);
+}
+
+function tally(values: string[][]) {
+  const counts = new Map<string, number>();
+  values.forEach((list) => new Set(list).forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1)));
+  return counts;
+}
+
+function sortCounts(counts: Map<string, number>): Count[] {
+  return Array.from(counts, ([label, count]) => ({ label, count })).sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label)
+  );
+}
+
+// Every month between the earliest and latest given, in order
+function monthRange(months: string[]) {
+  const valid = months.filter((m) => /^\d{4}-\d{2}$/.test(m)).sort();
+  if (!valid.length) return [];
+  const [first, last] = [valid[0], valid[valid.length - 1]];
+  const range: string[] = [];
+  let [year, month] = first.split("-").map(Number);
+  for (let m = first; m <= last; m = `${year}-${String(month).padStart(2, "0")}`) {
+    range.push(m);
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+  return range;
+}
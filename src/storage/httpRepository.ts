@@ -0,0 +1,125 @@
+import { sanitizeCollections } from "../collections";
+import { sanitizeOpenCalls } from "../openCalls";
+import { sanitizeArtTypes } from "../taxonomy";
+import { CURRENT_SCHEMA_VERSION, migrateRecord, migrateRecords, tagRecord, type MigrationFailure } from "../schema";
+import type { ArtistEntry } from "../types";
+import type { ArtistRepository } from "./repository";
+
+// Rows written before per-row version tags existed (the first HTTP clients) are in this shape
+const UNTAGGED_VERSION = 2;
+const rowVersion = (row: any) => row.schemaVersion ?? UNTAGGED_VERSION;
+
+/**
+ * REST client for `/artists`, `/collections` and `/art-types`. The same shape is served by `server/mock-api.mjs`
+ * for offline development.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function createHttpRepository(baseUrl: string): ArtistRepository {
+  const root = baseUrl.replace(/\/+$/, "");
+  let migrationFailures: MigrationFailure[] = [];
+
+  async function request(path: string, init?: RequestInit) {
+    const res = await fetch(`${root}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new HttpError(body?.error ?? `Request failed: ${res.status} ${res.statusText}`, res.status);
+    }
+    return res.status === 204 ? null : res.json();
+  }
+
+  // The server merges a PATCH into the stored row. A row in an older shape gets the whole upgraded
+  // record, since a tagged partial patch would mark the fields it leaves alone as upgraded too.
+  async function patch(id: string, changes: Partial<ArtistEntry>) {
+    const path = `/artists/${encodeURIComponent(id)}`;
+    const row = await request(path);
+    const next =
+      rowVersion(row) === CURRENT_SCHEMA_VERSION ? changes : { ...migrateRecord(row, rowVersion), ...changes };
+    const body = JSON.stringify(tagRecord(next));
+    return migrateRecord(await request(path, { method: "PATCH", body }), rowVersion);
+  }
+
+  return {
+    label: `API (${root})`,
+    shared: true,
+    get migrationFailures() {
+      return migrationFailures;
+    },
+    async list() {
+      const report = migrateRecords(await request("/artists"), rowVersion);
+      migrationFailures = report.failures;
+      return report.entries;
+    },
+    async get(id) {
+      try {
+        return migrateRecord(await request(`/artists/${encodeURIComponent(id)}`), rowVersion);
+      } catch (e) {
+        if (e instanceof HttpError && e.status === 404) return undefined;
+        throw e;
+      }
+    },
+    async create(entry) {
+      const body = JSON.stringify(tagRecord(entry));
+      return migrateRecord(await request("/artists", { method: "POST", body }), rowVersion);
+    },
+    async update(id, changes) {
+      return patch(id, changes);
+    },
+    // The API has no batch endpoint; each entry is its own PATCH
+    async updateMany(patches) {
+      return Promise.all(patches.map((p) => patch(p.id, p.patch)));
+    },
+    async delete(id) {
+      await request(`/artists/${encodeURIComponent(id)}`, { method: "DELETE" });
+    },
+    async bulkImport(list) {
+      const body = JSON.stringify(list.map(tagRecord));
+      return migrateRecords(await request("/artists", { method: "PUT", body }), rowVersion).entries;
+    },
+    // Servers without collections yet answer 404; treat that as none
+    async listCollections() {
+      try {
+        return sanitizeCollections(await request("/collections"));
+      } catch (e) {
+        if (e instanceof HttpError && e.status === 404) return [];
+        throw e;
+      }
+    },
+    async saveCollections(list) {
+      return sanitizeCollections(await request("/collections", { method: "PUT", body: JSON.stringify(list) }));
+    },
+    async listArtTypes() {
+      try {
+        return sanitizeArtTypes(await request("/art-types"));
+      } catch (e) {
+        if (e instanceof HttpError && e.status === 404) return [];
+        throw e;
+      }
+    },
+    async saveArtTypes(list) {
+      return sanitizeArtTypes(await request("/art-types", { method: "PUT", body: JSON.stringify(list) }));
+    },
+    async listOpenCalls() {
+      try {
+        return sanitizeOpenCalls(await request("/open-calls"));
+      } catch (e) {
+        if (e instanceof HttpError && e.status === 404) return [];
+        throw e;
+      }
+    },
+    async saveOpenCalls(list) {
+      return sanitizeOpenCalls(await request("/open-calls", { method: "PUT", body: JSON.stringify(list) }));
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { sanitizeCollections, type Collection } from "../collections";
+import { sanitizeOpenCalls } from "../openCalls";
+import { sanitizeArtTypes } from "../taxonomy";
+import { migrateRecord, migrateRecords, tagRecord, type MigrationFailure } from "../schema";
+import type { ArtistEntry } from "../types";
+import type { ArtistRepository } from "./repository";
+
+const DB_NAME = "loveletter";
+// 2 added the collections store, 3 the settings store
+const DB_VERSION = 3;
+const STORE = "artists";
+const COLLECTIONS = "collections";
+// Single values under fixed keys ("artTypes", "openCalls")
+const SETTINGS = "settings";
+// Rows written before per-row version tags existed are already in this shape
+const UNTAGGED_VERSION = 2;
+const rowVersion = (row: any) => row.schemaVersion ?? UNTAGGED_VERSION;
+
+/** One record per entry in an IndexedDB object store keyed by `id`; collections get a store of their own */
+export function createIndexedDbRepository(dbName = DB_NAME): ArtistRepository {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let migrationFailures: MigrationFailure[] = [];
+
+  function open() {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(dbName, DB_VERSION);
+        req.onupgradeneeded = () => {
+          if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "id" });
+          if (!req.result.objectStoreNames.contains(COLLECTIONS)) {
+            req.result.createObjectStore(COLLECTIONS, { keyPath: "id" });
+          }
+          if (!req.result.objectStoreNames.contains(SETTINGS)) req.result.createObjectStore(SETTINGS);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return dbPromise;
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T> | void,
+    storeName = STORE
+  ): Promise<T> {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = fn(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async function get(id: string) {
+    const row = await run<unknown>("readonly", (s) => s.get(id));
+    return row ? migrateRecord(row, rowVersion) : undefined;
+  }
+
+  return {
+    label: "IndexedDB",
+    get migrationFailures() {
+      return migrationFailures;
+    },
+    // Unreadable rows stay in the store untouched; they are only reported
+    async list() {
+      const rows = await run<unknown[]>("readonly", (s) => s.getAll());
+      const report = migrateRecords(rows, rowVersion);
+      migrationFailures = report.failures;
+      return report.entries;
+    },
+    get,
+    async create(entry) {
+      await run("readwrite", (s) => s.add(tagRecord(entry)));
+      return entry;
+    },
+    async update(id, patch) {
+      const current = await get(id);
+      if (!current) throw new Error(`Artist ${id} not found`);
+      const next: ArtistEntry = { ...current, ...patch, id };
+      await run("readwrite", (s) => s.put(tagRecord(next)));
+      return next;
+    },
+    async updateMany(patches) {
+      const current = await Promise.all(patches.map(({ id }) => get(id)));
+      const saved = patches.map(({ id, patch }, i) => {
+        if (!current[i]) throw new Error(`Artist ${id} not found`);
+        return { ...current[i], ...patch, id } as ArtistEntry;
+      });
+      await run("readwrite", (s) => {
+        saved.forEach((e) => s.put(tagRecord(e)));
+      });
+      return saved;
+    },
+    async delete(id) {
+      await run("readwrite", (s) => s.delete(id));
+    },
+    async bulkImport(list) {
+      await run("readwrite", (s) => {
+        s.clear();
+        list.forEach((e) => s.put(tagRecord(e)));
+      });
+      return list;
+    },
+    async listCollections() {
+      return sanitizeCollections(await run<Collection[]>("readonly", (s) => s.getAll(), COLLECTIONS));
+    },
+    async saveCollections(list) {
+      await run(
+        "readwrite",
+        (s) => {
+          s.clear();
+          list.forEach((c) => s.put(c));
+        },
+        COLLECTIONS
+      );
+      return list;
+    },
+    async listArtTypes() {
+      return sanitizeArtTypes(await run<unknown>("readonly", (s) => s.get("artTypes"), SETTINGS));
+    },
+    async saveArtTypes(list) {
+      await run("readwrite", (s) => s.put(list, "artTypes"), SETTINGS);
+      return list;
+    },
+    async listOpenCalls() {
+      return sanitizeOpenCalls(await run<unknown>("readonly", (s) => s.get("openCalls"), SETTINGS));
+    },
+    async saveOpenCalls(list) {
+      await run("readwrite", (s) => s.put(list, "openCalls"), SETTINGS);
+      return list;
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { sanitizeCollections } from "../collections";
+import { sanitizeOpenCalls } from "../openCalls";
+import { sanitizeArtTypes } from "../taxonomy";
+import { CURRENT_SCHEMA_VERSION, migrateRecords, type MigrationFailure } from "../schema";
+import type { ArtistEntry } from "../types";
+import type { ArtistRepository } from "./repository";
+
+const STORAGE_KEY = "ll_submissions";
+
+/**
+ * Keeps the whole list as one JSON array under `ll_submissions` (the original demo format).
+ * `ll_submissions_version` records its schema; data without it predates versioning (0).
+ * Records that fail to upgrade are moved to `ll_submissions_unmigrated` instead of being lost; when none
+ * upgrade (data from a newer version, say) the list is left as it is and nothing is written over it.
+ * Collections are a separate array under `ll_submissions_collections`, art types under `ll_submissions_art_types`
+ * and open calls under `ll_submissions_open_calls`.
+ */
+export function createLocalStorageRepository(key = STORAGE_KEY): ArtistRepository {
+  const versionKey = `${key}_version`;
+  const unmigratedKey = `${key}_unmigrated`;
+  const collectionsKey = `${key}_collections`;
+  const artTypesKey = `${key}_art_types`;
+  const openCallsKey = `${key}_open_calls`;
+  let migrationFailures: MigrationFailure[] = [];
+  let unreadable = false;
+
+  function read(): ArtistEntry[] {
+    const raw = localStorage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    const stored = localStorage.getItem(versionKey);
+    const version = stored === null ? 0 : Number(stored);
+    if (!Number.isInteger(version)) throw new Error(`Unreadable schema version "${stored}" in ${versionKey}`);
+    const report = migrateRecords(parsed, version);
+    unreadable = parsed.length > 0 && report.entries.length === 0;
+    if (version !== CURRENT_SCHEMA_VERSION) {
+      migrationFailures = report.failures;
+      if (unreadable) return [];
+      if (report.failures.length) {
+        const kept = JSON.parse(localStorage.getItem(unmigratedKey) ?? "[]");
+        const failed = report.failures.map((f) => ({ fromVersion: version, reason: f.reason, record: f.record }));
+        localStorage.setItem(unmigratedKey, JSON.stringify([...kept, ...failed]));
+      }
+      write(report.entries);
+    }
+    return report.entries;
+  }
+
+  // setItem throws when the quota is exceeded; let it reach the UI
+  function write(list: ArtistEntry[]) {
+    if (unreadable) throw new Error("The stored entries could not be read; saving now would replace them");
+    localStorage.setItem(key, JSON.stringify(list));
+    localStorage.setItem(versionKey, String(CURRENT_SCHEMA_VERSION));
+  }
+
+  return {
+    label: "localStorage",
+    get migrationFailures() {
+      return migrationFailures;
+    },
+    async list() {
+      return read();
+    },
+    async get(id) {
+      return read().find((e) => e.id === id);
+    },
+    async create(entry) {
+      write([entry, ...read()]);
+      return entry;
+    },
+    async update(id, patch) {
+      const list = read();
+      const idx = list.findIndex((e) => e.id === id);
+      if (idx === -1) throw new Error(`Artist ${id} not found`);
+      const next = { ...list[idx], ...patch, id };
+      list[idx] = next;
+      write(list);
+      return next;
+    },
+    async updateMany(patches) {
+      const list = read();
+      const index = new Map(list.map((e, i) => [e.id, i]));
+      const saved = patches.map(({ id, patch }) => {
+        const idx = index.get(id);
+        if (idx === undefined) throw new Error(`Artist ${id} not found`);
+        return (list[idx] = { ...list[idx], ...patch, id });
+      });
+      write(list);
+      return saved;
+    },
+    async delete(id) {
+      write(read().filter((e) => e.id !== id));
+    },
+    async bulkImport(list) {
+      write(list);
+      return list;
+    },
+    async listCollections() {
+      return sanitizeCollections(JSON.parse(localStorage.getItem(collectionsKey) ?? "[]"));
+    },
+    async saveCollections(list) {
+      localStorage.setItem(collectionsKey, JSON.stringify(list));
+      return list;
+    },
+    async listArtTypes() {
+      return sanitizeArtTypes(JSON.parse(localStorage.getItem(artTypesKey) ?? "[]"));
+    },
+    async saveArtTypes(list) {
+      localStorage.setItem(artTypesKey, JSON.stringify(list));
+      return list;
+    },
+    async listOpenCalls() {
+      return sanitizeOpenCalls(JSON.parse(localStorage.getItem(openCallsKey) ?? "[]"));
+    },
+    async saveOpenCalls(list) {
+      localStorage.setItem(openCallsKey, JSON.stringify(list));
+      return list;
+    },
+  };
+}
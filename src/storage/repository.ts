@@ -0,0 +1,88 @@
+import type { Collection } from "../collections";
+import type { ArtTypeTerm } from "../taxonomy";
+import type { OpenCall } from "../openCalls";
+import type { MigrationFailure } from "../schema";
+import type { ArtistEntry } from "../types";
+import { createHttpRepository } from "./httpRepository";
+import { createIndexedDbRepository } from "./indexedDbRepository";
+import { createLocalStorageRepository } from "./localStorageRepository";
+
+/**
+ * Storage backend for artist entries.
+ * Every method is async so a local store and a remote API are interchangeable.
+ */
+export interface ArtistRepository {
+  /** Human-readable backend name, shown in the footer */
+  readonly label: string;
+  /** Set when every write fails (a published snapshot); the UI hides editing */
+  readonly readOnly?: boolean;
+  /** Set when other people use the same store (the API); the app then leaves seeding and trash expiry to the server */
+  readonly shared?: boolean;
+  /** Stored records the last `list()` could not upgrade to the current schema */
+  readonly migrationFailures: MigrationFailure[];
+  list(): Promise<ArtistEntry[]>;
+  get(id: string): Promise<ArtistEntry | undefined>;
+  create(entry: ArtistEntry): Promise<ArtistEntry>;
+  update(id: string, patch: Partial<ArtistEntry>): Promise<ArtistEntry>;
+  /** Several updates in one write where the backend allows it (batch edits, trash and restore) */
+  updateMany(patches: EntryPatch[]): Promise<ArtistEntry[]>;
+  delete(id: string): Promise<void>;
+  /** Replace every stored entry with `list` */
+  bulkImport(list: ArtistEntry[]): Promise<ArtistEntry[]>;
+  /** Curator collections; few and small, so always read and saved whole */
+  listCollections(): Promise<Collection[]>;
+  saveCollections(list: Collection[]): Promise<Collection[]>;
+  /** The managed art types, in order; empty until first saved (the app then uses the defaults) */
+  listArtTypes(): Promise<ArtTypeTerm[]>;
+  saveArtTypes(list: ArtTypeTerm[]): Promise<ArtTypeTerm[]>;
+  /** Open call definitions, saved whole like collections */
+  listOpenCalls(): Promise<OpenCall[]>;
+  saveOpenCalls(list: OpenCall[]): Promise<OpenCall[]>;
+}
+
+export type EntryPatch = { id: string; patch: Partial<ArtistEntry> };
+
+export type StorageBackend = "local" | "indexeddb" | "http";
+
+/** Pick the backend from Vite env (`VITE_STORAGE_BACKEND`, `VITE_API_URL`) */
+export function createRepository(env: ImportMetaEnv = import.meta.env): ArtistRepository {
+  const backend = (env.VITE_STORAGE_BACKEND || "local") as StorageBackend;
+  switch (backend) {
+    case "local":
+      return createLocalStorageRepository();
+    case "indexeddb":
+      return createIndexedDbRepository();
+    case "http":
+      return createHttpRepository(env.VITE_API_URL || "/api");
+    default:
+      throw new Error(`Unknown storage backend "${backend}"`);
+  }
+}
+
+/**
+ * Stands in for a backend that could not be created (a mistyped `VITE_STORAGE_BACKEND`):
+ * every call fails with that error, so the app reports it like a failed load instead of
+ * failing to render.
+ */
+export function createFailedRepository(error: unknown): ArtistRepository {
+  const fail = async (): Promise<never> => {
+    throw error;
+  };
+  return {
+    label: "unavailable",
+    migrationFailures: [],
+    list: fail,
+    get: fail,
+    create: fail,
+    update: fail,
+    updateMany: fail,
+    delete: fail,
+    bulkImport: fail,
+    listCollections: fail,
+    saveCollections: fail,
+    listArtTypes: fail,
+    saveArtTypes: fail,
+    listOpenCalls: fail,
+    saveOpenCalls: fail,
+  };
+}
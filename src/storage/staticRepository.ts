@@ -0,0 +1,69 @@
+import type { Collection } from "../collections";
+import type { MigrationFailure } from "../schema";
+import type { ArtistEntry } from "../types";
+import type { ArtistRepository } from "./repository";
+
+/**
+ * Data behind a prerendered site: the public entries of an export, with images
+ * rewritten to plain URLs. Written by `scripts/prerender.mjs`, fetched by the
+ * static pages before they hydrate. Read-only: there is nowhere to save to.
+ */
+export type StaticSnapshot = {
+  generatedAt: string; // ISO
+  entries: ArtistEntry[];
+  collections: Collection[];
+};
+
+// Where the prerendered pages say their snapshot is
+export const STATIC_DATA_META = "loveletter:data";
+// The path a page was prerendered for; other paths render on the client instead of hydrating
+export const PRERENDERED_PATH_META = "loveletter:prerendered";
+
+export class ReadOnlyError extends Error {
+  constructor() {
+    super("This is a published copy of the directory; changes cannot be saved here");
+    this.name = "ReadOnlyError";
+  }
+}
+
+export function createStaticRepository(snapshot: StaticSnapshot): ArtistRepository {
+  const readOnly = async (): Promise<never> => {
+    throw new ReadOnlyError();
+  };
+  return {
+    label: "published snapshot",
+    readOnly: true,
+    migrationFailures: [] as MigrationFailure[],
+    async list() {
+      return snapshot.entries;
+    },
+    async get(id) {
+      return snapshot.entries.find((e) => e.id === id);
+    },
+    create: readOnly,
+    update: readOnly,
+    updateMany: readOnly,
+    delete: readOnly,
+    bulkImport: readOnly,
+    async listCollections() {
+      return snapshot.collections;
+    },
+    saveCollections: readOnly,
+    // The published pages never offer a choice of art type, so the defaults do
+    async listArtTypes() {
+      return [];
+    },
+    saveArtTypes: readOnly,
+    // Calls take submissions, which a published copy cannot
+    async listOpenCalls() {
+      return [];
+    },
+    saveOpenCalls: readOnly,
+  };
+}
+
+export async function loadStaticSnapshot(url: string): Promise<StaticSnapshot> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load ${url}: ${res.status} ${res.statusText}`);
+  return res.json();
+}
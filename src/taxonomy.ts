@@ -0,0 +1,159 @@
+import { cleanList } from "./data";
+import type { ArtistEntry, EditableFields } from "./types";
+
+/**
+ * The managed list of art types offered on the submission form, in display
+ * order. Terms may sit under a parent category ("Visual arts" > "Painting").
+ * Retired terms stay valid on the entries that use them but are no longer
+ * offered. Renames and merges rewrite entries through `retypeFields`.
+ */
+
+export type ArtTypeTerm = {
+  name: string;
+  category: string; // "" when not grouped
+  retired: boolean;
+};
+
+/** Old spellings (lower-case) to the term that replaces them */
+export type ArtTypeMapping = Map<string, string>;
+
+// prettier-ignore
+const DEFAULT_GROUPS: [category: string, names: string[]][] = [
+  ["Visual arts", ["Painting", "Illustration", "Photography", "Sculpture", "Installation", "Mixed Media", "Collage", "Graffiti", "Street Art"]],
+  ["Moving image", ["Film/Video", "Animation", "Motion Design", "3D/CGI", "Game Art"]],
+  ["Design", ["Graphic Design", "Typography", "Web/Interactive", "Product/Industrial", "Architecture", "Interior", "Fashion/Textiles", "Accessories/Jewellery"]],
+  ["Performance & sound", ["Performance", "Sound/Music", "DJ/Producer"]],
+  ["Publishing & curation", ["Zine/Publishing", "Curatorial", "Creative Direction"]],
+];
+
+/** Used until an admin saves a list of their own */
+export const DEFAULT_ART_TYPES: ArtTypeTerm[] = DEFAULT_GROUPS.flatMap(([category, names]) =>
+  names.map((name) => ({ name, category, retired: false }))
+);
+
+/** Coerce stored or imported data; names are unique regardless of case */
+export function sanitizeArtTypes(list: unknown): ArtTypeTerm[] {
+  if (!Array.isArray(list)) return [];
+  const seen = new Set<string>();
+  return list.flatMap((t: any) => {
+    const name = String(t?.name ?? "").trim();
+    if (!name || seen.has(name.toLowerCase())) return [];
+    seen.add(name.toLowerCase());
+    return [{ name, category: String(t.category ?? "").trim(), retired: Boolean(t.retired) }];
+  });
+}
+
+export function findArtType(terms: ArtTypeTerm[], name: string) {
+  const key = name.trim().toLowerCase();
+  return terms.find((t) => t.name.toLowerCase() === key);
+}
+
+/** Offered for new choices, in order */
+export function activeArtTypes(terms: ArtTypeTerm[]) {
+  return terms.filter((t) => !t.retired).map((t) => t.name);
+}
+
+/** Active terms by category, categories in order of first appearance; ungrouped terms under "" */
+export function groupArtTypes(terms: ArtTypeTerm[]) {
+  const groups = new Map<string, string[]>();
+  for (const t of terms) {
+    if (t.retired) continue;
+    groups.set(t.category, [...(groups.get(t.category) ?? []), t.name]);
+  }
+  return [...groups].map(([category, names]) => ({ category, names }));
+}
+
+export function categories(terms: ArtTypeTerm[]) {
+  return cleanList(terms.map((t) => t.category));
+}
+
+export function addArtType(terms: ArtTypeTerm[], name: string, category = ""): ArtTypeTerm[] {
+  if (!name.trim() || findArtType(terms, name)) return terms;
+  return [...terms, { name: name.trim(), category: category.trim(), retired: false }];
+}
+
+export function updateArtType(terms: ArtTypeTerm[], name: string, patch: Partial<Omit<ArtTypeTerm, "name">>) {
+  return terms.map((t) => (t.name === name ? { ...t, ...patch } : t));
+}
+
+export function moveArtType(terms: ArtTypeTerm[], from: number, to: number) {
+  if (to < 0 || to >= terms.length) return terms;
+  const next = [...terms];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+}
+
+/**
+ * Rename a term in place. Renaming onto another existing term is a merge;
+ * returns null then so the caller can offer that instead.
+ */
+export function renameArtType(terms: ArtTypeTerm[], from: string, to: string) {
+  const name = to.trim();
+  const existing = findArtType(terms, name);
+  if (!name || (existing && existing.name.toLowerCase() !== from.toLowerCase())) return null;
+  return {
+    terms: terms.map((t) => (t.name === from ? { ...t, name } : t)),
+    mapping: new Map([[from.toLowerCase(), name]]) as ArtTypeMapping,
+  };
+}
+
+/**
+ * Fold `from` into the term `into`. `from` need not be a term at all, which is
+ * how stray spellings from imports ("photo") are cleaned up.
+ */
+export function mergeArtTypes(terms: ArtTypeTerm[], from: string[], into: string) {
+  const target = findArtType(terms, into);
+  if (!target) return null;
+  const sources = from.filter((f) => f !== target.name);
+  const dropped = new Set(sources.map((f) => f.toLowerCase()));
+  return {
+    // Merging "photography" into "Photography" keeps the target
+    terms: terms.filter((t) => t === target || !dropped.has(t.name.toLowerCase())),
+    mapping: new Map(sources.map((f) => [f.toLowerCase(), target.name])) as ArtTypeMapping,
+  };
+}
+
+/** Art type and disciplines with renamed or merged terms replaced; null when nothing changes */
+export function retypeFields(fields: EditableFields, mapping: ArtTypeMapping): EditableFields | null {
+  const swap = (name: string) => mapping.get(name.toLowerCase()) ?? name;
+  const artType = swap(fields.artType);
+  const disciplines = cleanList(fields.disciplines.map(swap)).filter((d) => d.toLowerCase() !== artType.toLowerCase());
+  const same =
+    artType === fields.artType &&
+    disciplines.length === fields.disciplines.length &&
+    disciplines.every((d, i) => d === fields.disciplines[i]);
+  return same ? null : { ...fields, artType, disciplines };
+}
+
+/** How many entries use each art type, as primary or further discipline */
+export function artTypeUsage(entries: ArtistEntry[]) {
+  const usage = new Map<string, number>();
+  for (const e of entries) {
+    for (const name of cleanList([e.artType, ...e.disciplines])) usage.set(name, (usage.get(name) ?? 0) + 1);
+  }
+  return usage;
+}
+
+/**
+ * Spellings in use that are not in the taxonomy, most used first, each with
+ * the term it most likely means: same letters in another case, or a term it
+ * starts (or is started by), so "photography" and "Photo" both suggest "Photography".
+ */
+export function unknownArtTypes(usage: Map<string, number>, terms: ArtTypeTerm[]) {
+  const known = new Set(terms.map((t) => t.name));
+  return [...usage]
+    .filter(([name]) => !known.has(name))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([name, count]) => {
+      const key = name.toLowerCase();
+      const suggestion =
+        findArtType(terms, name) ??
+        terms.find((t) => t.name.toLowerCase().startsWith(key) || key.startsWith(t.name.toLowerCase()));
+      return { name, count, suggestion: suggestion?.name };
+    });
+}
+
+/** Import: terms from the file that are not known here are added at the end; local order and settings win */
+export function mergeArtTypeLists(local: ArtTypeTerm[], incoming: ArtTypeTerm[]) {
+  return incoming.reduce((terms, t) => (findArtType(terms, t.name) ? terms : [...terms, t]), local);
+}
@@ -0,0 +1,42 @@
+/** Text folding shared by search and place matching: case, accents and ligatures are ignored */
+
+// Letters NFKD does not decompose
+const SPECIAL_FOLDS: Record<string, string> = {
+  ø: "o",
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+};
+
+/** Fold one character: lowercase, strip accents, expand ligatures */
+function foldChar(c: string) {
+  const lower = c.toLowerCase();
+  return SPECIAL_FOLDS[lower] ?? lower.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+export function fold(text: string) {
+  return Array.from(text).map(foldChar).join("");
+}
+
+/**
+ * Fold `text` keeping a map from each folded char back to its source index,
+ * so matches found in folded text can be highlighted in the original.
+ */
+export function foldWithMap(text: string) {
+  let folded = "";
+  const map: number[] = [];
+  let i = 0;
+  for (const c of Array.from(text)) {
+    const f = foldChar(c);
+    folded += f;
+    for (let k = 0; k < f.length; k++) map.push(i);
+    i += c.length;
+  }
+  map.push(i);
+  return { folded, map };
+}
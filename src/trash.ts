@@ -0,0 +1,31 @@
+import type { ArtistEntry } from "./types";
+
+/**
+ * Deleting moves an entry to the trash (`deletedAt` set) rather than removing it.
+ * Trashed entries keep their images until they are purged, either by hand or
+ * once they have been in the trash longer than the retention period.
+ */
+
+const DAY = 24 * 3600 * 1000;
+
+// `VITE_TRASH_RETENTION_DAYS`; 0 keeps trashed entries until the trash is emptied
+const retention = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS ?? 30);
+export const TRASH_RETENTION_DAYS = Number.isFinite(retention) && retention >= 0 ? retention : 30;
+
+export function isTrashed(entry: Pick<ArtistEntry, "deletedAt">) {
+  return Boolean(entry.deletedAt);
+}
+
+/** When a trashed entry will be purged; undefined if it never will be */
+export function purgeDate(entry: ArtistEntry, days = TRASH_RETENTION_DAYS) {
+  if (!entry.deletedAt || days === 0) return undefined;
+  return new Date(new Date(entry.deletedAt).getTime() + days * DAY);
+}
+
+/** Trashed entries past the retention period */
+export function expiredTrash(entries: ArtistEntry[], now = new Date(), days = TRASH_RETENTION_DAYS) {
+  return entries.filter((e) => {
+    const at = purgeDate(e, days);
+    return at !== undefined && at <= now;
+  });
+}
@@ -0,0 +1,51 @@
+import type { Place } from "./geo/places";
+
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+// "sent_back" returns a submission to the queue with a note for the artist
+export type ReviewAction = "approved" | "rejected" | "sent_back";
+
+export type ReviewEvent = { action: ReviewAction; note: string; at: string; by?: string };
+
+/** The user-editable part of an entry, as stored in revisions */
+export type EditableFields = Pick<
+  ArtistEntry,
+  "name" | "artType" | "disciplines" | "tags" | "location" | "place" | "bio" | "images" | "links"
+>;
+
+/** One picture of the artist's work; `src` is an `asset:` ref or a URL */
+export type ArtworkImage = { src: string; caption: string; alt: string };
+
+/** A file uploaded to answer an open call question; `src` is an `asset:` ref */
+export type CallFile = { name: string; type: string; size: number; src: string };
+
+// Text and select questions are answered with a string, checkboxes with a boolean
+export type CallAnswer = string | boolean | CallFile;
+
+// A past state of an entry: `before` was current from `at` until `savedAt`, when `savedBy` replaced it
+export type Revision = { id: string; at: string; savedAt: string; savedBy?: string; before: EditableFields };
+
+export type ArtistEntry = {
+  id: string;
+  name: string;
+  artType: string; // primary discipline
+  disciplines: string[]; // further disciplines, never repeating artType
+  tags: string[]; // free-form, lower-case ("risograph", "available for commission")
+  location: string; // as the artist wrote it
+  place?: Place; // derived from location via the gazetteer; absent when not recognised
+  bio: string;
+  images: ArtworkImage[]; // first is the cover
+  links: { label: string; url: string }[];
+  createdAt: string; // ISO
+  createdBy?: string; // who submitted it, e.g. "visitor" or "Sam (curator)"; see auth/permissions.ts
+  updatedAt?: string; // ISO, last edit
+  updatedBy?: string; // who last changed anything, review and trash included
+  revisions: Revision[]; // oldest first
+  status: ReviewStatus;
+  reviewNote: string; // latest curator note
+  reviewedAt?: string; // ISO, latest review
+  reviewLog: ReviewEvent[];
+  deletedAt?: string | null; // ISO, while in the trash; null once restored
+  callId?: string; // the open call it was submitted to; see openCalls.ts
+  answers?: Record<string, CallAnswer>; // the call's custom questions, by field id
+};
@@ -0,0 +1,63 @@
+import { recogniseLink } from "./links";
+import type { EditableFields } from "./types";
+
+/**
+ * Submission rules. Errors are keyed by field so the form can show them
+ * inline; links are keyed per row ("links.0"), with "links" for the list.
+ */
+
+export const LIMITS = {
+  name: 100,
+  location: 120,
+  bio: 2000,
+  tags: 20,
+  tagLength: 40,
+  links: 10,
+  linkLabel: 40,
+  url: 500,
+  images: 12,
+  caption: 200,
+  alt: 250,
+};
+
+export type FieldErrors = Partial<Record<string, string>>;
+
+function tooLong(value: string, max: number, what: string) {
+  return value.length > max ? `${what} is too long (${value.length}/${max} characters).` : undefined;
+}
+
+export function validateFields(fields: EditableFields): FieldErrors {
+  const errors: FieldErrors = {};
+  const set = (key: string, message: string | undefined) => {
+    if (message && !errors[key]) errors[key] = message;
+  };
+
+  set("name", fields.name ? tooLong(fields.name, LIMITS.name, "Name") : "Enter your name.");
+  set("artType", fields.artType ? undefined : "Choose a type of art.");
+  set(
+    "location",
+    fields.location ? tooLong(fields.location, LIMITS.location, "Location") : "Enter a city and country."
+  );
+  set("bio", tooLong(fields.bio, LIMITS.bio, "Bio"));
+
+  if (fields.tags.length > LIMITS.tags) set("tags", `Use at most ${LIMITS.tags} tags.`);
+  const longTag = fields.tags.find((t) => t.length > LIMITS.tagLength);
+  if (longTag) set("tags", `"${longTag.slice(0, 20)}…" is too long for a tag (max ${LIMITS.tagLength}).`);
+
+  if (fields.images.length > LIMITS.images) set("images", `Use at most ${LIMITS.images} images.`);
+  fields.images.forEach((img, i) => {
+    set(`images.${i}`, tooLong(img.caption, LIMITS.caption, "Caption") ?? tooLong(img.alt, LIMITS.alt, "Alt text"));
+  });
+
+  if (fields.links.length > LIMITS.links) set("links", `Use at most ${LIMITS.links} links.`);
+  fields.links.forEach((l, i) => {
+    const key = `links.${i}`;
+    set(key, tooLong(l.label, LIMITS.linkLabel, "Label"));
+    if (!l.url.trim()) return;
+    if (l.url.length > LIMITS.url) set(key, tooLong(l.url, LIMITS.url, "Address"));
+    else if (!recogniseLink(l.url, l.label))
+      set(key, "Use a web address (https://…, or just the domain) or an @handle.");
+  });
+
+  return errors;
+}
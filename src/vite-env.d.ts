@@ -0,0 +1,22 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** "local" (default), "indexeddb" or "http" */
+  readonly VITE_STORAGE_BACKEND?: string;
+  /** Base URL for the http backend, defaults to "/api" (proxied to the mock server in dev) */
+  readonly VITE_API_URL?: string;
+  /** Longest edge of stored full-size images, px (default 1600) */
+  readonly VITE_IMAGE_MAX_DIMENSION?: string;
+  /** Longest edge of thumbnails, px (default 480) */
+  readonly VITE_IMAGE_THUMB_DIMENSION?: string;
+  /** Encoder quality 0..1 (default 0.82) */
+  readonly VITE_IMAGE_QUALITY?: string;
+  /** Days a deleted entry stays in the trash before it is purged; 0 keeps it until emptied (default 30) */
+  readonly VITE_TRASH_RETENTION_DAYS?: string;
+  /** Sign-in provider: "local" (default), the development stand-in */
+  readonly VITE_AUTH_PROVIDER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
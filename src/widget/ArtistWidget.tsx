@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { FEED_VERSION, filterFeed, type ArtistFeed } from "../feeds";
+import { directoryPath } from "../router";
+import { fold } from "../text";
+
+// Widgets on one page share a download per feed
+const feeds = new Map<string, Promise<ArtistFeed>>();
+
+function loadFeed(src: string) {
+  let feed = feeds.get(src);
+  if (!feed) {
+    feed = fetch(src).then(async (res) => {
+      if (!res.ok) throw new Error(`Could not load ${src}: ${res.status} ${res.statusText}`);
+      const data: ArtistFeed = await res.json();
+      if (data.version !== FEED_VERSION) throw new Error(`Feed version ${data.version} is not supported`);
+      return data;
+    });
+    // A failed download is tried again by the next widget rather than remembered
+    feed.catch(() => feeds.delete(src));
+    feeds.set(src, feed);
+  }
+  return feed;
+}
+
+/**
+ * A read-only slice of the directory for other sites: the published artists
+ * matching an art type and a place, newest first, each linking to their page.
+ */
+export default function ArtistWidget({
+  src,
+  artType,
+  location,
+  limit,
+}: {
+  src: string; // the JSON feed
+  artType: string;
+  location: string;
+  limit: number;
+}) {
+  const [feed, setFeed] = useState<ArtistFeed | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    loadFeed(src)
+      .then((f) => !cancelled && setFeed(f))
+      .catch((e) => {
+        console.error("Love Letter widget: failed to load artists", e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const heading = `Love Letter artists${artType ? ` in ${artType}` : ""}${location ? ` from ${location}` : ""}`;
+  const matches = feed ? filterFeed(feed.artists, { artType, location }) : [];
+  // The directory's art filter wants the type as the site spells it
+  const art = feed?.artists.flatMap((a) => a.artTypes).find((t) => fold(t) === fold(artType)) ?? artType;
+  const more = feed && new URL(directoryPath({ art: art ? [art] : [], q: location }), feed.site).href;
+
+  return (
+    <section className="ll-widget" aria-label={heading}>
+      <h2 className="ll-heading">{heading}</h2>
+      {failed ? (
+        <p className="ll-note">The artists could not be loaded.</p>
+      ) : !feed ? (
+        <p className="ll-note">Loading…</p>
+      ) : matches.length === 0 ? (
+        <p className="ll-note">No artists here yet.</p>
+      ) : (
+        <ul className="ll-grid">
+          {matches.slice(0, limit).map((a) => (
+            <li key={a.id}>
+              <a href={a.url} target="_blank" rel="noopener" className="ll-card">
+                {a.images[0] ? (
+                  <img src={a.images[0].url} alt={a.images[0].alt} loading="lazy" className="ll-cover" />
+                ) : (
+                  <span className="ll-cover" />
+                )}
+                <span className="ll-name">{a.name}</span>
+                <span className="ll-meta">{[a.artTypes[0], a.city ?? a.location].filter(Boolean).join(" • ")}</span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+      {more && matches.length > 0 && (
+        <a href={more} target="_blank" rel="noopener" className="ll-more">
+          {matches.length > limit ? `All ${matches.length} on Love Letter` : "More on Love Letter"} →
+        </a>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+import { createRoot, type Root } from "react-dom/client";
+import { FEED_PATHS } from "../feeds";
+import ArtistWidget from "./ArtistWidget";
+import styles from "./widget.css?inline";
+
+/**
+ * `<loveletter-artists>`, built on its own by `npm run build:widget` into one
+ * script for other sites to include:
+ *
+ *   <script src="https://artists.example.org/widget/loveletter-widget.js" defer></script>
+ *   <loveletter-artists location="Melbourne" art-type="Illustration" limit="6" theme="dark"></loveletter-artists>
+ *
+ * It renders into a shadow root with styles of its own, so the host page's CSS
+ * neither reaches in nor gets overridden. The artists come from the site's JSON
+ * feed, next to the script unless `src` names another.
+ */
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 100;
+
+// Read while the script runs; `currentScript` is gone by the time an element connects
+const scriptUrl = (document.currentScript as HTMLScriptElement | null)?.src || window.location.href;
+const DEFAULT_SRC = new URL(FEED_PATHS.json, scriptUrl).href;
+
+class ArtistsElement extends HTMLElement {
+  // `theme` is styled from the attribute itself (widget.css)
+  static observedAttributes = ["src", "art-type", "location", "limit"];
+  private root?: Root;
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = styles;
+    const mount = document.createElement("div");
+    shadow.replaceChildren(style, mount);
+    this.root = createRoot(mount);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = undefined;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private render() {
+    const limit = Number(this.getAttribute("limit"));
+    this.root?.render(
+      <ArtistWidget
+        src={this.getAttribute("src") || DEFAULT_SRC}
+        artType={this.getAttribute("art-type") ?? ""}
+        location={this.getAttribute("location") ?? ""}
+        limit={Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT}
+      />
+    );
+  }
+}
+
+if (!customElements.get("loveletter-artists")) customElements.define("loveletter-artists", ArtistsElement);
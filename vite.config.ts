@@ -1,7 +1,38 @@
-import { defineConfig } from 'vite'
+import { copyFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Static hosts without rewrite rules (e.g. GitHub Pages) serve 404.html for unknown
+// paths, so a copy of index.html there lets deep links like /artist/:id load the app
+function spaFallback(): Plugin {
+  let outDir = 'dist'
+  let ssr = false
+  return {
+    name: 'spa-404-fallback',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+      ssr = Boolean(config.build.ssr)
+    },
+    closeBundle() {
+      // The prerender server bundle (npm run prerender) has no index.html
+      if (ssr) return
+      copyFileSync(resolve(outDir, 'index.html'), resolve(outDir, '404.html'))
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), spaFallback()],
+  server: {
+    // Forward /api to the mock backend (npm run mock-api) for VITE_STORAGE_BACKEND=http
+    proxy: {
+      '/api': {
+        target: 'http://localhost:8787',
+        rewrite: (path) => path.replace(/^\/api/, ''),
+      },
+    },
+  },
 })
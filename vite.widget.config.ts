@@ -0,0 +1,22 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// The embeddable widget (src/widget/main.tsx): one self-contained script, React included,
+// written to dist/widget/ after the site build (npm run build:widget)
+export default defineConfig({
+  plugins: [react()],
+  // Library builds leave this to the bundler that includes them; the widget is included by nothing
+  define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: true,
+    copyPublicDir: false,
+    lib: {
+      entry: fileURLToPath(new URL('./src/widget/main.tsx', import.meta.url)),
+      name: 'LoveLetterWidget',
+      formats: ['iife'],
+      fileName: () => 'loveletter-widget.js',
+    },
+  },
+})